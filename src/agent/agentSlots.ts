@@ -0,0 +1,69 @@
+/**
+ * Server-wide limit on how many vaults' agents run at once. A run that finds every slot taken waits, in
+ * arrival order, until another vault's run ends or it is itself stopped.
+ */
+
+/** 0 means unlimited. */
+let maxConcurrent = 0;
+let running = 0;
+const waiters: (() => void)[] = [];
+
+function hasFreeSlot(): boolean {
+  return maxConcurrent <= 0 || running < maxConcurrent;
+}
+
+/** Hand free slots to waiting runs, oldest first. */
+function wake(): void {
+  while (waiters.length > 0 && hasFreeSlot()) {
+    running++;
+    waiters.shift()!();
+  }
+}
+
+export function setMaxConcurrentAgents(max: number): void {
+  maxConcurrent = Math.max(0, Math.floor(max));
+  wake();
+}
+
+export function getAgentSlots(): { max: number; running: number; waiting: number } {
+  return { max: maxConcurrent, running, waiting: waiters.length };
+}
+
+/**
+ * Take a slot, waiting for one if needed (`onWait` is called first). Resolves with the function that gives
+ * the slot back; if `signal` aborts while waiting, resolves without a slot and the function does nothing.
+ */
+export async function acquireAgentSlot(signal: AbortSignal, onWait?: () => void): Promise<() => void> {
+  if (waiters.length === 0 && hasFreeSlot()) {
+    running++;
+    return releaseOnce();
+  }
+  onWait?.();
+  return new Promise((resolve) => {
+    const granted = () => {
+      signal.removeEventListener("abort", cancel);
+      resolve(releaseOnce());
+    };
+    const cancel = () => {
+      const idx = waiters.indexOf(granted);
+      if (idx !== -1) waiters.splice(idx, 1);
+      resolve(() => {});
+    };
+    if (signal.aborted) {
+      resolve(() => {});
+      return;
+    }
+    waiters.push(granted);
+    signal.addEventListener("abort", cancel, { once: true });
+  });
+}
+
+function releaseOnce(): () => void {
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    running--;
+    wake();
+  };
+}
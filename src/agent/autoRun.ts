@@ -0,0 +1,141 @@
+/**
+ * Opt-in automatic runs: watcher events are debounced into one run, which starts when the agent is idle and
+ * the queue has work, outside the vault's quiet hours and within its runs-per-day limit.
+ */
+import { appendLog, getQueueLength } from "./queue.js";
+import { notifyAgentUpdate } from "./events.js";
+import { getAgentState, runLoop } from "./loop.js";
+import { loadAgentConfig } from "../storage/agentConfig.js";
+import { loadAutoRunCounter, saveAutoRunCounter } from "../storage/autoRun.js";
+import { vaultState } from "./vaultScope.js";
+
+export interface AutoRunStatus {
+  enabled: boolean;
+  /** When the next automatic run is due, if one is scheduled. */
+  nextRunAt: string | null;
+  /** What the scheduled run is waiting for: "debounce", "agent busy", "quiet hours" or "daily limit". */
+  waitingFor: string | null;
+  runsToday: number;
+  maxRunsPerDay: number;
+}
+
+/** The current vault's scheduled run. */
+const scheduled = vaultState(() => ({
+  timer: null as NodeJS.Timeout | null,
+  nextRunAt: null as number | null,
+  waitingFor: null as string | null,
+}));
+
+function localDay(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/** Minutes since midnight for both ends of "HH:MM-HH:MM"; null if empty or malformed. */
+function parseQuietHours(spec: string): { start: number; end: number } | null {
+  const m = spec.trim().match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+  if (!m) return null;
+  const [h1, m1, h2, m2] = m.slice(1).map(Number);
+  if (h1 > 23 || h2 > 23 || m1 > 59 || m2 > 59) return null;
+  return { start: h1 * 60 + m1, end: h2 * 60 + m2 };
+}
+
+/** If `now` falls inside the quiet hours (which may span midnight), the time they end; otherwise null. */
+export function quietHoursEnd(spec: string, now: Date): Date | null {
+  const range = parseQuietHours(spec);
+  if (!range || range.start === range.end) return null;
+  const minutes = now.getHours() * 60 + now.getMinutes();
+  const inside =
+    range.start < range.end
+      ? minutes >= range.start && minutes < range.end
+      : minutes >= range.start || minutes < range.end;
+  if (!inside) return null;
+  const end = new Date(now);
+  end.setHours(Math.floor(range.end / 60), range.end % 60, 0, 0);
+  if (end <= now) end.setDate(end.getDate() + 1);
+  return end;
+}
+
+function schedule(at: number, reason: string): void {
+  const run = scheduled();
+  if (run.timer) clearTimeout(run.timer);
+  run.nextRunAt = at;
+  run.waitingFor = reason;
+  run.timer = setTimeout(() => {
+    void fire();
+  }, Math.max(0, at - Date.now()));
+  run.timer.unref();
+  notifyAgentUpdate();
+}
+
+export function cancelAutoRun(): void {
+  const run = scheduled();
+  if (run.timer) clearTimeout(run.timer);
+  run.timer = null;
+  run.nextRunAt = null;
+  run.waitingFor = null;
+  notifyAgentUpdate();
+}
+
+/** Called when the watcher has queued work: (re)start the debounce timer if the vault has auto-run on. */
+export async function scheduleAutoRun(): Promise<void> {
+  const vaultPath = getAgentState().vaultPath;
+  if (!vaultPath) return;
+  const config = await loadAgentConfig(vaultPath);
+  if (!config.autoRun) {
+    if (scheduled().timer) cancelAutoRun();
+    return;
+  }
+  schedule(Date.now() + Math.max(0, config.autoRunDebounceSec) * 1000, "debounce");
+}
+
+async function fire(): Promise<void> {
+  const run = scheduled();
+  run.timer = null;
+  run.nextRunAt = null;
+  run.waitingFor = null;
+  const state = getAgentState();
+  const vaultPath = state.vaultPath;
+  if (!vaultPath) return;
+  const config = await loadAgentConfig(vaultPath);
+  // a paused run is left for the user to resume
+  if (!config.autoRun || getQueueLength() === 0 || state.status === "paused") {
+    notifyAgentUpdate();
+    return;
+  }
+  if (state.status !== "idle") {
+    schedule(Date.now() + Math.max(1, config.autoRunDebounceSec) * 1000, "agent busy");
+    return;
+  }
+  const quietEnd = quietHoursEnd(config.autoRunQuietHours, new Date());
+  if (quietEnd) {
+    schedule(quietEnd.getTime(), "quiet hours");
+    return;
+  }
+  const today = localDay(new Date());
+  const counter = await loadAutoRunCounter(vaultPath);
+  const runsToday = counter.day === today ? counter.runs : 0;
+  if (config.autoRunMaxPerDay > 0 && runsToday >= config.autoRunMaxPerDay) {
+    const tomorrow = new Date();
+    tomorrow.setHours(24, 0, 0, 0);
+    appendLog(`Auto-run: daily limit of ${config.autoRunMaxPerDay} run(s) reached; next run after midnight.`);
+    schedule(tomorrow.getTime(), "daily limit");
+    return;
+  }
+  await saveAutoRunCounter(vaultPath, { day: today, runs: runsToday + 1 });
+  appendLog(`Auto-run: starting agent for ${getQueueLength()} queued task(s).`);
+  runLoop().catch(() => {});
+}
+
+export async function getAutoRunStatus(vaultPath: string): Promise<AutoRunStatus> {
+  const config = await loadAgentConfig(vaultPath);
+  const counter = await loadAutoRunCounter(vaultPath);
+  const { nextRunAt, waitingFor } = scheduled();
+  return {
+    enabled: config.autoRun,
+    nextRunAt: nextRunAt != null ? new Date(nextRunAt).toISOString() : null,
+    waitingFor,
+    runsToday: counter.day === localDay(new Date()) ? counter.runs : 0,
+    maxRunsPerDay: config.autoRunMaxPerDay,
+  };
+}
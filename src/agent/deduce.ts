@@ -1,4 +1,3 @@
-import { writeFile, mkdir } from "fs/promises";
 import path from "path";
 import matter from "gray-matter";
 import type { LLMClient } from "../llm/client.js";
@@ -9,9 +8,15 @@ import {
   extractNoteTitlesFromVault,
 } from "./link.js";
 import { parseRelationshipLinksFromContent, stripMarkdownFences } from "./prompts.js";
-import { loadAgentConfig } from "../storage/agentConfig.js";
+import { renderPrompt, promptVersion } from "./promptTemplates.js";
+import { provenanceProperties } from "./provenance.js";
+import { writeNewNote } from "./noteLock.js";
+import { holdsForReview, isHeldTitle, proposeNote, titlesHeldForReview } from "./proposals.js";
+import { loadStageConfig } from "./pipeline.js";
 import { indexNote } from "../retrieval/embeddingIndex.js";
 import { getEmbeddingClient } from "../retrieval/retrieve.js";
+import { completeStructured } from "../llm/structured.js";
+import * as s from "../llm/schema.js";
 
 const INSIGHTS_DIR = "Insights";
 const MOC_DIR = "MOCs";
@@ -20,13 +25,16 @@ const MOC_PREFIX = MOC_DIR + "/";
 /** Relationship types that indicate "premise supports/concludes to target" */
 const PREMISE_RELATIONS = new Set(["Evidence for", "Supports", "Requires"]);
 
-const DEDUCE_SYSTEM_PROMPT = `You are the deductive agent. Given linked premises and optionally a current conclusion note, infer the unspoken conclusion only if it is new and non-obvious.
-
-Rules:
-- Create ZERO notes if no new logical conclusion can be drawn. Do not create Tautology Notes (simply restating the input).
-- Only output a new conclusion when it clearly follows from the premises and is not already stated in the vault.
-- If you output a conclusion, use exact format: one note with "title" and "content". In content use "Relationship:: Conclusion of [[Premise Title]]" for each premise. Set type to Conclusion.
-- Output only valid JSON: {"conclusion": null} when no new conclusion, or {"conclusion": {"title": "...", "content": "markdown with Relationship:: Conclusion of [[...]] links"}}. No other text.`;
+const DeduceResponseSchema = s.object({
+  conclusion: s.optional(
+    s.nullable(
+      s.object({
+        title: s.string({ nonEmpty: true }),
+        content: s.string({ nonEmpty: true }),
+      })
+    )
+  ),
+});
 
 /**
  * Build a reverse index: for each note title, list { path, relationship } of notes that link TO it with Evidence for / Supports / Requires.
@@ -59,6 +67,7 @@ async function buildReverseLinkIndex(
 
 /**
  * Run deductive step for one note: find premises that link to it, ask LLM for unspoken conclusion, write new note only if valid.
+ * Throws StructuredOutputError when the model's answer cannot be parsed after repair.
  */
 export async function runDeduceForNote(
   llm: LLMClient,
@@ -90,56 +99,55 @@ export async function runDeduceForNote(
     }
   }
 
-  const userPrompt = `Premises (these link to "${currentTitle}" with Evidence for / Supports):
-${premiseBodies.join("\n\n")}
-
-Current note ("${currentTitle}"):
-${body}
-
-Existing note titles in vault (do not create a note that restates or duplicates these): ${[...allInsightTitles].slice(0, 200).join(", ")}
-
-Given these linked premises, what is the unspoken conclusion? If the conclusion is already stated above or is a tautology, return {"conclusion": null}. Otherwise return {"conclusion": {"title": "Conclusion Title", "content": "markdown with Relationship:: Conclusion of [[Premise Note Title]] for each premise"}}.`;
+  // titles awaiting review or rejected count as taken, so the model does not suggest them again
+  const held = await titlesHeldForReview(vaultPath);
+  const userPrompt = await renderPrompt(vaultPath, "deduce.user", {
+    currentTitle,
+    premises: premiseBodies.join("\n\n"),
+    content: body,
+    existingTitles: [...held, ...allInsightTitles].slice(0, 200).join(", "),
+  });
 
-  const response = await llm.complete(
+  const parsedOut = await completeStructured(
+    llm,
     [
-      { role: "system", content: DEDUCE_SYSTEM_PROMPT },
+      { role: "system", content: await renderPrompt(vaultPath, "deduce.system") },
       { role: "user", content: userPrompt },
     ],
-    { maxTokens: 1024 }
+    DeduceResponseSchema,
+    { label: `deduce ${currentTitle}`, maxTokens: 1024 }
   );
-
-  const jsonMatch = response.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) return null;
-  let parsedOut: { conclusion?: { title: string; content: string } | null };
-  try {
-    parsedOut = JSON.parse(jsonMatch[0]) as {
-      conclusion?: { title: string; content: string } | null;
-    };
-  } catch {
-    return null;
-  }
   const conclusion = parsedOut.conclusion;
-  if (!conclusion || !conclusion.title || !conclusion.content?.trim()) return null;
+  if (!conclusion) return null;
 
   const newTitle = conclusion.title.replace(/[/\\?%*:|"<>]/g, "-").trim() || "Untitled";
-  if (allInsightTitles.has(newTitle)) return null;
+  if (allInsightTitles.has(newTitle) || isHeldTitle(held, newTitle)) return null;
 
   const content = stripMarkdownFences(conclusion.content.trim());
   const frontmatter: Record<string, unknown> = {
     type: "Conclusion",
     source: "deduce",
+    ...provenanceProperties(llm, await promptVersion(vaultPath, ["deduce.system", "deduce.user"])),
   };
   const output = matter.stringify(content, frontmatter, {
     delimiters: ["---", "---"],
   });
   const newRel = path.join(INSIGHTS_DIR, `${newTitle}.md`);
-  const fullPath = path.join(vaultPath, newRel);
-  await mkdir(path.dirname(fullPath), { recursive: true });
-  await writeFile(fullPath, output, "utf-8");
+  if (await holdsForReview(vaultPath, "Conclusion")) {
+    await proposeNote(vaultPath, {
+      noteType: "Conclusion",
+      path: newRel,
+      content: output,
+      premises: premiseTitles,
+      derivedFrom: currentTitle,
+    });
+    return null;
+  }
+  if (!(await writeNewNote(vaultPath, newRel, output))) return null;
   appendLog(`Deduce: ${newRel}`);
   const snippet = content.slice(0, 300);
   let emb: number[] | undefined;
-  const config = await loadAgentConfig(vaultPath);
+  const config = await loadStageConfig(vaultPath);
   if (config.useEmbeddings !== false) {
     const ec = getEmbeddingClient();
     if (ec) {
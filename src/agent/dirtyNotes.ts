@@ -0,0 +1,27 @@
+/**
+ * Notes created or modified during the current run. Incremental runs fan the downstream stages (connect,
+ * deduce, induce) out over these notes and their retrieval neighbours instead of the whole vault.
+ */
+import path from "path";
+import { vaultState } from "./vaultScope.js";
+
+const dirty = vaultState(() => new Set<string>());
+
+/** Record that a note (vault-relative path) was written in this run. */
+export function markNoteDirty(relativePath: string): void {
+  dirty().add(relativePath.split(path.sep).join("/"));
+}
+
+/** Forget a note that was deleted in this run. */
+export function unmarkNoteDirty(relativePath: string): void {
+  dirty().delete(relativePath.split(path.sep).join("/"));
+}
+
+/** Dirty notes, sorted by path. */
+export function getDirtyNotes(): string[] {
+  return [...dirty()].sort();
+}
+
+export function clearDirtyNotes(): void {
+  dirty().clear();
+}
@@ -0,0 +1,101 @@
+/**
+ * Persistent event log: every activity line, plus task timings and errors, appended as JSONL under
+ * .vaultmaker/logs of the current vault. Writes are batched and never fail the caller.
+ */
+import { getTaskContext } from "./taskContext.js";
+import { loadAgentConfig } from "../storage/agentConfig.js";
+import { appendEvents, pruneEventLogs, type EventLogEntry } from "../storage/eventLog.js";
+import { vaultState } from "./vaultScope.js";
+
+/** What a caller can add to an event; time and task context are filled in. */
+export type EventDetails = Partial<Omit<EventLogEntry, "ts" | "message">>;
+
+interface EventLogState {
+  vaultPath: string | null;
+  pending: EventLogEntry[];
+  writing: Promise<void>;
+  flushScheduled: boolean;
+  /** UTC day old log files were last pruned for. */
+  prunedDay: string | null;
+}
+
+const log = vaultState<EventLogState>(() => ({
+  vaultPath: null,
+  pending: [],
+  writing: Promise.resolve(),
+  flushScheduled: false,
+  prunedDay: null,
+}));
+
+/** Point the log at a vault (or none), writing out what is pending for the previous one first. */
+export async function setEventLogVault(vaultPath: string | null): Promise<void> {
+  const current = log();
+  if (current.vaultPath === vaultPath) return;
+  await flushEventLog();
+  current.vaultPath = vaultPath;
+  current.prunedDay = null;
+}
+
+export function recordEvent(message: string, details: EventDetails = {}): void {
+  const current = log();
+  if (!current.vaultPath) return;
+  const context = getTaskContext();
+  const entry: EventLogEntry = {
+    ts: new Date().toISOString(),
+    level: details.level ?? "info",
+    message,
+  };
+  const runId = details.runId ?? context?.runId;
+  const taskId = details.taskId ?? context?.taskId;
+  const stage = details.stage ?? context?.stage;
+  const taskKind = details.taskKind ?? context?.taskKind;
+  const target = details.target ?? context?.target;
+  if (runId) entry.runId = runId;
+  if (taskId) entry.taskId = taskId;
+  if (stage) entry.stage = stage;
+  if (taskKind) entry.taskKind = taskKind;
+  if (target) entry.target = target;
+  if (details.durationMs != null) entry.durationMs = details.durationMs;
+  if (details.error) entry.error = details.error;
+  current.pending.push(entry);
+  if (!current.flushScheduled) {
+    current.flushScheduled = true;
+    setImmediate(() => void flushEventLog());
+  }
+}
+
+/** Error details for an event. */
+export function eventError(err: unknown): { name: string; message: string } {
+  return err instanceof Error ? { name: err.name, message: err.message } : { name: "Error", message: String(err) };
+}
+
+async function writePending(
+  current: EventLogState,
+  vaultPath: string,
+  entries: EventLogEntry[]
+): Promise<void> {
+  try {
+    const today = new Date().toISOString().slice(0, 10);
+    if (current.prunedDay !== today) {
+      current.prunedDay = today;
+      const config = await loadAgentConfig(vaultPath);
+      await pruneEventLogs(vaultPath, config.logRetentionDays);
+    }
+    await appendEvents(vaultPath, entries);
+  } catch {
+    // the log is best-effort
+  }
+}
+
+/** Write pending events to disk now. */
+export async function flushEventLog(): Promise<void> {
+  const current = log();
+  current.flushScheduled = false;
+  const entries = current.pending;
+  current.pending = [];
+  const vaultPath = current.vaultPath;
+  if (vaultPath && entries.length > 0) {
+    current.writing = current.writing.then(() => writePending(current, vaultPath, entries));
+  }
+  await current.writing;
+}
@@ -1,12 +1,16 @@
-const listeners = new Set<() => void>();
+import { vaultState } from "./vaultScope.js";
+
+/** Subscribers to the current vault's agent updates. */
+const listeners = vaultState(() => new Set<() => void>());
 
 export function subscribeAgentUpdates(callback: () => void): () => void {
-  listeners.add(callback);
-  return () => listeners.delete(callback);
+  const subscribers = listeners();
+  subscribers.add(callback);
+  return () => subscribers.delete(callback);
 }
 
 export function notifyAgentUpdate(): void {
-  for (const fn of listeners) {
+  for (const fn of listeners()) {
     try {
       fn();
     } catch {
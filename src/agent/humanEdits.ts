@@ -0,0 +1,183 @@
+/**
+ * Protection of notes people edit. The agent records a hash of every note it writes (.vaultmaker/noteHashes.json);
+ * a note whose content no longer matches was edited outside the agent and is human-owned from then on. The
+ * agent leaves such notes alone or, with `humanEditPolicy: "append"`, only maintains a delimited agent section
+ * at their end. A note with `vaultmaker: locked` in its properties is never changed or deleted by the agent.
+ */
+import { readFile } from "fs/promises";
+import path from "path";
+import matter from "gray-matter";
+import { appendLog } from "./queue.js";
+import { parseRelationshipLinksFromContent } from "./prompts.js";
+import { createKeyedMutex } from "../lib/mutex.js";
+import { loadAgentConfig } from "../storage/agentConfig.js";
+import { contentHash } from "../storage/journal.js";
+import { loadNoteHashes, saveNoteHashes } from "../storage/noteHashes.js";
+
+export const AGENT_SECTION_START = "<!-- vaultmaker:agent -->";
+export const AGENT_SECTION_END = "<!-- /vaultmaker:agent -->";
+
+/** Serializes updates of a vault's hash records. */
+const hashLock = createKeyedMutex();
+
+/** "agent": the agent may rewrite it; "human": edited outside the agent; "locked": `vaultmaker: locked`. */
+export type NoteOwner = "agent" | "human" | "locked";
+
+function toRel(relativePath: string): string {
+  return relativePath.split(path.sep).join("/");
+}
+
+async function readOrNull(fullPath: string): Promise<string | null> {
+  try {
+    return await readFile(fullPath, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+export function isLockedNote(content: string): boolean {
+  try {
+    return (matter(content).data as Record<string, unknown>).vaultmaker === "locked";
+  } catch {
+    return false;
+  }
+}
+
+/** Notes the agent has no hash for (written before hashes were kept, or never by the agent) count as its own. */
+export async function noteOwner(vaultPath: string, relativePath: string, content: string): Promise<NoteOwner> {
+  if (isLockedNote(content)) return "locked";
+  const record = (await loadNoteHashes(vaultPath))[toRel(relativePath)];
+  if (record && (record.humanEdited || record.hash !== contentHash(content))) return "human";
+  return "agent";
+}
+
+/** Remember what the agent wrote to a note (null = deleted). A human-owned note stays human-owned. */
+export async function recordAgentWrite(
+  vaultPath: string,
+  relativePath: string,
+  content: string | null,
+  humanEdited = false
+): Promise<void> {
+  if (!relativePath.endsWith(".md")) return;
+  const rel = toRel(relativePath);
+  await hashLock.run(vaultPath, async () => {
+    const records = await loadNoteHashes(vaultPath);
+    if (content == null) delete records[rel];
+    else if (humanEdited || records[rel]?.humanEdited) records[rel] = { hash: contentHash(content), humanEdited: true };
+    else records[rel] = { hash: contentHash(content) };
+    await saveNoteHashes(vaultPath, records);
+  });
+}
+
+function withoutAgentSection(markdown: string): string {
+  const start = markdown.indexOf(AGENT_SECTION_START);
+  if (start === -1) return markdown;
+  const end = markdown.indexOf(AGENT_SECTION_END, start);
+  const rest = end === -1 ? "" : markdown.slice(end + AGENT_SECTION_END.length);
+  return (markdown.slice(0, start) + rest).trimEnd() + "\n";
+}
+
+const WIKI_LINK = /\[\[([^\]|#]+)[^\]]*\]\]/g;
+const LIST_MARKER = /^(?:[-*+]|\d+\.)\s+/;
+
+function linkTargets(text: string): string[] {
+  return [...text.matchAll(WIKI_LINK)].map((m) => m[1].trim());
+}
+
+/** The line as read, with links replaced by their text, to spot lines that only gained links. */
+function plainText(line: string): string {
+  return line
+    .replace(/\[\[([^\]|]+)(?:\|([^\]]+))?\]\]/g, (_, target: string, alias?: string) => alias ?? target)
+    .trim();
+}
+
+/**
+ * The note as people left it, with what the agent added in an agent section at the end: new relationship
+ * lines and bullets as they are, and the new links of any line it reworded (as `Relationship:: Type [[X]]`
+ * or `[[X]]`), so a human paragraph is never repeated. Properties and the rest of the note are kept as they are.
+ */
+export function appendAgentSection(current: string, proposed: string): string {
+  const human = withoutAgentSection(current);
+  const humanBody = matter(human).content.split("\n");
+  const humanLines = new Set(humanBody.map((line) => line.trim()));
+  const humanPlain = new Set(humanBody.map(plainText));
+  const linked = new Set(linkTargets(humanBody.join("\n")));
+  const added: string[] = [];
+  for (const line of matter(proposed).content.split("\n")) {
+    const key = line.trim();
+    if (!key || key === AGENT_SECTION_START || key === AGENT_SECTION_END || humanLines.has(key)) continue;
+    const newTargets = linkTargets(key).filter((target) => !linked.has(target));
+    if (newTargets.length === 0) continue;
+    const standalone = LIST_MARKER.test(key) || key.startsWith("Relationship::");
+    if (standalone && !humanPlain.has(plainText(key))) {
+      added.push(line.trimEnd());
+    } else {
+      const relationships = new Map(
+        parseRelationshipLinksFromContent(key).map((link) => [link.title, link.relationship])
+      );
+      for (const target of new Set(newTargets)) {
+        const relationship = relationships.get(target);
+        added.push(relationship ? `Relationship:: ${relationship} [[${target}]]` : `[[${target}]]`);
+      }
+    }
+    for (const target of newTargets) linked.add(target);
+  }
+  if (added.length === 0) return human;
+  return `${human.trimEnd()}\n\n${AGENT_SECTION_START}\n${added.join("\n")}\n${AGENT_SECTION_END}\n`;
+}
+
+/** Why the agent must not rewrite the note, or null if it may (perhaps only its agent section). */
+async function protectedReason(vaultPath: string, owner: NoteOwner): Promise<string | null> {
+  if (owner === "locked") return "locked";
+  if (owner === "human" && (await loadAgentConfig(vaultPath)).humanEditPolicy === "skip") {
+    return "edited outside the agent";
+  }
+  return null;
+}
+
+/**
+ * Check before asking the model to rewrite a note, so locked and skipped notes cost no call. Logs and
+ * returns false for those.
+ */
+export async function mayRewriteNote(vaultPath: string, relativePath: string, content: string): Promise<boolean> {
+  const reason = await protectedReason(vaultPath, await noteOwner(vaultPath, relativePath, content));
+  if (reason) appendLog(`Skipped ${toRel(relativePath)}: ${reason}`);
+  return !reason;
+}
+
+/**
+ * What the agent may write over an existing note instead of `proposed`: `proposed` itself for its own notes,
+ * the note with an updated agent section for human-owned ones, or null (logged) to leave the note alone.
+ * `staged` is what a dry run has already staged for the note; the agent section is merged into it.
+ */
+export async function guardNoteWrite(
+  vaultPath: string,
+  relativePath: string,
+  proposed: string,
+  staged?: string
+): Promise<{ content: string | null; humanEdited: boolean }> {
+  if (!relativePath.endsWith(".md")) return { content: proposed, humanEdited: false };
+  const current = await readOrNull(path.join(vaultPath, relativePath));
+  if (current == null) return { content: proposed, humanEdited: false };
+  const owner = await noteOwner(vaultPath, relativePath, current);
+  if (owner === "agent") return { content: proposed, humanEdited: false };
+  const reason = await protectedReason(vaultPath, owner);
+  if (reason) {
+    appendLog(`Skipped ${toRel(relativePath)}: ${reason}`);
+    return { content: null, humanEdited: owner === "human" };
+  }
+  const base = staged ?? current;
+  const merged = appendAgentSection(base, proposed);
+  return { content: merged === base ? null : merged, humanEdited: true };
+}
+
+/** False (logged) if the note is locked or edited outside the agent, so the agent must not delete it. */
+export async function mayDeleteNote(vaultPath: string, relativePath: string): Promise<boolean> {
+  if (!relativePath.endsWith(".md")) return true;
+  const current = await readOrNull(path.join(vaultPath, relativePath));
+  if (current == null) return true;
+  const owner = await noteOwner(vaultPath, relativePath, current);
+  if (owner === "agent") return true;
+  appendLog(`Kept ${toRel(relativePath)}: ${owner === "locked" ? "locked" : "edited outside the agent"}`);
+  return false;
+}
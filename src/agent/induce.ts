@@ -1,27 +1,34 @@
-import { writeFile, mkdir } from "fs/promises";
 import path from "path";
 import matter from "gray-matter";
 import type { LLMClient } from "../llm/client.js";
 import { appendLog } from "./queue.js";
 import { readNote, findPathByTitle } from "./link.js";
-import { RELATIONSHIP_TAXONOMY, stripMarkdownFences } from "./prompts.js";
-import { loadAgentConfig } from "../storage/agentConfig.js";
+import { stripMarkdownFences } from "./prompts.js";
+import { renderPrompt, promptVersion } from "./promptTemplates.js";
+import { provenanceProperties } from "./provenance.js";
+import { writeNewNote } from "./noteLock.js";
+import { holdsForReview, isHeldTitle, proposeNote, titlesHeldForReview } from "./proposals.js";
+import { loadStageConfig } from "./pipeline.js";
 import { indexNote } from "../retrieval/embeddingIndex.js";
 import { getEmbeddingClient } from "../retrieval/retrieve.js";
+import { completeStructured } from "../llm/structured.js";
+import * as s from "../llm/schema.js";
 
 const INSIGHTS_DIR = "Insights";
 
-const INDUCE_SYSTEM_PROMPT = `You are the inductive agent. Given a cluster of notes (one MOC), identify recurring patterns, themes, or general hypotheses. Create Meta-Notes (type: Theme) that link back to the supporting evidence.
-
-Rules:
-- Look for cross-pollination: patterns or hypotheses that span multiple notes in the cluster.
-- Create one note per distinct theme or pattern. Each note must link back to the supporting notes using "Relationship:: Evidence for [[Note Title]]" or "Relationship:: Supports [[Note Title]]".
-- Use exact note titles from the list provided. Do not invent titles.
-- If no clear theme or pattern emerges, return {"themes": []}.
-- Output only valid JSON: {"themes": [{"title": "Theme or Hypothesis Title", "content": "markdown with Relationship:: Evidence for [[Supporting Note]] links", "noteTitles": ["Exact Note 1", "Exact Note 2"]}]}. No other text.`;
+const InduceResponseSchema = s.object({
+  themes: s.array(
+    s.object({
+      title: s.string({ nonEmpty: true }),
+      content: s.string({ nonEmpty: true }),
+      noteTitles: s.optional(s.array(s.string())),
+    })
+  ),
+});
 
 /**
  * Run inductive step for one MOC: read note contents (and optionally MOC summary), ask LLM for themes/hypotheses, write new Theme notes.
+ * Throws StructuredOutputError when the model's answer cannot be parsed after repair.
  */
 export async function runInduceForMoc(
   llm: LLMClient,
@@ -54,57 +61,55 @@ export async function runInduceForMoc(
     ? `\nMOC Summary (big picture):\n${mocSummary}\n\n`
     : "";
 
-  const userPrompt = `MOC: ${mocTitle}
-Note titles in this cluster: ${noteList}
-${summaryBlock}Note contents:
-${bodies.join("\n\n")}
-
-Existing theme/note titles in vault (do not duplicate): ${[...existingTitles].slice(0, 100).join(", ")}
-
-Identify recurring patterns or hypotheses. For each, provide title, content (with Relationship:: Evidence for [[Exact Note Title]] for supporting notes), and noteTitles array. Allowed relationship types: ${RELATIONSHIP_TAXONOMY.join(", ")}.`;
+  // titles awaiting review or rejected count as taken, so the model does not suggest them again
+  const held = await titlesHeldForReview(vaultPath);
+  const userPrompt = await renderPrompt(vaultPath, "induce.user", {
+    mocTitle,
+    noteTitles: noteList,
+    mocSummary: summaryBlock,
+    noteContents: bodies.join("\n\n"),
+    existingTitles: [...held, ...existingTitles].slice(0, 100).join(", "),
+  });
 
-  const response = await llm.complete(
+  const { themes } = await completeStructured(
+    llm,
     [
-      { role: "system", content: INDUCE_SYSTEM_PROMPT },
+      { role: "system", content: await renderPrompt(vaultPath, "induce.system") },
       { role: "user", content: userPrompt },
     ],
-    { maxTokens: 2048 }
+    InduceResponseSchema,
+    { label: `induce ${mocTitle}`, maxTokens: 2048 }
   );
-
-  const jsonMatch = response.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) return [];
-  let parsed: { themes?: Array<{ title: string; content: string; noteTitles?: string[] }> };
-  try {
-    parsed = JSON.parse(jsonMatch[0]) as typeof parsed;
-  } catch {
-    return [];
-  }
-  const themes = Array.isArray(parsed.themes) ? parsed.themes : [];
   const created: string[] = [];
+  const version = await promptVersion(vaultPath, ["induce.system", "induce.user"]);
+  const review = await holdsForReview(vaultPath, "Theme");
 
   for (const theme of themes) {
-    if (!theme.title?.trim() || !theme.content?.trim()) continue;
     const safeTitle = theme.title.replace(/[/\\?%*:|"<>]/g, "-").trim() || "Untitled";
-    if (existingTitles.has(safeTitle)) continue;
+    if (existingTitles.has(safeTitle) || isHeldTitle(held, safeTitle)) continue;
 
     const frontmatter: Record<string, unknown> = {
       type: "Theme",
       source: "induce",
+      ...provenanceProperties(llm, version),
     };
     const output = matter.stringify(stripMarkdownFences(theme.content.trim()), frontmatter, {
       delimiters: ["---", "---"],
     });
     const newRel = path.join(INSIGHTS_DIR, `${safeTitle}.md`);
-    const fullPath = path.join(vaultPath, newRel);
-    await mkdir(path.dirname(fullPath), { recursive: true });
-    await writeFile(fullPath, output, "utf-8");
+    if (review) {
+      const premises = theme.noteTitles?.length ? theme.noteTitles : noteTitles;
+      await proposeNote(vaultPath, { noteType: "Theme", path: newRel, content: output, premises, derivedFrom: mocTitle });
+      continue;
+    }
+    if (!(await writeNewNote(vaultPath, newRel, output))) continue;
     created.push(newRel);
     existingTitles.add(safeTitle);
     appendLog(`Induce: ${newRel}`);
     const body = stripMarkdownFences(theme.content.trim());
     const snippet = body.slice(0, 300);
     let emb: number[] | undefined;
-    const config = await loadAgentConfig(vaultPath);
+    const config = await loadStageConfig(vaultPath);
     if (config.useEmbeddings !== false) {
       const ec = getEmbeddingClient();
       if (ec) {
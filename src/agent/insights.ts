@@ -1,34 +1,30 @@
-import { writeFile, mkdir } from "fs/promises";
+import { mkdir } from "fs/promises";
 import path from "path";
 import matter from "gray-matter";
 import type { LLMClient } from "../llm/client.js";
 import { appendLog } from "./queue.js";
+import { eventError } from "./eventLog.js";
 import { listMarkdownFiles, extractNoteTitlesFromVault } from "./link.js";
+import { stripMarkdownFences } from "./prompts.js";
+import { renderPrompt, promptVersion, type PromptId } from "./promptTemplates.js";
+import { provenanceProperties } from "./provenance.js";
+import { writeNewNote } from "./noteLock.js";
+import { writeVaultFile, readVaultNote } from "./vaultWrite.js";
+import { loadStageConfig } from "./pipeline.js";
+import { loadIndex, indexNote, type EmbeddingIndex } from "../retrieval/embeddingIndex.js";
 import {
-  SCIENTIFIC_REASONING_PRINCIPLES,
-  RELATIONSHIP_TAXONOMY,
-  stripMarkdownFences,
-} from "./prompts.js";
-import { loadAgentConfig } from "../storage/agentConfig.js";
-import { loadIndex, indexNote } from "../retrieval/embeddingIndex.js";
-import { getRelevantTitles, getEmbeddingClient, similarity } from "../retrieval/retrieve.js";
+  getRelevantTitles,
+  getEmbeddingClient,
+  similarity,
+  reindexNoteContent,
+} from "../retrieval/retrieve.js";
+import type { EmbeddingClient } from "../llm/embedding.js";
+import { completeStructured } from "../llm/structured.js";
+import { StructuredOutputError } from "../llm/errors.js";
+import * as s from "../llm/schema.js";
 
 const INSIGHTS_DIR = "Insights";
 
-const SYSTEM_PROMPT = `${SCIENTIFIC_REASONING_PRINCIPLES}
-
-You are building an Obsidian insight vault. Your job is to read source text and extract only the key insights, ideas, and concepts—not to copy or paraphrase the whole text.
-
-Rules:
-- Output only valid markdown. Use Obsidian wiki links: [[Note Title]] to connect related insights (use exact titles from "Existing insight notes" when linking).
-- For every link, use machine-readable relationship format: "Relationship:: <type> [[Note Title]]" on its own line or in a sentence. Allowed types: ${RELATIONSHIP_TAXONOMY.join(", ")}.
-- Create one note per distinct insight or idea. Each note should be concise and atomic. Titles should be clear, reusable claims.
-- Do not dump raw content. Extract and name the insight clearly. Link to other insights (from this source or existing notes) only when there is a nameable relationship.
-- When useful, include **Implication:** or **Depends on:** or **Assumptions:** (what would make this wrong) in the body.
-- **type** must be one of: Observation, Claim, Evidence, Method (or Conclusion, Theme when appropriate). Adapt to domain.
-- **confidence** must be a number between 0.0 and 1.0 (e.g. 0.9). Not high/medium/low.
-- **tags** (optional): array of single-word or hyphenated strings (no spaces). When in doubt, prefer fewer, sharper notes over many vague ones.`;
-
 export interface ExtractedInsight {
   title: string;
   content: string;
@@ -40,133 +36,383 @@ export interface ExtractedInsight {
   [key: string]: unknown;
 }
 
+const InsightSchema = s.object({
+  title: s.string({ nonEmpty: true }),
+  content: s.string({ nonEmpty: true }),
+  type: s.optional(s.string()),
+  confidence: s.optional(s.number({ min: 0, max: 1 })),
+  importance: s.optional(s.string()),
+  tags: s.optional(s.array(s.string())),
+});
+
+const InsightsResponseSchema = s.object({
+  insights: s.array(InsightSchema),
+});
+
+const ReextractResponseSchema = s.object({
+  unchanged: s.optional(s.array(s.string())),
+  updated: s.optional(s.array(InsightSchema)),
+  obsolete: s.optional(
+    s.array(
+      s.object({
+        title: s.string({ nonEmpty: true }),
+        replacedBy: s.optional(s.nullable(s.string())),
+      })
+    )
+  ),
+  insights: s.optional(s.array(InsightSchema)),
+});
+
+/** A note extracted from a source, as found in the vault. */
+export interface SourceNote {
+  rel: string;
+  content: string;
+}
+
+/** Everything writing a new insight needs besides the insight itself; `index` is reloaded after each write. */
+interface InsightWriter {
+  llm: LLMClient;
+  vaultPath: string;
+  sourceName: string;
+  sourceId: string;
+  promptVersion: string;
+  existingTitles: Set<string>;
+  index: EmbeddingIndex;
+  embeddingClient: EmbeddingClient | null;
+  useEmbeddings: boolean;
+  dedupThreshold: number;
+}
+
 const MAX_CHUNK = 12000;
 
 /**
  * Extract insight notes from a source text. Writes only insight .md files to the vault (under Insights/).
  * Uses bounded relevant titles per chunk and pre-write dedup (exact + optional similarity). Returns relative paths of created notes.
+ * A chunk whose output stays invalid after repair does not stop the others; the first such error is rethrown at the end.
+ * Each note records its provenance (model, prompt version, run, source id and chunk) in its properties.
  */
 export async function extractInsightsFromSource(
   llm: LLMClient,
   vaultPath: string,
   sourceText: string,
-  sourceName: string
+  sourceName: string,
+  sourceId: string
 ): Promise<string[]> {
-  await mkdir(vaultPath, { recursive: true });
-  const config = await loadAgentConfig(vaultPath);
+  const writer = await insightWriter(llm, vaultPath, sourceName, sourceId, ["insights.system", "insights.user"]);
+  const config = await loadStageConfig(vaultPath);
   const maxTitlesExtract = config.maxTitlesExtract ?? 80;
-  const dedupThreshold = config.dedupSimilarityThreshold ?? 0.92;
-  const useEmbeddings = config.useEmbeddings ?? true;
-
-  const allMd = await listMarkdownFiles(vaultPath);
-  const existingTitlesSet = new Set(extractNoteTitlesFromVault(allMd));
-  let index = await loadIndex(vaultPath);
-  const embeddingClient = getEmbeddingClient();
 
   const created: string[] = [];
+  const failures: StructuredOutputError[] = [];
   const chunks = chunkText(sourceText, MAX_CHUNK);
   for (let i = 0; i < chunks.length; i++) {
     const chunk = chunks[i];
     const chunkPreview = chunk.slice(0, 500);
     const relevantTitles = await getRelevantTitles(vaultPath, chunkPreview, {
       limit: maxTitlesExtract,
-      useEmbeddings,
+      useEmbeddings: writer.useEmbeddings,
     });
     const existingList = relevantTitles.length ? relevantTitles.map((t) => `- ${t}`).join("\n") : "(none yet)";
 
-    const userPrompt = `Source: ${sourceName}${chunks.length > 1 ? ` (part ${i + 1}/${chunks.length})` : ""}
-
-\`\`\`
-${chunk}
-\`\`\`
-
-Existing insight notes in the vault (use these exact titles in [[links]] when an insight relates):
-${existingList}
-
-Extract the key insights from this text. For each insight, provide:
-- \`title\`: short, clear claim
-- \`content\`: concise markdown body. For any link to another note use the format "Relationship:: <type> [[Exact Note Title]]" (e.g. "Relationship:: Evidence for [[Note Title]]"). Allowed relationship types: ${RELATIONSHIP_TAXONOMY.join(", ")}. Include **Assumptions:** when relevant (what would make this wrong).
-- \`type\`: one of Observation, Claim, Evidence, Method (or Conclusion, Theme when it is a conclusion or theme). Required.
-- \`confidence\`: number between 0.0 and 1.0 (e.g. 0.85). Required for Claim and Conclusion.
-- \`importance\` (optional): e.g. critical, high, medium, low
-- \`tags\` (optional): array of single-word or hyphenated strings (no spaces)
-
-Output only a JSON object, no other text:
-{"insights": [{"title": "Note Title", "content": "markdown with Relationship:: Type [[Links]]", "type": "Claim", "confidence": 0.9, "tags": ["strategy"]}]}`;
-
-    const raw = await llm.complete(
-      [
-        { role: "system", content: SYSTEM_PROMPT },
-        { role: "user", content: userPrompt },
-      ],
-      { maxTokens: 4096 }
-    );
-
-    const jsonMatch = raw.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      appendLog(`Insights: no JSON in response for ${sourceName}`);
+    const userPrompt = await renderPrompt(vaultPath, "insights.user", {
+      sourceName,
+      part: chunks.length > 1 ? ` (part ${i + 1}/${chunks.length})` : "",
+      chunk,
+      existingTitles: existingList,
+    });
+
+    let insights: ExtractedInsight[];
+    try {
+      const parsed = await completeStructured(
+        llm,
+        [
+          { role: "system", content: await renderPrompt(vaultPath, "insights.system") },
+          { role: "user", content: userPrompt },
+        ],
+        InsightsResponseSchema,
+        { label: `insights for ${sourceName} (part ${i + 1}/${chunks.length})`, maxTokens: 4096 }
+      );
+      insights = parsed.insights;
+    } catch (err) {
+      if (!(err instanceof StructuredOutputError)) throw err;
+      appendLog(`Insights: ${err.message}`, { level: "warn", error: eventError(err) });
+      failures.push(err);
       continue;
     }
-    let parsed: { insights?: ExtractedInsight[] };
+    for (const note of insights) {
+      const rel = await writeInsight(writer, note, i);
+      if (rel) created.push(rel);
+    }
+  }
+  if (failures.length > 0) throw failures[0];
+  return created;
+}
+
+/**
+ * Re-extract a changed source against the insights taken from its previous version. Per chunk, the model
+ * sorts the previous insights whose text that chunk covers best into unchanged, updated (body rewritten in place, properties kept)
+ * and obsolete (`source_status: superseded`, with `superseded_by` linking the replacement), and adds new ones.
+ * Previous insights the model does not mention are left as they are. Returns relative paths of created notes.
+ */
+export async function reextractInsightsFromSource(
+  llm: LLMClient,
+  vaultPath: string,
+  sourceText: string,
+  sourceName: string,
+  sourceId: string,
+  previous: SourceNote[]
+): Promise<string[]> {
+  const writer = await insightWriter(llm, vaultPath, sourceName, sourceId, ["insights.system", "reextract.user"]);
+  const config = await loadStageConfig(vaultPath);
+  const maxTitlesExtract = config.maxTitlesExtract ?? 80;
+
+  const created: string[] = [];
+  const failures: StructuredOutputError[] = [];
+  const chunks = chunkText(sourceText, MAX_CHUNK);
+  const chunkOf = assignToChunks(previous, chunks);
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    const mine = previous.filter((n) => chunkOf.get(n) === i);
+    const byTitle = new Map(mine.map((n) => [path.basename(n.rel, ".md"), n]));
+    const relevantTitles = await getRelevantTitles(vaultPath, chunk.slice(0, 500), {
+      limit: maxTitlesExtract,
+      useEmbeddings: writer.useEmbeddings,
+    });
+    const others = relevantTitles.filter((t) => !byTitle.has(t));
+    const previousList = mine.length
+      ? mine.map((n) => `### ${path.basename(n.rel, ".md")}\n${matter(n.content).content.trim()}`).join("\n\n")
+      : "(none)";
+
+    const userPrompt = await renderPrompt(vaultPath, "reextract.user", {
+      sourceName,
+      part: chunks.length > 1 ? ` (part ${i + 1}/${chunks.length})` : "",
+      chunk,
+      previousInsights: previousList,
+      existingTitles: others.length ? others.map((t) => `- ${t}`).join("\n") : "(none yet)",
+    });
+
+    let parsed: s.Infer<typeof ReextractResponseSchema>;
     try {
-      parsed = JSON.parse(jsonMatch[0]) as { insights?: ExtractedInsight[] };
-    } catch {
-      appendLog(`Insights: invalid JSON for ${sourceName}`);
+      parsed = await completeStructured(
+        llm,
+        [
+          { role: "system", content: await renderPrompt(vaultPath, "insights.system") },
+          { role: "user", content: userPrompt },
+        ],
+        ReextractResponseSchema,
+        { label: `re-extraction for ${sourceName} (part ${i + 1}/${chunks.length})`, maxTokens: 4096 }
+      );
+    } catch (err) {
+      if (!(err instanceof StructuredOutputError)) throw err;
+      appendLog(`Insights: ${err.message}`, { level: "warn", error: eventError(err) });
+      failures.push(err);
       continue;
     }
-    const insights = Array.isArray(parsed.insights) ? parsed.insights : [];
-    for (const note of insights) {
-      if (!note.title || !note.content?.trim()) continue;
-      const safeTitle = note.title.replace(/[/\\?%*:|"<>]/g, "-").trim() || "Untitled";
-
-      if (existingTitlesSet.has(safeTitle)) continue;
-
-      if (useEmbeddings && embeddingClient && index.entries.some((e) => e.embedding && e.embedding.length > 0)) {
-        try {
-          const toEmbed = `${note.title} ${note.content.trim().slice(0, 200)}`;
-          const newEmbedding = await embeddingClient.embed(toEmbed.slice(0, 8000));
-          let maxSim = 0;
-          for (const e of index.entries) {
-            if (e.embedding && e.embedding.length > 0) {
-              const s = similarity(newEmbedding, e.embedding);
-              if (s > maxSim) maxSim = s;
-            }
-          }
-          if (maxSim >= dedupThreshold) continue;
-        } catch {
-          // proceed to write on embed failure
-        }
+
+    for (const note of parsed.updated ?? []) {
+      const old = byTitle.get(safeNoteTitle(note.title));
+      if (!old) {
+        appendLog(
+          `Insights: ${sourceName} re-extraction updated unknown insight "${note.title}"; ignored`,
+          { level: "warn" }
+        );
+        continue;
+      }
+      const data = matter(old.content).data as Record<string, unknown>;
+      const createdAt =
+        data.created instanceof Date ? data.created.toISOString() : typeof data.created === "string" ? data.created : null;
+      const frontmatter = {
+        ...data,
+        ...buildObsidianProperties(
+          note,
+          sourceName,
+          provenanceProperties(llm, writer.promptVersion, { source: { sourceId, chunk: i }, created: createdAt })
+        ),
+      };
+      const output = matter.stringify(stripMarkdownFences(note.content.trim()), frontmatter, {
+        delimiters: ["---", "---"],
+      });
+      if (!(await writeVaultFile(vaultPath, old.rel, output))) continue;
+      appendLog(`Insight updated: ${old.rel}`);
+      await reindexNoteContent(vaultPath, old.rel, output);
+    }
+    for (const note of parsed.insights ?? []) {
+      const rel = await writeInsight(writer, note, i);
+      if (rel) created.push(rel);
+    }
+    // after the new insights, so a replacement written in this chunk can be linked
+    for (const { title, replacedBy } of parsed.obsolete ?? []) {
+      const old = byTitle.get(safeNoteTitle(title));
+      if (!old) {
+        appendLog(
+          `Insights: ${sourceName} re-extraction marked unknown insight "${title}" obsolete; ignored`,
+          { level: "warn" }
+        );
+        continue;
       }
+      const replacement = replacedBy ? safeNoteTitle(replacedBy) : null;
+      const properties: Record<string, unknown> = { source_status: "superseded" };
+      if (replacement && replacement !== safeNoteTitle(title) && writer.existingTitles.has(replacement)) {
+        properties.superseded_by = `[[${replacement}]]`;
+      }
+      const parsedOld = matter(old.content);
+      const output = matter.stringify(parsedOld.content, { ...parsedOld.data, ...properties }, {
+        delimiters: ["---", "---"],
+      });
+      if (!(await writeVaultFile(vaultPath, old.rel, output))) continue;
+      appendLog(`Insight superseded: ${old.rel}${properties.superseded_by ? ` → ${properties.superseded_by}` : ""}`);
+    }
+  }
+  if (failures.length > 0) throw failures[0];
+  return created;
+}
+
+async function insightWriter(
+  llm: LLMClient,
+  vaultPath: string,
+  sourceName: string,
+  sourceId: string,
+  promptIds: PromptId[]
+): Promise<InsightWriter> {
+  await mkdir(vaultPath, { recursive: true });
+  const config = await loadStageConfig(vaultPath);
+  const allMd = await listMarkdownFiles(vaultPath);
+  return {
+    llm,
+    vaultPath,
+    sourceName,
+    sourceId,
+    promptVersion: await promptVersion(vaultPath, promptIds),
+    existingTitles: new Set(extractNoteTitlesFromVault(allMd)),
+    index: await loadIndex(vaultPath),
+    embeddingClient: getEmbeddingClient(),
+    useEmbeddings: config.useEmbeddings ?? true,
+    dedupThreshold: config.dedupSimilarityThreshold ?? 0.92,
+  };
+}
 
-      const frontmatter = buildObsidianProperties(note, sourceName);
-      const body = stripMarkdownFences(note.content.trim());
-      const output = matter.stringify(body, frontmatter, { delimiters: ["---", "---"] });
-      const rel = path.join(INSIGHTS_DIR, `${safeTitle}.md`);
-      const full = path.join(vaultPath, rel);
-      await mkdir(path.dirname(full), { recursive: true });
-      await writeFile(full, output, "utf-8");
-      created.push(rel);
-      existingTitlesSet.add(safeTitle);
-      appendLog(`Insight: ${rel}`);
-
-      const bodySnippet = body.slice(0, 300);
-      let emb: number[] | undefined;
-      if (useEmbeddings && embeddingClient) {
-        try {
-          emb = await embeddingClient.embed(`${safeTitle} ${bodySnippet}`.slice(0, 8000));
-        } catch {
-          // index without embedding
+function safeNoteTitle(title: string): string {
+  return title.replace(/[/\\?%*:|"<>]/g, "-").trim() || "Untitled";
+}
+
+/**
+ * Write one new insight under Insights/ unless a note with its title exists or, with embeddings, a very
+ * similar note is already indexed. Returns the relative path, or null when skipped.
+ */
+async function writeInsight(w: InsightWriter, note: ExtractedInsight, chunk: number): Promise<string | null> {
+  const safeTitle = safeNoteTitle(note.title);
+
+  if (w.existingTitles.has(safeTitle)) return null;
+
+  if (w.useEmbeddings && w.embeddingClient && w.index.entries.some((e) => e.embedding && e.embedding.length > 0)) {
+    try {
+      const toEmbed = `${note.title} ${note.content.trim().slice(0, 200)}`;
+      const newEmbedding = await w.embeddingClient.embed(toEmbed.slice(0, 8000));
+      let maxSim = 0;
+      for (const e of w.index.entries) {
+        if (e.embedding && e.embedding.length > 0) {
+          const s = similarity(newEmbedding, e.embedding);
+          if (s > maxSim) maxSim = s;
         }
       }
-      await indexNote(vaultPath, safeTitle, rel, bodySnippet, emb);
-      index = await loadIndex(vaultPath);
+      if (maxSim >= w.dedupThreshold) return null;
+    } catch {
+      // proceed to write on embed failure
     }
   }
-  return created;
+
+  const frontmatter = buildObsidianProperties(
+    note,
+    w.sourceName,
+    provenanceProperties(w.llm, w.promptVersion, { source: { sourceId: w.sourceId, chunk } })
+  );
+  const body = stripMarkdownFences(note.content.trim());
+  const output = matter.stringify(body, frontmatter, { delimiters: ["---", "---"] });
+  const rel = path.join(INSIGHTS_DIR, `${safeTitle}.md`);
+  if (!(await writeNewNote(w.vaultPath, rel, output))) return null;
+  w.existingTitles.add(safeTitle);
+  appendLog(`Insight: ${rel}`);
+
+  const bodySnippet = body.slice(0, 300);
+  let emb: number[] | undefined;
+  if (w.useEmbeddings && w.embeddingClient) {
+    try {
+      emb = await w.embeddingClient.embed(`${safeTitle} ${bodySnippet}`.slice(0, 8000));
+    } catch {
+      // index without embedding
+    }
+  }
+  await indexNote(w.vaultPath, safeTitle, rel, bodySnippet, emb);
+  w.index = await loadIndex(w.vaultPath);
+  return rel;
+}
+
+/** The `chunk` property of an extracted note; 0 when missing. */
+function noteChunk(content: string): number {
+  const chunk = (matter(content).data as Record<string, unknown>).chunk;
+  return typeof chunk === "number" && chunk >= 0 ? chunk : 0;
+}
+
+function words(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter((w) => w.length > 3));
+}
+
+/**
+ * Pair each previous note with the new chunk that shares most of its words, since an edit early in the
+ * source shifts every chunk boundary after it. Ties (including no overlap at all) go to the stored chunk
+ * index, clamped to the new chunk count.
+ */
+function assignToChunks(previous: SourceNote[], chunks: string[]): Map<SourceNote, number> {
+  const chunkWords = chunks.map(words);
+  const assigned = new Map<SourceNote, number>();
+  for (const note of previous) {
+    const parsed = matter(note.content);
+    const noteWords = words(`${path.basename(note.rel, ".md")} ${parsed.content}`);
+    const stored = Math.min(noteChunk(note.content), chunks.length - 1);
+    let best = stored;
+    let bestScore = -1;
+    for (let i = 0; i < chunks.length; i++) {
+      let score = 0;
+      for (const w of noteWords) if (chunkWords[i].has(w)) score++;
+      if (score > bestScore || (score === bestScore && i === stored)) {
+        bestScore = score;
+        best = i;
+      }
+    }
+    assigned.set(note, best);
+  }
+  return assigned;
+}
+
+/** Notes whose `source_id` property is `sourceId`, with their content. */
+export async function notesFromSource(vaultPath: string, sourceId: string): Promise<SourceNote[]> {
+  const notes: SourceNote[] = [];
+  for (const rel of await listMarkdownFiles(vaultPath)) {
+    if (rel.startsWith(".vaultmaker/")) continue;
+    let content: string;
+    try {
+      content = await readVaultNote(vaultPath, rel);
+    } catch {
+      continue;
+    }
+    if ((matter(content).data as Record<string, unknown>).source_id === sourceId) notes.push({ rel, content });
+  }
+  return notes;
+}
+
+/** Notes from a source that still stand for it: not superseded, removed or archived. */
+export async function currentInsightsFromSource(vaultPath: string, sourceId: string): Promise<SourceNote[]> {
+  return (await notesFromSource(vaultPath, sourceId)).filter(
+    (n) => !n.rel.startsWith("Archive/") && (matter(n.content).data as Record<string, unknown>).source_status == null
+  );
 }
 
-/** Build Obsidian properties (flat YAML) from extracted insight. Only include non-empty values. */
-function buildObsidianProperties(note: ExtractedInsight, sourceName: string): Record<string, unknown> {
+/** Build Obsidian properties (flat YAML) from extracted insight. Only include non-empty values. Provenance goes last. */
+function buildObsidianProperties(
+  note: ExtractedInsight,
+  sourceName: string,
+  provenance: Record<string, unknown>
+): Record<string, unknown> {
   const props: Record<string, unknown> = {};
   if (note.type && String(note.type).trim()) props.type = String(note.type).trim();
   const conf = note.confidence;
@@ -183,7 +429,7 @@ function buildObsidianProperties(note: ExtractedInsight, sourceName: string): Re
         .map((t) => t.trim().replace(/\s+/g, "-"))
     : [];
   if (tagsFiltered.length > 0) props.tags = tagsFiltered;
-  return props;
+  return { ...props, ...provenance };
 }
 
 function chunkText(text: string, maxLen: number): string[] {
@@ -0,0 +1,200 @@
+/**
+ * Change journal: every vault write and delete the agent makes (outside dry runs) is recorded per run with
+ * the prior content, so one task's changes can be undone or the vault rolled back to before a run.
+ */
+import { readFile, writeFile, mkdir, unlink } from "fs/promises";
+import path from "path";
+import { AsyncLocalStorage } from "async_hooks";
+import { randomUUID } from "crypto";
+import { getTaskContext } from "./taskContext.js";
+import { withNoteLock } from "./noteLock.js";
+import { recordAgentWrite } from "./humanEdits.js";
+import { createKeyedMutex } from "../lib/mutex.js";
+import { reindexNoteContent } from "../retrieval/retrieve.js";
+import {
+  appendJournalEntry,
+  contentHash,
+  listJournalRuns,
+  loadBlob,
+  loadJournal,
+  pruneJournalBlobs,
+  pruneJournalRuns,
+  saveBlob,
+  saveJournal,
+  type JournalEntry,
+} from "../storage/journal.js";
+
+/** Run id of the action outside a run being journaled (see asManualAction), if any. */
+const manualAction = new AsyncLocalStorage<string>();
+
+/** Serializes appends and rewrites of a vault's journal, and pruning of its blobs. */
+const journalLock = createKeyedMutex();
+
+export interface RevertResult {
+  /** Paths restored to their earlier content. */
+  reverted: string[];
+  /** Paths edited since the agent wrote them; nothing is changed unless forced. */
+  conflicts: { path: string; error: string }[];
+  /** Sources whose extraction was undone, to be marked as not processed. */
+  sourceIds: string[];
+}
+
+/** A run id of its own for a change made outside a run, e.g. accepting a staged change. */
+function manualRunId(): string {
+  return `manual-${randomUUID().slice(0, 8)}`;
+}
+
+/**
+ * Run `fn`, an action outside a run such as accepting staged changes, so that everything it changes is
+ * journaled under one run id of its own and can be undone or rolled back without other manual changes.
+ */
+export function asManualAction<T>(fn: () => Promise<T>): Promise<T> {
+  if (getTaskContext() || manualAction.getStore()) return fn();
+  return manualAction.run(manualRunId(), fn);
+}
+
+function entryContext(): Pick<JournalEntry, "runId" | "taskId" | "stage" | "taskKind"> {
+  const context = getTaskContext();
+  return {
+    runId: context?.runId ?? manualAction.getStore() ?? manualRunId(),
+    taskId: context?.taskId ?? null,
+    stage: context?.stage ?? null,
+    taskKind: context?.taskKind ?? null,
+  };
+}
+
+async function readOrNull(fullPath: string): Promise<string | null> {
+  try {
+    return await readFile(fullPath, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/** Record a write (after != null) or delete of a vault file. */
+export async function journalFileChange(
+  vaultPath: string,
+  relativePath: string,
+  before: string | null,
+  after: string | null
+): Promise<void> {
+  const context = entryContext();
+  // the blob is saved under the lock too, so pruning cannot delete it before the entry refers to it
+  await journalLock.run(vaultPath, async () => {
+    const entry: JournalEntry = {
+      ts: new Date().toISOString(),
+      action: after == null ? "delete" : "write",
+      ...context,
+      path: relativePath.split(path.sep).join("/"),
+      beforeHash: before == null ? null : await saveBlob(vaultPath, before),
+      afterHash: after == null ? null : contentHash(after),
+    };
+    await appendJournalEntry(vaultPath, entry);
+  });
+}
+
+/** Drop all but the vault's `keepRuns` most recent journaled runs (0 = keep all) and the content only they kept. */
+export async function pruneJournal(vaultPath: string, keepRuns: number): Promise<void> {
+  await journalLock.run(vaultPath, () => pruneJournalRuns(vaultPath, keepRuns));
+}
+
+/** Record that a source was marked as processed. */
+export async function journalSourceProcessed(vaultPath: string, sourceId: string): Promise<void> {
+  const entry: JournalEntry = { ts: new Date().toISOString(), action: "processed", ...entryContext(), sourceId };
+  await journalLock.run(vaultPath, () => appendJournalEntry(vaultPath, entry));
+}
+
+/**
+ * Put every file touched by `entries` (oldest first) back to its content before the first of them. A file
+ * whose current content is not what the agent last wrote is a conflict; with conflicts nothing is changed
+ * unless `force` is set.
+ */
+async function revertEntries(vaultPath: string, entries: JournalEntry[], force: boolean): Promise<RevertResult> {
+  const byPath = new Map<string, { first: JournalEntry; last: JournalEntry }>();
+  for (const entry of entries) {
+    if (entry.action === "processed" || !entry.path) continue;
+    const seen = byPath.get(entry.path);
+    if (seen) seen.last = entry;
+    else byPath.set(entry.path, { first: entry, last: entry });
+  }
+  const conflicts: RevertResult["conflicts"] = [];
+  const restores: { path: string; content: string | null }[] = [];
+  for (const [rel, { first, last }] of byPath) {
+    const current = await readOrNull(path.join(vaultPath, rel));
+    if ((current == null ? null : contentHash(current)) !== last.afterHash) {
+      conflicts.push({ path: rel, error: "edited since the agent changed it" });
+    }
+    const content = first.beforeHash ? await loadBlob(vaultPath, first.beforeHash) : null;
+    if (first.beforeHash && content == null) {
+      conflicts.push({ path: rel, error: "prior content is missing from the journal" });
+      continue;
+    }
+    restores.push({ path: rel, content });
+  }
+  if (conflicts.length > 0 && !force) return { reverted: [], conflicts, sourceIds: [] };
+
+  const reverted: string[] = [];
+  for (const { path: rel, content } of restores) {
+    await withNoteLock(vaultPath, rel, async () => {
+      const full = path.join(vaultPath, rel);
+      if (content == null) {
+        await unlink(full).catch(() => {});
+      } else {
+        await mkdir(path.dirname(full), { recursive: true });
+        await writeFile(full, content, "utf-8");
+      }
+    });
+    await recordAgentWrite(vaultPath, rel, content);
+    if (rel.endsWith(".md")) await reindexNoteContent(vaultPath, rel, content);
+    reverted.push(rel);
+  }
+  const sourceIds = entries
+    .filter((e) => e.action === "processed" && e.sourceId)
+    .map((e) => e.sourceId as string);
+  return { reverted, conflicts, sourceIds: [...new Set(sourceIds)] };
+}
+
+/** Undo the changes of one task of a run. Returns null if the journal has nothing for that task. */
+export async function undoTaskChanges(
+  vaultPath: string,
+  runId: string,
+  taskId: string,
+  force = false
+): Promise<RevertResult | null> {
+  const entries = await loadJournal(vaultPath, runId);
+  const taskEntries = entries.filter((e) => e.taskId === taskId);
+  if (taskEntries.length === 0) return null;
+  const result = await revertEntries(vaultPath, taskEntries, force);
+  if (result.conflicts.length > 0 && !force) return result;
+  await journalLock.run(vaultPath, async () => {
+    const remaining = (await loadJournal(vaultPath, runId)).filter((e) => e.taskId !== taskId);
+    await saveJournal(vaultPath, runId, remaining);
+    await pruneJournalBlobs(vaultPath);
+  });
+  return result;
+}
+
+/**
+ * Roll the vault back to its state before a run: undo every change journaled from the start of that run on,
+ * including later runs. Returns null for an unknown run.
+ */
+export async function rollbackToRun(vaultPath: string, runId: string, force = false): Promise<RevertResult | null> {
+  const runs = await listJournalRuns(vaultPath);
+  const target = runs.find((r) => r.runId === runId);
+  if (!target) return null;
+  const cutoff = target.startedAt;
+  const journals = await Promise.all(runs.map(async (r) => ({ runId: r.runId, entries: await loadJournal(vaultPath, r.runId) })));
+  const undone = journals
+    .flatMap((j) => j.entries.filter((e) => e.ts >= cutoff))
+    .sort((a, b) => (a.ts < b.ts ? -1 : a.ts > b.ts ? 1 : 0));
+  const result = await revertEntries(vaultPath, undone, force);
+  if (result.conflicts.length > 0 && !force) return result;
+  await journalLock.run(vaultPath, async () => {
+    for (const j of journals) {
+      const kept = j.entries.filter((e) => e.ts < cutoff);
+      if (kept.length !== j.entries.length) await saveJournal(vaultPath, j.runId, kept);
+    }
+    await pruneJournalBlobs(vaultPath);
+  });
+  return result;
+}
@@ -1,23 +1,12 @@
-import { readFile, writeFile, readdir } from "fs/promises";
+import { readdir } from "fs/promises";
 import path from "path";
 import type { LLMClient } from "../llm/client.js";
 import { appendLog } from "./queue.js";
-import {
-  SCIENTIFIC_REASONING_PRINCIPLES,
-  RELATIONSHIP_TAXONOMY,
-  stripMarkdownFences,
-} from "./prompts.js";
-
-const SYSTEM_PROMPT = `${SCIENTIFIC_REASONING_PRINCIPLES}
-
-You are building an Obsidian vault. Your job is to add connections between notes using wiki links only when they are meaningful and the relationship is nameable.
-
-Rules:
-- Use only Obsidian wiki links: [[Note Title]] (exact note title as it appears in the list). Do not invent titles.
-- Only add a link when you can state the logical relationship in one short phrase. Use the machine-readable format: "Relationship:: <type> [[Note Title]]" (e.g. "Relationship:: Supports [[X]]", "Relationship:: Evidence for [[Y]]"). Allowed types: ${RELATIONSHIP_TAXONOMY.join(", ")}.
-- Place each link in a sentence that conveys the relationship, or on its own line as "Relationship:: Type [[Title]]".
-- If there are no meaningful, nameable connections to other notes in the list, output the exact same markdown unchanged. It is fine to add zero links when nothing fits.
-- Output only the complete markdown (either with new Relationship:: Type [[links]] or unchanged).`;
+import { stripMarkdownFences } from "./prompts.js";
+import { renderPrompt } from "./promptTemplates.js";
+import { touchUpdated } from "./provenance.js";
+import { writeVaultFile, readVaultNote, withStagedNotes } from "./vaultWrite.js";
+import { mayRewriteNote } from "./humanEdits.js";
 
 export async function addLinksToNote(
   llm: LLMClient,
@@ -27,21 +16,17 @@ export async function addLinksToNote(
   otherNoteTitles: string[]
 ): Promise<string | null> {
   if (otherNoteTitles.length === 0) return null;
+  if (!(await mayRewriteNote(vaultPath, relativePath, content))) return null;
 
-  const userPrompt = `Note to update (file: ${relativePath}):
-
-\`\`\`markdown
-${content}
-\`\`\`
-
-Other notes in the vault (use these exact titles in [[links]] only when there is a real conceptual connection):
-${otherNoteTitles.map((t) => `- ${t}`).join("\n")}
-
-If any of these notes genuinely relate to this note's ideas, add links using the format "Relationship:: <type> [[Note Title]]" (e.g. "Relationship:: Evidence for [[X]]" or "Relationship:: Contradicts [[Y]]"). Allowed relationship types: ${RELATIONSHIP_TAXONOMY.join(", ")}. Only add a link when you can name the relationship. If none do, return the exact same markdown unchanged. Output only the markdown, no explanation.`;
+  const userPrompt = await renderPrompt(vaultPath, "link.user", {
+    notePath: relativePath,
+    content,
+    otherTitles: otherNoteTitles.map((t) => `- ${t}`).join("\n"),
+  });
 
   const updated = await llm.complete(
     [
-      { role: "system", content: SYSTEM_PROMPT },
+      { role: "system", content: await renderPrompt(vaultPath, "link.system") },
       { role: "user", content: userPrompt },
     ],
     { maxTokens: 4096 }
@@ -50,8 +35,7 @@ If any of these notes genuinely relate to this note's ideas, add links using the
   const trimmed = stripMarkdownFences(updated.trim());
   if (!trimmed || trimmed === content) return null;
 
-  const fullPath = path.join(vaultPath, relativePath);
-  await writeFile(fullPath, trimmed, "utf-8");
+  if (!(await writeVaultFile(vaultPath, relativePath, touchUpdated(trimmed)))) return null;
   appendLog(`Linked: ${relativePath}`);
   return trimmed;
 }
@@ -76,6 +60,8 @@ export async function listMarkdownFiles(vaultPath: string, dir: string = ""): Pr
     return [];
   }
   const out: string[] = [];
+  // readdir order depends on the filesystem; sort so task order (and vault output) is reproducible
+  entries.sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0));
 
   for (const e of entries) {
     const rel = normalizeRel(dir ? `${dir}/${e.name}` : e.name);
@@ -86,12 +72,13 @@ export async function listMarkdownFiles(vaultPath: string, dir: string = ""): Pr
       out.push(rel);
     }
   }
-  return out;
+  // in a dry run the vault as a whole is listed as the run has staged it
+  return dir ? out : withStagedNotes(vaultPath, out);
 }
 
+/** A note's content; in a dry run, as the run has staged it. */
 export async function readNote(vaultPath: string, relativePath: string): Promise<string> {
-  const full = path.join(vaultPath, relativePath);
-  return readFile(full, "utf-8");
+  return readVaultNote(vaultPath, relativePath);
 }
 
 /** Find the first .md file in the vault whose basename (without .md) equals the given title. */
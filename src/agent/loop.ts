@@ -1,6 +1,8 @@
 import path from "path";
+import matter from "gray-matter";
+import { randomUUID } from "crypto";
 import type { LLMClient } from "../llm/client.js";
-import type { AgentState, QueuedTask, Stage } from "./types.js";
+import type { AgentState, QueuedTask, Stage, TaskKind } from "./types.js";
 import { STAGES } from "./types.js";
 import {
   dequeueForStage,
@@ -10,7 +12,16 @@ import {
   getLog,
   enqueue,
   enqueueMany,
+  enqueueFront,
   clearQueue,
+  addFailedTask,
+  getFailedTasks,
+  takeFailedTask,
+  restoreFailedTasks,
+  hasTaskForStage,
+  removeTask,
+  moveTaskToFront,
+  setTaskPriority,
 } from "./queue.js";
 import { notifyAgentUpdate } from "./events.js";
 import { loadProgress, saveProgress, restoreFromProgress } from "../storage/progress.js";
@@ -21,69 +32,140 @@ import {
   listMarkdownFiles,
   extractNoteTitlesFromVault,
 } from "./link.js";
-import { extractInsightsFromSource, getExistingInsightTitles } from "./insights.js";
-import { loadAgentConfig } from "../storage/agentConfig.js";
+import {
+  extractInsightsFromSource,
+  reextractInsightsFromSource,
+  currentInsightsFromSource,
+  getExistingInsightTitles,
+} from "./insights.js";
+import { loadAgentConfig, type StageOptions } from "../storage/agentConfig.js";
 import { getRelevantTitles } from "../retrieval/retrieve.js";
 import { getEmbeddingClient } from "../retrieval/retrieve.js";
-import { indexNote } from "../retrieval/embeddingIndex.js";
+import { indexNote, loadIndex, discardDryRunIndex } from "../retrieval/embeddingIndex.js";
 import { runOrganizeVault, getMocList } from "./organize.js";
 import { runDeduceForNote } from "./deduce.js";
 import { runInduceForMoc } from "./induce.js";
 import { runValidation } from "./validate.js";
+import { atomizeNote, isAtomizeCandidate } from "./split.js";
 import { loadSource } from "../storage/sources.js";
+import { runInTaskContext } from "./taskContext.js";
+import { loadPromptOverrides } from "./promptTemplates.js";
+import { BudgetExceededError, CircuitOpenError, LLMAbortedError } from "../llm/errors.js";
+import { sleep } from "../lib/sleep.js";
+import { beginUsageRun, resumeUsageRun, endUsageRun, flushUsage } from "../llm/usage.js";
+import { createKeyedMutex } from "../lib/mutex.js";
+import { withNoteLock } from "./noteLock.js";
+import { journalSourceProcessed, undoTaskChanges, rollbackToRun, pruneJournal, type RevertResult } from "./journal.js";
+import { getDirtyNotes, clearDirtyNotes } from "./dirtyNotes.js";
+import { loadStageConfig, resolvePipeline, type Pipeline } from "./pipeline.js";
+import { recordEvent, eventError, flushEventLog, setEventLogVault, type EventDetails } from "./eventLog.js";
+import { vaultState } from "./vaultScope.js";
+import { acquireAgentSlot, getAgentSlots } from "./agentSlots.js";
 
-let state: AgentState = {
-  status: "idle",
-  currentTask: null,
-  currentStage: null,
-  log: [],
-  vaultPath: null,
-  vaultName: null,
-  sourceDir: null,
-};
+/** One vault's agent: its state and the controls of its current or paused run. */
+interface AgentInstance {
+  state: AgentState;
+  stopRequested: boolean;
+  pauseRequested: boolean;
+  /** Run id of a paused run, so resuming continues its usage totals and provenance. */
+  pausedRunId: string | null;
+  llm: LLMClient | null;
+  /** Clients for stages or task kinds routed to a different model; others use `llm`. */
+  routedLLMs: Partial<Record<Stage | TaskKind, LLMClient>>;
+  /** Aborted by requestStop so in-flight LLM calls end immediately instead of after the task. */
+  runAbort: AbortController | null;
+  /** The pipeline of the current or paused run, with its per-step options. */
+  activePipeline: Pipeline | null;
+  /** Whether the current or paused run fans out over the whole vault rather than the dirty notes. */
+  fullRebuild: boolean;
+  /** Whether the current or paused run stages its vault writes for review instead of writing them. */
+  dryRun: boolean;
+  /** In-flight tasks with their own abort controllers, so one can be skipped without stopping the run. */
+  runningTasks: Map<QueuedTask, AbortController>;
+  skippedTasks: WeakSet<QueuedTask>;
+}
 
-let stopRequested = false;
-let llm: LLMClient | null = null;
+/** The current vault's agent (see vaultScope.ts). */
+const instance = vaultState<AgentInstance>(() => ({
+  state: {
+    status: "idle",
+    currentTask: null,
+    currentStage: null,
+    pipeline: null,
+    currentStep: null,
+    log: [],
+    vaultPath: null,
+    vaultName: null,
+    sourceDir: null,
+  },
+  stopRequested: false,
+  pauseRequested: false,
+  pausedRunId: null,
+  llm: null,
+  routedLLMs: {},
+  runAbort: null,
+  activePipeline: null,
+  fullRebuild: false,
+  dryRun: false,
+  runningTasks: new Map(),
+  skippedTasks: new WeakSet(),
+}));
 
 export function getAgentState(): AgentState {
+  const agent = instance();
   return {
-    ...state,
+    ...agent.state,
     log: getLog(),
   };
 }
 
 export async function setAgentVault(vaultPath: string | null, vaultName: string | null): Promise<void> {
-  state.vaultPath = vaultPath;
-  state.vaultName = vaultName;
+  const agent = instance();
+  if (agent.state.status === "paused") {
+    if (vaultPath === agent.state.vaultPath) {
+      // keep the paused run's pipeline and step
+      agent.state.vaultName = vaultName;
+      return;
+    }
+    if (agent.pausedRunId) discardDryRunIndex(agent.pausedRunId);
+    agent.pausedRunId = null;
+    setStatus("idle", null);
+  }
+  await setEventLogVault(vaultPath);
+  agent.state.vaultPath = vaultPath;
+  agent.state.vaultName = vaultName;
   if (vaultPath) {
     const result = await restoreFromProgress(vaultPath, getQueueLength());
     const progress = await loadProgress(vaultPath);
     if (result.restored && result.queueLength > 0) {
-      state.currentStage = result.currentStage ?? STAGES[0];
+      setStage(result.currentStage ?? STAGES[0]);
       appendLog(`Progress restored: ${result.queueLength} task(s) in queue, ${result.processedCount} source(s) already analyzed.`);
     } else if (progress) {
-      state.currentStage = progress.currentStage ?? STAGES[0];
+      setStage(progress.currentStage ?? STAGES[0]);
     } else {
-      state.currentStage = STAGES[0];
+      setStage(STAGES[0]);
     }
   } else {
-    state.currentStage = null;
-    state.sourceDir = null;
+    setStage(null);
+    agent.state.sourceDir = null;
+    restoreFailedTasks([]);
   }
 }
 
 export function setSourceDir(sourceDir: string | null): void {
-  state.sourceDir = sourceDir;
+  const agent = instance();
+  agent.state.sourceDir = sourceDir;
 }
 
 export function getSourceDir(): string | null {
-  return state.sourceDir;
+  const agent = instance();
+  return agent.state.sourceDir;
 }
 
 /** Clear the task queue and set stage to extract. Call when vault or source folder changes so the next import populates the queue fresh. */
 export function resetQueueForNewSource(): void {
   clearQueue();
-  state.currentStage = "extract";
+  setStage("extract");
   notifyAgentUpdate();
 }
 
@@ -92,64 +174,195 @@ export function resetQueueForNewSource(): void {
  * Use when the user wants to "start a new vault" (re-run from scratch). UI will show "Create vault to start agent" until they create a vault again.
  */
 export async function resetVaultToNew(vaultPath: string): Promise<void> {
+  const agent = instance();
   clearQueue();
+  restoreFailedTasks([]);
   await saveProgress(vaultPath, {
     processedSourceIds: [],
     queue: [],
     currentStage: null,
   });
   await clearSourceIndex(vaultPath);
-  state.vaultPath = null;
-  state.vaultName = null;
-  state.sourceDir = null;
-  state.currentStage = null;
+  agent.state.vaultPath = null;
+  agent.state.vaultName = null;
+  agent.state.sourceDir = null;
+  setStage(null);
   appendLog("Vault reset. Create vault to start agent.");
   notifyAgentUpdate();
 }
 
-export function setLLM(client: LLMClient): void {
-  llm = client;
+export function setLLM(
+  client: LLMClient | null,
+  routes: Partial<Record<Stage | TaskKind, LLMClient>> = {}
+): void {
+  const agent = instance();
+  agent.llm = client;
+  agent.routedLLMs = client ? routes : {};
+}
+
+/** Client for a task: its task-kind route, else its stage route, else the default client. */
+function clientFor(task: QueuedTask, fallback: LLMClient): LLMClient {
+  const agent = instance();
+  return agent.routedLLMs[task.kind] ?? agent.routedLLMs[task.stage] ?? fallback;
 }
 
 export function isLLMConfigured(): boolean {
-  return llm != null;
+  const agent = instance();
+  return agent.llm != null;
 }
 
 export function requestStop(): void {
-  stopRequested = true;
-  if (state.status === "processing") {
-    setStatus("stopping", "Stopping after current task…");
+  const agent = instance();
+  agent.stopRequested = true;
+  agent.runAbort?.abort();
+  if (agent.state.status === "processing") {
+    setStatus("stopping", "Stopping…");
+  } else if (agent.state.status === "paused") {
+    if (agent.pausedRunId) discardDryRunIndex(agent.pausedRunId);
+    agent.pausedRunId = null;
+    setStage(null);
+    setStatus("idle", null);
+    appendLog("Stopped by user.");
+    if (agent.state.vaultPath) void persistProgress(agent.state.vaultPath);
   }
 }
 
+/**
+ * Pause the run: in-flight LLM calls are cancelled and their tasks go back to the head of the queue. The
+ * current stage is kept, so resumeLoop continues from there. Returns false if the agent is not running.
+ */
+export function requestPause(): boolean {
+  const agent = instance();
+  if (agent.state.status !== "processing") return false;
+  agent.pauseRequested = true;
+  agent.runAbort?.abort();
+  setStatus("stopping", "Pausing…");
+  return true;
+}
+
+/**
+ * Cancel in-flight tasks (all of them, or the one with `taskId`) and drop them; the run moves on to the
+ * next task. Returns false if no matching task is running.
+ */
+export function skipCurrentTask(taskId?: string): boolean {
+  const agent = instance();
+  let skipped = false;
+  for (const [task, controller] of agent.runningTasks) {
+    if (taskId && task.id !== taskId) continue;
+    agent.skippedTasks.add(task);
+    controller.abort();
+    skipped = true;
+  }
+  return skipped;
+}
+
+/** True when there is a stage to continue from: after a pause, or after progress was restored. */
+export function canResume(): boolean {
+  const agent = instance();
+  return (agent.state.status === "paused" || agent.state.status === "idle") && agent.state.currentStage != null;
+}
+
+/** Set the stage outside of a pipeline run (restored progress, reset, stop). */
+function setStage(stage: Stage | null): void {
+  const agent = instance();
+  agent.activePipeline = null;
+  agent.state.pipeline = null;
+  agent.state.currentStep = null;
+  agent.state.currentStage = stage;
+}
+
+/** Move a run to step `step` of `pipeline`. */
+function setStep(pipeline: Pipeline, step: number): void {
+  const agent = instance();
+  agent.activePipeline = pipeline;
+  agent.state.pipeline = { name: pipeline.name, stages: pipeline.steps.map((s) => s.stage) };
+  agent.state.currentStep = step;
+  agent.state.currentStage = pipeline.steps[step].stage;
+}
+
 function setStatus(status: AgentState["status"], currentTask: string | null): void {
-  state.status = status;
-  state.currentTask = currentTask;
+  const agent = instance();
+  agent.state.status = status;
+  agent.state.currentTask = currentTask;
   notifyAgentUpdate();
 }
 
-async function enqueueWorkForStage(stage: Stage, vaultPath: string): Promise<void> {
-  if (stage === "organize") {
-    enqueue({ kind: "organize-vault", stage: "organize" });
-  } else if (stage === "connect") {
-    const files = await listMarkdownFiles(vaultPath);
-    const tasks: QueuedTask[] = files.map((rel) => ({ kind: "link", stage: "connect", path: rel }));
-    enqueueMany(tasks);
-  } else if (stage === "deduce") {
-    const files = await listMarkdownFiles(vaultPath);
+/**
+ * The given notes plus, for each, the `neighbours` most relevant notes by retrieval, so older notes get a
+ * chance to link to new ones. Only notes that still exist are returned, in listMarkdownFiles order.
+ */
+async function withRetrievalNeighbours(
+  vaultPath: string,
+  notes: string[],
+  neighbours: number,
+  useEmbeddings: boolean
+): Promise<string[]> {
+  const affected = new Set(notes);
+  if (neighbours > 0) {
+    const index = await loadIndex(vaultPath);
+    const pathByTitle = new Map(index.entries.map((e) => [e.title, e.path.split(path.sep).join("/")]));
+    for (const rel of notes) {
+      let body: string;
+      try {
+        body = (matter(await readNote(vaultPath, rel)).content ?? "").trim();
+      } catch {
+        continue;
+      }
+      const query = `${path.basename(rel, ".md")} ${body.slice(0, 500)}`;
+      const titles = await getRelevantTitles(vaultPath, query, { limit: neighbours + 1, useEmbeddings });
+      for (const title of titles) {
+        const neighbour = pathByTitle.get(title);
+        if (neighbour) affected.add(neighbour);
+      }
+    }
+  }
+  const files = await listMarkdownFiles(vaultPath);
+  return files.filter((f) => affected.has(f));
+}
+
+/**
+ * How each stage fans out into tasks when a pipeline reaches it. `changed` is the run's dirty notes in
+ * incremental runs, or null for a full rebuild over the whole vault.
+ */
+const STAGE_WORK: Record<Stage, (vaultPath: string, changed: string[] | null) => Promise<QueuedTask[]>> = {
+  // extract tasks are queued as sources are imported
+  extract: async () => [],
+  atomize: async (vaultPath, changed) => {
+    const files = changed ?? (await listMarkdownFiles(vaultPath));
+    const { atomizeMaxChars } = await loadAgentConfig(vaultPath);
+    const candidates: string[] = [];
+    for (const rel of files) {
+      try {
+        if (isAtomizeCandidate(rel, await readNote(vaultPath, rel), atomizeMaxChars)) candidates.push(rel);
+      } catch {
+        // deleted since
+      }
+    }
+    return candidates.map((rel) => ({ kind: "split", stage: "atomize", path: rel }));
+  },
+  organize: async () => [{ kind: "organize-vault", stage: "organize" }],
+  connect: async (vaultPath, changed) => {
+    let files: string[];
+    if (changed) {
+      const config = await loadAgentConfig(vaultPath);
+      files = await withRetrievalNeighbours(vaultPath, changed, config.incrementalNeighbors, config.useEmbeddings);
+    } else {
+      files = await listMarkdownFiles(vaultPath);
+    }
+    return files.map((rel) => ({ kind: "link", stage: "connect", path: rel }));
+  },
+  deduce: async (vaultPath, changed) => {
+    const files = changed ?? (await listMarkdownFiles(vaultPath));
     const mocPrefix = "MOCs/";
-    const insightFiles = files.filter(
-      (f) => !f.startsWith(mocPrefix) && f.endsWith(".md")
+    const insightFiles = files.filter((f) => !f.startsWith(mocPrefix) && f.endsWith(".md"));
+    return insightFiles.map((relPath) => ({ kind: "deduce", stage: "deduce", path: relPath }));
+  },
+  induce: async (vaultPath, changed) => {
+    const changedTitles = changed ? new Set(changed.map((rel) => path.basename(rel, ".md"))) : null;
+    const mocList = (await getMocList(vaultPath)).filter(
+      (m) => !changedTitles || m.noteTitles.some((t) => changedTitles.has(t))
     );
-    const tasks: QueuedTask[] = insightFiles.map((relPath) => ({
-      kind: "deduce",
-      stage: "deduce",
-      path: relPath,
-    }));
-    enqueueMany(tasks);
-  } else if (stage === "induce") {
-    const mocList = await getMocList(vaultPath);
-    const tasks: QueuedTask[] = mocList.map((m) => ({
+    return mocList.map((m) => ({
       kind: "induce",
       stage: "induce",
       payload: {
@@ -159,215 +372,603 @@ async function enqueueWorkForStage(stage: Stage, vaultPath: string): Promise<voi
         mocSummary: m.mocSummary,
       },
     }));
-    enqueueMany(tasks);
-  } else if (stage === "organize-again") {
-    enqueue({ kind: "organize-moc", stage: "organize-again" });
-  } else if (stage === "validate") {
-    enqueue({ kind: "validate", stage: "validate" });
+  },
+  "organize-again": async () => [{ kind: "organize-moc", stage: "organize-again" }],
+  validate: async () => [{ kind: "validate", stage: "validate" }],
+};
+
+/** Stages whose work follows the dirty set in incremental runs. */
+const INCREMENTAL_STAGES = new Set<Stage>(["atomize", "connect", "deduce", "induce"]);
+
+async function enqueueWorkForStage(stage: Stage, vaultPath: string, runId: string): Promise<void> {
+  const agent = instance();
+  const changed = agent.fullRebuild ? null : getDirtyNotes();
+  // in the run's context, so a dry run fans out over the notes it has staged
+  const tasks = await runInTaskContext(
+    { runId, stage, taskKind: null, target: null, dryRun: agent.dryRun },
+    () => STAGE_WORK[stage](vaultPath, changed)
+  );
+  if (changed && INCREMENTAL_STAGES.has(stage)) {
+    appendLog(`Incremental ${stage}: ${tasks.length} task(s) for ${changed.length} changed note(s).`);
   }
+  if (tasks.length > 0) enqueueMany(tasks);
 }
 
-async function persistProgress(vaultPath: string, completedSourceId?: string): Promise<void> {
-  try {
-    const loaded = await loadProgress(vaultPath);
-    const processedSourceIds = [...(loaded?.processedSourceIds ?? [])];
-    if (completedSourceId) processedSourceIds.push(completedSourceId);
-    await saveProgress(vaultPath, {
-      processedSourceIds,
-      currentStage: state.currentStage,
-      queue: getQueueSnapshot(),
-    });
-    notifyAgentUpdate();
-  } catch {
-    // non-fatal
+/** Serializes progress.json read-modify-writes between parallel tasks. */
+const progressLock = createKeyedMutex();
+
+async function persistProgress(
+  vaultPath: string,
+  completed?: { sourceId: string; version: number },
+  unprocessedSourceIds: string[] = []
+): Promise<void> {
+  const agent = instance();
+  await progressLock.run(vaultPath, async () => {
+    try {
+      const loaded = await loadProgress(vaultPath);
+      const processedSourceIds = (loaded?.processedSourceIds ?? []).filter((id) => !unprocessedSourceIds.includes(id));
+      const sourceVersions = { ...(loaded?.sourceVersions ?? {}) };
+      for (const id of unprocessedSourceIds) delete sourceVersions[id];
+      if (completed) {
+        if (!processedSourceIds.includes(completed.sourceId)) processedSourceIds.push(completed.sourceId);
+        sourceVersions[completed.sourceId] = completed.version;
+      }
+      await saveProgress(vaultPath, {
+        processedSourceIds,
+        sourceVersions,
+        currentStage: agent.state.currentStage,
+        queue: getQueueSnapshot(),
+        failedTasks: getFailedTasks(),
+      });
+      notifyAgentUpdate();
+    } catch {
+      // non-fatal
+    }
+  });
+}
+
+/** Source id, note path or MOC title a task works on; used to attribute usage. */
+function taskTarget(task: QueuedTask): string | null {
+  return task.payload?.sourceId ?? task.path ?? task.payload?.mocTitle ?? null;
+}
+
+/** Phrase for "Error <label>: …" and "Skipped <label>" log lines. */
+function taskErrorLabel(task: QueuedTask): string {
+  switch (task.kind) {
+    case "extract-insights":
+      return `extracting insights from ${task.payload?.sourceId}`;
+    case "split":
+      return `splitting ${task.path}`;
+    case "organize-vault":
+      return "organizing vault";
+    case "organize-moc":
+      return "building MOCs";
+    case "link":
+      return `linking ${task.path}`;
+    case "deduce":
+      return `deduce ${task.path}`;
+    case "induce":
+      return `induce ${task.payload?.mocTitle}`;
+    case "validate":
+      return "validation";
   }
 }
 
-export async function runLoop(): Promise<void> {
-  if (state.vaultPath == null) {
+/** Add relationship links to one note and re-index it. Runs under the note's lock. */
+async function linkNote(llm: LLMClient, vaultPath: string, notePath: string): Promise<void> {
+  const content = await readNote(vaultPath, notePath);
+  const config = await loadStageConfig(vaultPath);
+  const maxTitlesLink = config.maxTitlesLink ?? 50;
+  const useEmbeddings = config.useEmbeddings ?? true;
+  const relevantTitles = await getRelevantTitles(vaultPath, content, {
+    limit: maxTitlesLink,
+    useEmbeddings,
+  });
+  const currentTitle = path.basename(notePath, ".md");
+  const others = relevantTitles.filter((t) => t !== currentTitle);
+  if (others.length > 0) {
+    await addLinksToNote(llm, vaultPath, notePath, content, others);
+    const updatedContent = await readNote(vaultPath, notePath);
+    // index the body: properties (provenance, timestamps) would crowd out the note's text
+    const snippet = (matter(updatedContent).content ?? "").trim().slice(0, 300);
+    let emb: number[] | undefined;
+    if (useEmbeddings) {
+      const ec = getEmbeddingClient();
+      if (ec) {
+        try {
+          emb = await ec.embed(`${currentTitle} ${snippet}`.slice(0, 8000));
+        } catch {
+          // index without embedding
+        }
+      }
+    }
+    await indexNote(vaultPath, currentTitle, notePath, snippet, emb);
+  }
+}
+
+/** Run one task. Errors propagate to the loop, which logs them. */
+async function runTask(llm: LLMClient, vaultPath: string, task: QueuedTask): Promise<void> {
+  if (task.kind === "extract-insights") {
+    const sourceId = task.payload?.sourceId;
+    if (!sourceId) {
+      appendLog("extract-insights: missing sourceId");
+      return;
+    }
+    const source = await loadSource(vaultPath, sourceId);
+    if (!source) {
+      appendLog(`Source not found: ${sourceId}`);
+      return;
+    }
+    setStatus("processing", `Extract: ${source.name}`);
+    const previous = await currentInsightsFromSource(vaultPath, sourceId);
+    try {
+      if (previous.length > 0) {
+        await reextractInsightsFromSource(llm, vaultPath, source.text, source.name, sourceId, previous);
+      } else {
+        await extractInsightsFromSource(llm, vaultPath, source.text, source.name, sourceId);
+      }
+    } catch (err) {
+      if (!(err instanceof BudgetExceededError && err.scope === "source")) throw err;
+      appendLog(`Budget: stopped extracting ${source.name} early (${err.message}).`);
+    }
+    await persistProgress(vaultPath, { sourceId, version: source.version ?? 1 });
+    await journalSourceProcessed(vaultPath, sourceId);
+    const remaining = getQueueLength();
+    if (remaining > 0) appendLog(`${remaining} tasks left in queue.`);
+  } else if (task.kind === "split" && task.path) {
+    const notePath = task.path;
+    setStatus("processing", `Atomize: ${notePath}`);
+    await withNoteLock(vaultPath, notePath, () => atomizeNote(llm, vaultPath, notePath));
+    await persistProgress(vaultPath);
+  } else if (task.kind === "organize-vault") {
+    setStatus("processing", "Organize: vault");
+    await runOrganizeVault(llm, vaultPath, false);
+    await persistProgress(vaultPath);
+  } else if (task.kind === "organize-moc") {
+    setStatus("processing", "Organize: MOCs");
+    await runOrganizeVault(llm, vaultPath, true);
+    await persistProgress(vaultPath);
+  } else if (task.kind === "link" && task.path) {
+    const notePath = task.path;
+    setStatus("processing", `Link: ${notePath}`);
+    await withNoteLock(vaultPath, notePath, () => linkNote(llm, vaultPath, notePath));
+    await persistProgress(vaultPath);
+  } else if (task.kind === "deduce" && task.path) {
+    const notePath = task.path;
+    setStatus("processing", `Deduce: ${notePath}`);
+    const existingTitles = await getExistingInsightTitles(vaultPath);
+    await runDeduceForNote(llm, vaultPath, notePath, new Set(existingTitles));
+    await persistProgress(vaultPath);
+  } else if (
+    task.kind === "induce" &&
+    task.payload?.mocTitle &&
+    Array.isArray(task.payload.noteTitles)
+  ) {
+    setStatus("processing", `Induce: ${task.payload.mocTitle}`);
+    const existingTitles = await getExistingInsightTitles(vaultPath);
+    await runInduceForMoc(
+      llm,
+      vaultPath,
+      task.payload.mocTitle,
+      task.payload.noteTitles,
+      new Set(existingTitles),
+      task.payload.mocSummary
+    );
+    await persistProgress(vaultPath);
+  } else if (task.kind === "validate") {
+    setStatus("processing", "Validation");
+    await runValidation(vaultPath, llm);
+    await persistProgress(vaultPath);
+  }
+}
+
+/** Continue a paused (or restored) run from its current step and queue position. */
+export async function resumeLoop(): Promise<void> {
+  if (!canResume()) {
+    appendLog("Nothing to resume.");
+    return;
+  }
+  await runLoop({ resume: true });
+}
+
+/**
+ * Run a pipeline: the vault's configured one by default, another by name, or an ad-hoc one (e.g. a single
+ * stage from singleStagePipeline). With `resume`, continue the paused or restored run instead. With `full`,
+ * downstream stages cover the whole vault even when the vault's config asks for incremental runs.
+ */
+export async function runLoop(
+  options: { resume?: boolean; pipeline?: string | Pipeline; full?: boolean; dryRun?: boolean } = {}
+): Promise<void> {
+  const agent = instance();
+  if (agent.state.vaultPath == null) {
     appendLog("Cannot start: set the vault path in the Vault section and click Save config.");
     return;
   }
-  if (llm == null) {
-    appendLog("Cannot start: add OPENAI_API_KEY to the .env file in the app folder and restart the server.");
+  if (agent.llm == null) {
+    appendLog("Cannot start: no LLM provider configured. Set OPENAI_API_KEY in .env or configure a provider for this vault.");
     return;
   }
-  if (state.status === "processing") {
+  if (agent.state.status === "processing" || agent.state.status === "stopping") {
     appendLog("Agent is already running.");
     return;
   }
 
-  stopRequested = false;
-  state.currentStage = STAGES[0];
+  agent.stopRequested = false;
+  agent.pauseRequested = false;
   setStatus("processing", null);
+  const vaultPath = agent.state.vaultPath;
+  const config = await loadAgentConfig(vaultPath);
+  const resuming = options.resume === true && agent.state.currentStage != null;
+  let pipeline: Pipeline;
+  let firstStep = 0;
+  try {
+    if (resuming && agent.activePipeline && agent.state.currentStep != null) {
+      pipeline = agent.activePipeline;
+      firstStep = agent.state.currentStep;
+    } else if (resuming) {
+      // restored from progress.json, which only records the stage: continue at its first step
+      pipeline = resolvePipeline(config);
+      firstStep = Math.max(0, pipeline.steps.findIndex((s) => s.stage === agent.state.currentStage));
+    } else {
+      pipeline = typeof options.pipeline === "object" ? options.pipeline : resolvePipeline(config, options.pipeline);
+    }
+  } catch (err) {
+    appendLog(`Cannot start: ${(err as Error).message}`, { level: "error", error: eventError(err) });
+    setStatus("idle", null);
+    return;
+  }
+  agent.runAbort = new AbortController();
+  const signal = agent.runAbort.signal;
+  if (!resuming || !agent.activePipeline) {
+    // a run restored from progress.json has lost its dirty set, so it can only rebuild fully
+    agent.fullRebuild = resuming || options.full === true || !config.incremental;
+    agent.dryRun = options.dryRun ?? config.dryRun;
+    if (agent.dryRun) appendLog("Dry run: vault changes are staged for review, not written.");
+  }
+  if (!resuming) {
+    clearDirtyNotes();
+    await pruneJournal(vaultPath, config.journalRetentionRuns).catch((err) =>
+      appendLog(`Could not prune the change journal: ${(err as Error).message}`, { level: "warn", error: eventError(err) })
+    );
+  }
+  const runId = (resuming ? agent.pausedRunId : null) ?? randomUUID().slice(0, 8);
+  agent.pausedRunId = null;
+  setStep(pipeline, firstStep);
+  if (resuming) {
+    appendLog(`Resuming at stage ${agent.state.currentStage}.`);
+  } else if (!hasTaskForStage(agent.state.currentStage!)) {
+    await enqueueWorkForStage(agent.state.currentStage!, vaultPath, runId);
+  }
 
-  const vaultPath = state.vaultPath;
+  const runBudget = {
+    maxTokensPerRun: config.maxTokensPerRun,
+    maxCostPerRun: config.maxCostPerRun,
+    maxTokensPerSource: config.maxTokensPerSource,
+  };
+  if (resuming) resumeUsageRun(runId, runBudget);
+  else beginUsageRun(runId, runBudget);
+  let budgetExhausted = false;
+  const prompts = await loadPromptOverrides(vaultPath, { reload: true });
+  for (const [name, errors] of Object.entries(prompts.errors)) {
+    appendLog(`Prompt override ${name} ignored, using built-in: ${errors.join("; ")}`, { level: "warn" });
+  }
 
-  try {
-    while (!stopRequested) {
-      const currentStage = state.currentStage!;
-      let task = dequeueForStage(currentStage);
-
-      if (!task) {
-        if (getQueueLength() === 0) {
-          const idx = STAGES.indexOf(currentStage);
-          if (idx >= 0 && idx < STAGES.length - 1) {
-            state.currentStage = STAGES[idx + 1];
-            appendLog(`Stage complete: ${currentStage} → ${STAGES[idx + 1]}`);
-            await enqueueWorkForStage(STAGES[idx + 1], vaultPath);
-            await persistProgress(vaultPath);
-            continue;
-          }
-          appendLog("Queue empty. Idle.");
-          state.currentStage = null;
-          setStatus("idle", null);
-          await persistProgress(vaultPath);
-          return;
-        }
-        const idx = STAGES.indexOf(currentStage);
-        if (idx < 0 || idx === STAGES.length - 1) {
-          state.currentStage = null;
-          setStatus("idle", null);
-          await persistProgress(vaultPath);
-          return;
-        }
-        const nextStage = STAGES[idx + 1];
-        state.currentStage = nextStage;
-        appendLog(`Stage complete: ${currentStage} → ${nextStage}`);
-        await enqueueWorkForStage(nextStage, vaultPath);
+  /** Agent config with the current step's options applied. */
+  const stepConfig = () => ({ ...config, ...pipeline.steps[agent.state.currentStep!].options });
+  const inFlight = new Set<Promise<void>>();
+  /** Set while the circuit breaker is open: no new tasks start before this time. */
+  let resumeAt = 0;
+  /** When each task was dequeued in this run. */
+  const dequeueOrder = new Map<QueuedTask, number>();
+  /**
+   * Tasks cut short by a pause, stop, open circuit or used-up budget. No new task starts while any are held;
+   * once none is running they go back to the head of the queue in the order they were taken, so parallel
+   * workers interrupted together keep their queue position.
+   */
+  const interrupted: QueuedTask[] = [];
+  const requeueInterrupted = () => {
+    interrupted.sort((a, b) => dequeueOrder.get(a)! - dequeueOrder.get(b)!);
+    for (const task of interrupted.reverse()) enqueueFront(task);
+    interrupted.length = 0;
+  };
+
+  const runOne = async (client: LLMClient, task: QueuedTask, stageOptions?: StageOptions): Promise<void> => {
+    const started = Date.now();
+    /** Event fields for this task, for log lines written outside its task context. */
+    const taskEvent = (details: EventDetails = {}): EventDetails => ({
+      runId,
+      taskId: task.id,
+      stage: task.stage,
+      taskKind: task.kind,
+      target: taskTarget(task) ?? undefined,
+      durationMs: Date.now() - started,
+      ...details,
+    });
+    const taskAbort = new AbortController();
+    const abortTask = () => taskAbort.abort();
+    signal.addEventListener("abort", abortTask, { once: true });
+    agent.runningTasks.set(task, taskAbort);
+    try {
+      await runInTaskContext(
+        {
+          runId,
+          taskId: task.id,
+          stage: task.stage,
+          taskKind: task.kind,
+          target: taskTarget(task),
+          signal: taskAbort.signal,
+          dryRun: agent.dryRun,
+          stageOptions,
+        },
+        () => runTask(clientFor(task, client), vaultPath, task)
+      );
+      recordEvent(`Finished ${taskErrorLabel(task)}`, taskEvent());
+    } catch (err) {
+      if (err instanceof LLMAbortedError && agent.skippedTasks.has(task)) {
+        appendLog(`Skipped ${taskErrorLabel(task)}`, taskEvent());
         await persistProgress(vaultPath);
-        continue;
+        return;
       }
-
-      if (task.kind === "extract-insights") {
-        const sourceId = task.payload?.sourceId;
-        if (!sourceId) {
-          appendLog("extract-insights: missing sourceId");
-          continue;
-        }
-        try {
-          const source = await loadSource(vaultPath, sourceId);
-          if (!source) {
-            appendLog(`Source not found: ${sourceId}`);
-            continue;
-          }
-          setStatus("processing", `Extract: ${source.name}`);
-          await extractInsightsFromSource(llm, vaultPath, source.text, source.name);
-          await persistProgress(vaultPath, sourceId);
-          const remaining = getQueueLength();
-          if (remaining > 0) appendLog(`${remaining} tasks left in queue.`);
-        } catch (err) {
-          appendLog(`Error extracting insights from ${sourceId}: ${(err as Error).message}`);
-        }
-      } else if (task.kind === "organize-vault") {
-        setStatus("processing", "Organize: vault");
-        try {
-          await runOrganizeVault(llm, vaultPath, false);
-          await persistProgress(vaultPath);
-        } catch (err) {
-          appendLog(`Error organizing vault: ${(err as Error).message}`);
-        }
-      } else if (task.kind === "organize-moc") {
-        setStatus("processing", "Organize: MOCs");
-        try {
-          await runOrganizeVault(llm, vaultPath, true);
-          await persistProgress(vaultPath);
-        } catch (err) {
-          appendLog(`Error building MOCs: ${(err as Error).message}`);
-        }
-      } else if (task.kind === "link" && task.path) {
-        const notePath = task.path;
-        setStatus("processing", `Link: ${notePath}`);
-        try {
-          const content = await readNote(vaultPath, notePath);
-          const config = await loadAgentConfig(vaultPath);
-          const maxTitlesLink = config.maxTitlesLink ?? 50;
-          const useEmbeddings = config.useEmbeddings ?? true;
-          const relevantTitles = await getRelevantTitles(vaultPath, content, {
-            limit: maxTitlesLink,
-            useEmbeddings,
-          });
-          const currentTitle = path.basename(notePath, ".md");
-          const others = relevantTitles.filter((t) => t !== currentTitle);
-          if (others.length > 0) {
-            await addLinksToNote(llm, vaultPath, notePath, content, others);
-            const updatedContent = await readNote(vaultPath, notePath);
-            const snippet = updatedContent.slice(0, 300);
-            let emb: number[] | undefined;
-            if (useEmbeddings) {
-              const ec = getEmbeddingClient();
-              if (ec) {
-                try {
-                  emb = await ec.embed(`${currentTitle} ${snippet}`.slice(0, 8000));
-                } catch {
-                  // index without embedding
-                }
-              }
-            }
-            await indexNote(vaultPath, currentTitle, notePath, snippet, emb);
-          }
-          await persistProgress(vaultPath);
-        } catch (err) {
-          appendLog(`Error linking ${notePath}: ${(err as Error).message}`);
-        }
-      } else if (task.kind === "deduce" && task.path) {
-        const notePath = task.path;
-        setStatus("processing", `Deduce: ${notePath}`);
-        try {
-          const existingTitles = await getExistingInsightTitles(vaultPath);
-          await runDeduceForNote(
-            llm,
-            vaultPath,
-            notePath,
-            new Set(existingTitles)
-          );
-          await persistProgress(vaultPath);
-        } catch (err) {
-          appendLog(`Error deduce ${notePath}: ${(err as Error).message}`);
+      if (err instanceof LLMAbortedError) {
+        interrupted.push(task);
+        recordEvent(`Interrupted ${taskErrorLabel(task)}`, taskEvent());
+        return;
+      }
+      if (err instanceof CircuitOpenError) {
+        interrupted.push(task);
+        if (err.retryAt > resumeAt) {
+          resumeAt = err.retryAt;
+          appendLog(`${err.message}. Pausing until then.`, taskEvent({ level: "warn", error: eventError(err) }));
+          setStatus("processing", `Waiting for LLM provider until ${new Date(err.retryAt).toLocaleTimeString()}`);
         }
-      } else if (
-        task.kind === "induce" &&
-        task.payload?.mocTitle &&
-        Array.isArray(task.payload.noteTitles)
-      ) {
-        setStatus("processing", `Induce: ${task.payload.mocTitle}`);
-        try {
-          const existingTitles = await getExistingInsightTitles(vaultPath);
-          await runInduceForMoc(
-            llm,
-            vaultPath,
-            task.payload.mocTitle,
-            task.payload.noteTitles,
-            new Set(existingTitles),
-            task.payload.mocSummary
-          );
-          await persistProgress(vaultPath);
-        } catch (err) {
+        await persistProgress(vaultPath);
+        return;
+      }
+      if (err instanceof BudgetExceededError) {
+        interrupted.push(task);
+        if (!budgetExhausted) {
           appendLog(
-            `Error induce ${task.payload.mocTitle}: ${(err as Error).message}`
+            `Budget exhausted: ${err.message}. Pausing; raise the budget and resume to continue.`,
+            taskEvent({ level: "warn", error: eventError(err) })
           );
         }
-      } else if (task.kind === "validate") {
-        setStatus("processing", "Validation");
-        try {
-          await runValidation(vaultPath, llm);
-          await persistProgress(vaultPath);
-        } catch (err) {
-          appendLog(`Error validation: ${(err as Error).message}`);
+        budgetExhausted = true;
+        return;
+      }
+      const maxAttempts = Math.max(1, Math.floor({ ...config, ...stageOptions }.maxTaskAttempts));
+      const attempts = (task.attempts ?? 0) + 1;
+      const message = (err as Error).message;
+      const failed: QueuedTask = { ...task, attempts, lastError: message };
+      if (attempts < maxAttempts) {
+        enqueue(failed);
+        appendLog(
+          `Error ${taskErrorLabel(task)}: ${message} (attempt ${attempts} of ${maxAttempts}, will retry)`,
+          taskEvent({ level: "warn", error: eventError(err) })
+        );
+      } else {
+        addFailedTask(failed);
+        appendLog(
+          `Error ${taskErrorLabel(task)}: ${message} (gave up after ${attempts} attempt(s); moved to failed tasks)`,
+          taskEvent({ level: "error", error: eventError(err) })
+        );
+      }
+      await persistProgress(vaultPath);
+    } finally {
+      agent.runningTasks.delete(task);
+      signal.removeEventListener("abort", abortTask);
+    }
+  };
+
+  let releaseSlot = () => {};
+  try {
+    // a stop or pause while waiting for a slot ends the run below without starting a task
+    releaseSlot = await acquireAgentSlot(signal, () => {
+      const slots = getAgentSlots();
+      appendLog(`Waiting for a free agent slot: ${slots.running} of ${slots.max} agent(s) running.`);
+      setStatus("processing", "Waiting for another vault's agent to finish");
+    });
+    while (!agent.stopRequested && !agent.pauseRequested && !budgetExhausted) {
+      const client = agent.llm;
+      if (client == null) {
+        appendLog("LLM provider is no longer configured. Stopping.");
+        break;
+      }
+      const currentStage = agent.state.currentStage!;
+      const step = agent.state.currentStep!;
+      if (Date.now() >= resumeAt && interrupted.length === 0) {
+        const concurrency = Math.max(1, Math.floor(stepConfig().concurrency));
+        while (inFlight.size < concurrency) {
+          const task = dequeueForStage(currentStage);
+          if (!task) break;
+          dequeueOrder.set(task, dequeueOrder.size);
+          const worker = runOne(client, task, pipeline.steps[step].options).finally(() => inFlight.delete(worker));
+          inFlight.add(worker);
         }
       }
+      if (inFlight.size > 0) {
+        await Promise.race(inFlight);
+        continue;
+      }
+      if (interrupted.length > 0) {
+        requeueInterrupted();
+        await persistProgress(vaultPath);
+        continue;
+      }
+      if (Date.now() < resumeAt) {
+        await sleep(resumeAt - Date.now(), signal).catch(() => {});
+        continue;
+      }
+
+      // Step advance: only reached once every task of the current step has finished.
+      if (step + 1 < pipeline.steps.length) {
+        setStep(pipeline, step + 1);
+        appendLog(`Stage complete: ${currentStage} → ${agent.state.currentStage}`);
+        await enqueueWorkForStage(agent.state.currentStage!, vaultPath, runId);
+        await persistProgress(vaultPath);
+        continue;
+      }
+      const left = getQueueLength();
+      appendLog(left === 0 ? "Queue empty. Idle." : `Pipeline ${pipeline.name} complete; ${left} task(s) of other stages left in queue.`);
+      setStage(null);
+      setStatus("idle", null);
+      await persistProgress(vaultPath);
+      return;
     }
-    state.currentStage = null;
+    await Promise.all(inFlight);
+    requeueInterrupted();
+    // a used-up budget pauses the run too, so it keeps its step and run totals until the budget is raised
+    if ((agent.pauseRequested || budgetExhausted) && !agent.stopRequested) {
+      agent.pausedRunId = runId;
+      setStatus("paused", null);
+      if (!budgetExhausted) appendLog(`Paused at stage ${agent.state.currentStage}.`);
+      await persistProgress(vaultPath);
+      return;
+    }
+    setStage(null);
     setStatus("idle", null);
-    appendLog("Stopped by user.");
+    if (agent.stopRequested) appendLog("Stopped by user.");
     await persistProgress(vaultPath);
   } catch (err) {
-    appendLog(`Agent error: ${(err as Error).message}`);
-    state.currentStage = null;
+    appendLog(`Agent error: ${(err as Error).message}`, { level: "error", runId, error: eventError(err) });
+    requeueInterrupted();
+    setStage(null);
     setStatus("idle", null);
+  } finally {
+    releaseSlot();
+    agent.runAbort = null;
+    if (agent.pausedRunId !== runId) discardDryRunIndex(runId);
+    endUsageRun();
+    await flushUsage();
+    await flushEventLog();
+  }
+}
+
+/** Ad-hoc work that can be queued by hand: split, link or deduce one note, or (re-)extract one source. */
+export type AdHocTask =
+  | { kind: "split" | "link" | "deduce"; path: string }
+  | { kind: "extract-insights"; sourceId: string };
+
+const AD_HOC_STAGES: Record<"split" | "link" | "deduce", Stage> = { split: "atomize", link: "connect", deduce: "deduce" };
+
+/**
+ * Queue an ad-hoc task. It runs when its stage next comes up; `front` puts it at the head of the queue.
+ * Returns the queued task (with its id).
+ */
+export async function enqueueAdHocTask(
+  spec: AdHocTask,
+  options: { priority?: number; front?: boolean } = {}
+): Promise<QueuedTask> {
+  const agent = instance();
+  const base: QueuedTask =
+    spec.kind === "extract-insights"
+      ? { kind: "extract-insights", stage: "extract", payload: { sourceId: spec.sourceId } }
+      : { kind: spec.kind, stage: AD_HOC_STAGES[spec.kind], path: spec.path };
+  const task: QueuedTask = { ...base, id: randomUUID().slice(0, 8) };
+  if (options.priority) task.priority = options.priority;
+  if (options.front) enqueueFront(task);
+  else enqueue(task);
+  appendLog(`Queued: ${taskErrorLabel(task)}`);
+  if (agent.state.vaultPath) await persistProgress(agent.state.vaultPath);
+  return task;
+}
+
+/** Drop a queued task. Returns false if there is no task with that id. */
+export async function removeQueuedTask(id: string): Promise<boolean> {
+  const agent = instance();
+  const task = removeTask(id);
+  if (!task) return false;
+  appendLog(`Removed from queue: ${taskErrorLabel(task)}`);
+  if (agent.state.vaultPath) await persistProgress(agent.state.vaultPath);
+  return true;
+}
+
+/** Move a queued task to the head of the queue so it runs next within its stage. */
+export async function moveQueuedTaskToFront(id: string): Promise<boolean> {
+  const agent = instance();
+  if (!moveTaskToFront(id)) return false;
+  if (agent.state.vaultPath) await persistProgress(agent.state.vaultPath);
+  return true;
+}
+
+/** Change a queued task's priority; higher runs first within its stage. */
+export async function setQueuedTaskPriority(id: string, priority: number): Promise<boolean> {
+  const agent = instance();
+  if (!setTaskPriority(id, priority)) return false;
+  if (agent.state.vaultPath) await persistProgress(agent.state.vaultPath);
+  return true;
+}
+
+/**
+ * Undo the vault changes of one task of a run, from the change journal. Returns null unless the agent is idle,
+ * or when the journal has nothing for that task. Sources whose extraction is undone become due again.
+ */
+export async function undoTask(runId: string, taskId: string, force = false): Promise<RevertResult | null> {
+  const agent = instance();
+  const vaultPath = agent.state.vaultPath;
+  if (!vaultPath || agent.state.status !== "idle") return null;
+  const result = await undoTaskChanges(vaultPath, runId, taskId, force);
+  if (!result || (result.conflicts.length > 0 && !force)) return result;
+  appendLog(`Undid task ${taskId} of run ${runId}: ${result.reverted.length} file(s) restored.`);
+  await requeueUndoneSources(vaultPath, result.sourceIds);
+  return result;
+}
+
+/**
+ * Roll the vault back to its state before a run, undoing that run and every later one. Returns null unless the
+ * agent is idle, or when the run is not in the journal.
+ */
+export async function rollbackRun(runId: string, force = false): Promise<RevertResult | null> {
+  const agent = instance();
+  const vaultPath = agent.state.vaultPath;
+  if (!vaultPath || agent.state.status !== "idle") return null;
+  const result = await rollbackToRun(vaultPath, runId, force);
+  if (!result || (result.conflicts.length > 0 && !force)) return result;
+  appendLog(`Rolled back to before run ${runId}: ${result.reverted.length} file(s) restored.`);
+  await requeueUndoneSources(vaultPath, result.sourceIds);
+  return result;
+}
+
+/** Sources whose extraction was undone leave the processed list and are queued again, if still staged. */
+async function requeueUndoneSources(vaultPath: string, sourceIds: string[]): Promise<void> {
+  for (const id of sourceIds) {
+    if (await loadSource(vaultPath, id)) enqueueSourceForProcessing(id);
+  }
+  await persistProgress(vaultPath, undefined, sourceIds);
+}
+
+/** Put a failed task back on the queue with a fresh set of attempts. It runs when its stage next comes up. */
+export async function retryFailedTask(id: string): Promise<boolean> {
+  const agent = instance();
+  const task = takeFailedTask(id);
+  if (!task) return false;
+  const { failedAt: _failedAt, lastError: _lastError, ...rest } = task;
+  enqueue({ ...rest, attempts: 0 });
+  appendLog(`Retrying failed task: ${taskErrorLabel(task)}`);
+  if (agent.state.vaultPath) await persistProgress(agent.state.vaultPath);
+  return true;
+}
+
+/** Drop a failed task for good. */
+export async function discardFailedTask(id: string): Promise<boolean> {
+  const agent = instance();
+  const task = takeFailedTask(id);
+  if (!task) return false;
+  appendLog(`Discarded failed task: ${taskErrorLabel(task)}`);
+  if (agent.state.vaultPath) await persistProgress(agent.state.vaultPath);
+  return true;
+}
+
+/** Forget sources whose files are gone: their queued extraction is dropped and they leave the processed list. */
+export async function forgetSources(sourceIds: string[]): Promise<void> {
+  const agent = instance();
+  for (const task of getQueueSnapshot()) {
+    if (task.id && task.payload?.sourceId && sourceIds.includes(task.payload.sourceId)) removeTask(task.id);
   }
+  if (agent.state.vaultPath) await persistProgress(agent.state.vaultPath, undefined, sourceIds);
 }
 
+/** Queue extraction of a staged source, unless it is already queued (the task reads the latest staged text). */
 export function enqueueSourceForProcessing(sourceId: string): void {
+  if (getQueueSnapshot().some((t) => t.kind === "extract-insights" && t.payload?.sourceId === sourceId)) return;
   enqueue({ kind: "extract-insights", stage: "extract", payload: { sourceId } });
 }
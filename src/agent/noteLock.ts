@@ -0,0 +1,21 @@
+/**
+ * Per-note locks for parallel tasks: two workers never rewrite the same note at the same time, and a note
+ * created by one worker is never overwritten by another that picked the same title.
+ */
+import path from "path";
+import { createKeyedMutex } from "../lib/mutex.js";
+import { writeVaultFile } from "./vaultWrite.js";
+
+const noteLocks = createKeyedMutex();
+
+/** Run `fn` while holding the lock for one note (vault-relative path). */
+export function withNoteLock<T>(vaultPath: string, relativePath: string, fn: () => Promise<T>): Promise<T> {
+  return noteLocks.run(path.resolve(vaultPath, relativePath), fn);
+}
+
+/** Create a note. Returns false without writing when a note already exists at that path. */
+export async function writeNewNote(vaultPath: string, relativePath: string, content: string): Promise<boolean> {
+  return withNoteLock(vaultPath, relativePath, () =>
+    writeVaultFile(vaultPath, relativePath, content, { createOnly: true })
+  );
+}
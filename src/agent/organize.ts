@@ -1,36 +1,36 @@
-import { writeFile, mkdir } from "fs/promises";
 import path from "path";
 import matter from "gray-matter";
 import type { LLMClient } from "../llm/client.js";
 import { appendLog } from "./queue.js";
 import { listMarkdownFiles, extractNoteTitlesFromVault, readNote } from "./link.js";
-import { SCIENTIFIC_REASONING_PRINCIPLES } from "./prompts.js";
 import { stripMarkdownFences } from "./prompts.js";
-import { loadAgentConfig } from "../storage/agentConfig.js";
+import { renderPrompt, promptVersion } from "./promptTemplates.js";
+import { provenanceProperties, readCreated } from "./provenance.js";
+import { loadStageConfig } from "./pipeline.js";
 import { loadIndex, indexNote } from "../retrieval/embeddingIndex.js";
 import { getEmbeddingClient, similarity } from "../retrieval/retrieve.js";
+import { completeStructured } from "../llm/structured.js";
+import { StructuredOutputError } from "../llm/errors.js";
+import * as s from "../llm/schema.js";
+import { writeVaultFile } from "./vaultWrite.js";
 
 const MOC_DIR = "MOCs";
 const MOC_PREFIX = MOC_DIR + "/";
 
-const SYSTEM_PROMPT = `${SCIENTIFIC_REASONING_PRINCIPLES}
-
-You are organizing an Obsidian insight vault. Your job is to suggest Map of Content (MOC) notes that group related insights.
-
-Rules:
-- Propose 3-8 MOC notes. Each MOC has a title and a list of existing note titles that belong under that theme/topic.
-- Use only exact note titles from the list provided. Do not invent notes.
-- Each insight note can appear in one or more MOCs if it fits multiple themes.
-- Create MOCs that fit the content domain. Prefer grouping by logical role when note types support it. Examples by role: Assumptions, Evidence, Conclusions, Open questions, Contradictions, Causal chains, Key findings, Methods; for strategy use "Key Assumptions", "Critical Risks", "Options"; for fiction use "Themes", "Characters", "Plot threads"; for research use "Key Findings", "Methods", "Open questions"; for technical use "Concepts", "APIs", "Tutorials". Mix thematic and structural groupings as appropriate.
-- Use both the note type (when provided) and content themes when grouping.
-- Output only valid JSON in this exact format, no other text:
-{"mocs": [{"title": "MOC Title", "noteTitles": ["Exact Note Title 1", "Exact Note Title 2"]}]}`;
-
 export interface MOCSpec {
   title: string;
   noteTitles: string[];
 }
 
+const MocsResponseSchema = s.object({
+  mocs: s.array(
+    s.object({
+      title: s.string({ nonEmpty: true }),
+      noteTitles: s.array(s.string()),
+    })
+  ),
+});
+
 export interface NoteMetadata {
   type?: string;
   tags?: string[];
@@ -54,9 +54,10 @@ async function getNoteMetadata(vaultPath: string, relativePath: string): Promise
   }
 }
 
-/** Suggest MOCs for a subset of note titles. Returns MOCSpec[] (no file I/O). */
+/** Suggest MOCs for a subset of note titles. Returns MOCSpec[] (no file I/O). Throws StructuredOutputError on unusable output. */
 async function suggestMocs(
   llm: LLMClient,
+  vaultPath: string,
   noteTitles: string[],
   titleToMetadata: Map<string, NoteMetadata>,
   highGravityTitles: string[],
@@ -72,29 +73,21 @@ async function suggestMocs(
       return meta?.type ? `- ${t} (type: ${meta.type})` : `- ${t}`;
     })
     .join("\n");
-  const userPrompt = `Vault note titles (use these exact strings in noteTitles):
-${noteList}
-${highGravityBlock}
-
-${context}
-
-Output only a JSON object: {"mocs": [{"title": "MOC Title", "noteTitles": ["Exact Note Title", ...]}]}`;
-  const raw = await llm.complete(
+  const userPrompt = await renderPrompt(vaultPath, "organize.user", {
+    noteTitles: noteList,
+    highGravity: highGravityBlock,
+    context,
+  });
+  const parsed = await completeStructured(
+    llm,
     [
-      { role: "system", content: SYSTEM_PROMPT },
+      { role: "system", content: await renderPrompt(vaultPath, "organize.system") },
       { role: "user", content: userPrompt },
     ],
-    { maxTokens: 2048 }
+    MocsResponseSchema,
+    { label: "organize", maxTokens: 2048 }
   );
-  const jsonMatch = raw.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) return [];
-  let parsed: { mocs?: MOCSpec[] };
-  try {
-    parsed = JSON.parse(jsonMatch[0]) as { mocs?: MOCSpec[] };
-  } catch {
-    return [];
-  }
-  return Array.isArray(parsed.mocs) ? parsed.mocs : [];
+  return parsed.mocs;
 }
 
 /** Cluster note titles by embedding similarity (greedy). */
@@ -137,8 +130,7 @@ async function writeMocs(
 ): Promise<string[]> {
   const validTitles = new Set(noteTitles);
   const created: string[] = [];
-  const mocDirFull = path.join(vaultPath, MOC_DIR);
-  await mkdir(mocDirFull, { recursive: true });
+  const version = await promptVersion(vaultPath, ["organize.system", "organize.user"]);
   for (const moc of mocs) {
     if (!moc.title?.trim()) continue;
     const baseTitle = moc.title.replace(/[/\\?%*:|"<>]/g, "-").trim() || "Untitled";
@@ -167,11 +159,13 @@ async function writeMocs(
     } catch {
       // non-fatal
     }
-    const frontmatter: Record<string, unknown> = summary ? { summary } : {};
+    const frontmatter: Record<string, unknown> = {
+      ...(summary ? { summary } : {}),
+      ...provenanceProperties(llm, version, { created: await readCreated(full) }),
+    };
     const content = matter.stringify(bodyContent, frontmatter, { delimiters: ["---", "---"] });
-    await writeFile(full, content, "utf-8");
     created.push(rel);
-    appendLog(`MOC: ${rel}`);
+    if (await writeVaultFile(vaultPath, rel, content)) appendLog(`MOC: ${rel}`);
   }
   return created;
 }
@@ -185,7 +179,7 @@ export async function runOrganizeVault(
   vaultPath: string,
   isOrganizeAgain: boolean
 ): Promise<string[]> {
-  const config = await loadAgentConfig(vaultPath);
+  const config = await loadStageConfig(vaultPath);
   const maxTitlesOrganize = config.maxTitlesOrganize ?? 400;
 
   const files = await listMarkdownFiles(vaultPath);
@@ -217,9 +211,9 @@ export async function runOrganizeVault(
     : [];
 
   if (noteTitles.length <= maxTitlesOrganize) {
-    const mocs = await suggestMocs(llm, noteTitles, titleToMetadata, highGravityTitles, context);
+    const mocs = await suggestMocs(llm, vaultPath, noteTitles, titleToMetadata, highGravityTitles, context);
     if (mocs.length === 0) {
-      appendLog("Organize: no JSON in response.");
+      appendLog("Organize: no MOCs suggested.");
       return [];
     }
     return writeMocs(vaultPath, mocs, noteTitles, llm, "");
@@ -239,7 +233,7 @@ export async function runOrganizeVault(
       if (!rel) continue;
       try {
         const raw = await readNote(vaultPath, rel);
-        const snippet = raw.slice(0, 300);
+        const snippet = (matter(raw).content ?? "").trim().slice(0, 300);
         const emb = await embeddingClient.embed(`${title} ${snippet}`.slice(0, 8000));
         titleToEmbedding.set(title, emb);
         await indexNote(vaultPath, title, rel, snippet, emb);
@@ -263,14 +257,24 @@ export async function runOrganizeVault(
     context +
     " This is one cluster of the vault; suggest MOCs that group these notes by theme.";
   const allCreated: string[] = [];
+  const failures: StructuredOutputError[] = [];
   for (let i = 0; i < clusters.length; i++) {
     const clusterTitles = clusters[i];
     const clusterHighGravity = highGravityTitles.filter((t) => clusterTitles.includes(t));
-    const mocs = await suggestMocs(llm, clusterTitles, titleToMetadata, clusterHighGravity, clusterContext);
+    let mocs: MOCSpec[];
+    try {
+      mocs = await suggestMocs(llm, vaultPath, clusterTitles, titleToMetadata, clusterHighGravity, clusterContext);
+    } catch (err) {
+      if (!(err instanceof StructuredOutputError)) throw err;
+      appendLog(`Organize: cluster ${i + 1}: ${err.message}`);
+      failures.push(err);
+      continue;
+    }
     const suffix = ` – Cluster ${i + 1}`;
     const created = await writeMocs(vaultPath, mocs, clusterTitles, llm, suffix);
     allCreated.push(...created);
   }
+  if (failures.length > 0) throw failures[0];
   return allCreated;
 }
 
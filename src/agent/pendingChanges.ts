@@ -0,0 +1,84 @@
+/**
+ * Review of changes staged by dry runs: accepting one applies it to the vault and the embedding index,
+ * rejecting one drops it. A change whose file was edited since it was staged is not applied.
+ */
+import { readFile } from "fs/promises";
+import path from "path";
+import { appendLog } from "./queue.js";
+import { withNoteLock } from "./noteLock.js";
+import { writeVaultFile, deleteVaultFile } from "./vaultWrite.js";
+import { asManualAction } from "./journal.js";
+import {
+  listPendingChanges,
+  loadPendingChange,
+  deletePendingChange,
+  type PendingChange,
+} from "../storage/pending.js";
+import { reindexNoteContent } from "../retrieval/retrieve.js";
+
+export type ReviewResult =
+  | { id: string; ok: true }
+  | { id: string; ok: false; reason: "missing" | "conflict"; error: string };
+
+async function readOrNull(fullPath: string): Promise<string | null> {
+  try {
+    return await readFile(fullPath, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+async function applyChange(vaultPath: string, change: PendingChange): Promise<ReviewResult> {
+  return withNoteLock(vaultPath, change.path, async () => {
+    const current = await readOrNull(path.join(vaultPath, change.path));
+    if (current !== change.before) {
+      const error = `${change.path} changed since the change was staged`;
+      return { id: change.id, ok: false, reason: "conflict", error };
+    }
+    if (change.after == null) await deleteVaultFile(vaultPath, change.path);
+    else await writeVaultFile(vaultPath, change.path, change.after);
+    if (change.path.endsWith(".md")) await reindexNoteContent(vaultPath, change.path, change.after);
+    await deletePendingChange(vaultPath, change.id);
+    appendLog(`Accepted ${change.action}: ${change.path}`);
+    return { id: change.id, ok: true };
+  });
+}
+
+/** Apply one staged change. */
+export async function acceptPendingChange(vaultPath: string, id: string): Promise<ReviewResult> {
+  const change = await loadPendingChange(vaultPath, id);
+  if (!change) return { id, ok: false, reason: "missing", error: "No pending change with that id" };
+  return asManualAction(() => applyChange(vaultPath, change));
+}
+
+export async function rejectPendingChange(vaultPath: string, id: string): Promise<ReviewResult> {
+  const change = await loadPendingChange(vaultPath, id);
+  if (!change) return { id, ok: false, reason: "missing", error: "No pending change with that id" };
+  await deletePendingChange(vaultPath, id);
+  appendLog(`Rejected ${change.action}: ${change.path}`);
+  return { id, ok: true };
+}
+
+/** Accept the given changes, or every pending change, oldest first. Conflicts are reported and left pending. */
+export async function acceptPendingChanges(vaultPath: string, ids?: string[]): Promise<ReviewResult[]> {
+  const changes = await listPendingChanges(vaultPath);
+  const results: ReviewResult[] = [];
+  await asManualAction(async () => {
+    for (const change of changes) {
+      if (ids && !ids.includes(change.id)) continue;
+      results.push(await applyChange(vaultPath, change));
+    }
+  });
+  for (const id of ids ?? []) {
+    if (changes.some((c) => c.id === id)) continue;
+    results.push({ id, ok: false, reason: "missing", error: "No pending change with that id" });
+  }
+  return results;
+}
+
+export async function rejectPendingChanges(vaultPath: string, ids?: string[]): Promise<ReviewResult[]> {
+  const targets = ids ?? (await listPendingChanges(vaultPath)).map((c) => c.id);
+  const results: ReviewResult[] = [];
+  for (const id of targets) results.push(await rejectPendingChange(vaultPath, id));
+  return results;
+}
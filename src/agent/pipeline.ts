@@ -0,0 +1,47 @@
+/**
+ * Pipeline definitions: which stages a run walks through, in what order, and with which per-step options.
+ * The built-in "default" pipeline is the eight STAGES in order; vaults add or redefine pipelines in
+ * `pipelines` in the agent config.
+ */
+import { STAGES, type Stage } from "./types.js";
+import { getTaskContext } from "./taskContext.js";
+import {
+  loadAgentConfig,
+  type AgentConfig,
+  type PipelineStep,
+  type StageOptions,
+} from "../storage/agentConfig.js";
+
+export const DEFAULT_PIPELINE = "default";
+
+export interface Pipeline {
+  name: string;
+  steps: PipelineStep[];
+}
+
+const BUILT_IN: Pipeline = { name: DEFAULT_PIPELINE, steps: STAGES.map((stage) => ({ stage })) };
+
+/** The built-in pipeline (unless the vault redefines it) followed by the vault's own pipelines. */
+export function listPipelines(config: Required<AgentConfig>): Pipeline[] {
+  const custom = Object.entries(config.pipelines).map(([name, steps]) => ({ name, steps }));
+  return config.pipelines[DEFAULT_PIPELINE] ? custom : [BUILT_IN, ...custom];
+}
+
+/** The named pipeline (default: the configured one). Throws if no pipeline has that name. */
+export function resolvePipeline(config: Required<AgentConfig>, name: string = config.pipeline): Pipeline {
+  const found = listPipelines(config).find((p) => p.name === name);
+  if (!found) throw new Error(`Unknown pipeline "${name}"`);
+  return found;
+}
+
+/** A one-step pipeline for running a single stage on demand. */
+export function singleStagePipeline(stage: Stage, options?: StageOptions): Pipeline {
+  return { name: `stage:${stage}`, steps: [options ? { stage, options } : { stage }] };
+}
+
+/** Agent config with the running pipeline step's options applied. Use from stage code instead of loadAgentConfig. */
+export async function loadStageConfig(vaultPath: string): Promise<Required<AgentConfig>> {
+  const config = await loadAgentConfig(vaultPath);
+  const options = getTaskContext()?.stageOptions;
+  return options ? { ...config, ...options } : config;
+}
@@ -0,0 +1,402 @@
+/**
+ * Prompt templates for every LLM step, with per-vault overrides from .vaultmaker/prompts/<id>.md.
+ * Templates use {{variable}} placeholders; {{principles}} and {{relationshipTypes}} work in all of them.
+ */
+import { createHash } from "crypto";
+import { SCIENTIFIC_REASONING_PRINCIPLES, RELATIONSHIP_TAXONOMY } from "./prompts.js";
+import { loadPromptFiles } from "../storage/prompts.js";
+
+export type PromptId =
+  | "principles"
+  | "insights.system"
+  | "insights.user"
+  | "reextract.user"
+  | "link.system"
+  | "link.user"
+  | "organize.system"
+  | "organize.user"
+  | "deduce.system"
+  | "deduce.user"
+  | "induce.system"
+  | "induce.user"
+  | "split.system"
+  | "split.user"
+  | "validate.system"
+  | "validate.user";
+
+export interface PromptDefinition {
+  id: PromptId;
+  description: string;
+  /** Variables this template may use, besides the global ones. */
+  variables: string[];
+  /** Variables an override must keep, or the step would lose its input. */
+  required: string[];
+  template: string;
+}
+
+const GLOBAL_VARIABLES = ["principles", "relationshipTypes"];
+const PLACEHOLDER = /\{\{\s*([A-Za-z]\w*)\s*\}\}/g;
+
+const DEFINITIONS: PromptDefinition[] = [
+  {
+    id: "principles",
+    description: "Shared reasoning rules inserted into other prompts as {{principles}}.",
+    variables: [],
+    required: [],
+    template: SCIENTIFIC_REASONING_PRINCIPLES,
+  },
+  {
+    id: "insights.system",
+    description: "System prompt for extracting insight notes from a source.",
+    variables: [],
+    required: [],
+    template: `{{principles}}
+
+You are building an Obsidian insight vault. Your job is to read source text and extract only the key insights, ideas, and concepts—not to copy or paraphrase the whole text.
+
+Rules:
+- Output only valid markdown. Use Obsidian wiki links: [[Note Title]] to connect related insights (use exact titles from "Existing insight notes" when linking).
+- For every link, use machine-readable relationship format: "Relationship:: <type> [[Note Title]]" on its own line or in a sentence. Allowed types: {{relationshipTypes}}.
+- Create one note per distinct insight or idea. Each note should be concise and atomic. Titles should be clear, reusable claims.
+- Do not dump raw content. Extract and name the insight clearly. Link to other insights (from this source or existing notes) only when there is a nameable relationship.
+- When useful, include **Implication:** or **Depends on:** or **Assumptions:** (what would make this wrong) in the body.
+- **type** must be one of: Observation, Claim, Evidence, Method (or Conclusion, Theme when appropriate). Adapt to domain.
+- **confidence** must be a number between 0.0 and 1.0 (e.g. 0.9). Not high/medium/low.
+- **tags** (optional): array of single-word or hyphenated strings (no spaces). When in doubt, prefer fewer, sharper notes over many vague ones.`,
+  },
+  {
+    id: "insights.user",
+    description: "One source chunk to extract insights from. Must ask for the JSON shape {\"insights\": [...]}.",
+    variables: ["sourceName", "part", "chunk", "existingTitles"],
+    required: ["chunk"],
+    template: `Source: {{sourceName}}{{part}}
+
+\`\`\`
+{{chunk}}
+\`\`\`
+
+Existing insight notes in the vault (use these exact titles in [[links]] when an insight relates):
+{{existingTitles}}
+
+Extract the key insights from this text. For each insight, provide:
+- \`title\`: short, clear claim
+- \`content\`: concise markdown body. For any link to another note use the format "Relationship:: <type> [[Exact Note Title]]" (e.g. "Relationship:: Evidence for [[Note Title]]"). Allowed relationship types: {{relationshipTypes}}. Include **Assumptions:** when relevant (what would make this wrong).
+- \`type\`: one of Observation, Claim, Evidence, Method (or Conclusion, Theme when it is a conclusion or theme). Required.
+- \`confidence\`: number between 0.0 and 1.0 (e.g. 0.85). Required for Claim and Conclusion.
+- \`importance\` (optional): e.g. critical, high, medium, low
+- \`tags\` (optional): array of single-word or hyphenated strings (no spaces)
+
+Output only a JSON object, no other text:
+{"insights": [{"title": "Note Title", "content": "markdown with Relationship:: Type [[Links]]", "type": "Claim", "confidence": 0.9, "tags": ["strategy"]}]}`,
+  },
+  {
+    id: "reextract.user",
+    description:
+      "A changed source chunk with the insights extracted from its previous version. Must ask for the JSON shape {\"unchanged\": [...], \"updated\": [...], \"obsolete\": [...], \"insights\": [...]}.",
+    variables: ["sourceName", "part", "chunk", "previousInsights", "existingTitles"],
+    required: ["chunk", "previousInsights"],
+    template: `Source: {{sourceName}}{{part}} has changed. Its new text:
+
+\`\`\`
+{{chunk}}
+\`\`\`
+
+Insights extracted from the previous version of this source:
+{{previousInsights}}
+
+Other insight notes in the vault (use these exact titles in [[links]] when an insight relates):
+{{existingTitles}}
+
+Compare the previous insights with the new text and sort each previous insight by its exact title:
+- \`unchanged\`: titles the new text still supports as written
+- \`updated\`: insights the new text still supports but that need a new body. Keep the exact \`title\` and give the full new \`content\`, \`type\`, \`confidence\` and \`tags\` as for a new insight
+- \`obsolete\`: insights the new text no longer supports, each with \`replacedBy\`: the title of the insight that replaces it (an updated or new one), or null
+Then list under \`insights\` only key insights that are new in this version, in the same format as a first extraction: \`title\`, \`content\` (links as "Relationship:: <type> [[Exact Note Title]]", allowed types: {{relationshipTypes}}), \`type\`, \`confidence\`, optional \`importance\` and \`tags\`.
+
+Output only a JSON object, no other text:
+{"unchanged": ["Note Title"], "updated": [{"title": "Note Title", "content": "markdown", "type": "Claim", "confidence": 0.8}], "obsolete": [{"title": "Old Title", "replacedBy": "New Title"}], "insights": [{"title": "New Title", "content": "markdown", "type": "Claim", "confidence": 0.9}]}`,
+  },
+  {
+    id: "link.system",
+    description: "System prompt for adding relationship links to a note.",
+    variables: [],
+    required: [],
+    template: `{{principles}}
+
+You are building an Obsidian vault. Your job is to add connections between notes using wiki links only when they are meaningful and the relationship is nameable.
+
+Rules:
+- Use only Obsidian wiki links: [[Note Title]] (exact note title as it appears in the list). Do not invent titles.
+- Only add a link when you can state the logical relationship in one short phrase. Use the machine-readable format: "Relationship:: <type> [[Note Title]]" (e.g. "Relationship:: Supports [[X]]", "Relationship:: Evidence for [[Y]]"). Allowed types: {{relationshipTypes}}.
+- Place each link in a sentence that conveys the relationship, or on its own line as "Relationship:: Type [[Title]]".
+- If there are no meaningful, nameable connections to other notes in the list, output the exact same markdown unchanged. It is fine to add zero links when nothing fits.
+- Output only the complete markdown (either with new Relationship:: Type [[links]] or unchanged).`,
+  },
+  {
+    id: "link.user",
+    description: "A note and candidate titles to link it to. The model must answer with the full markdown.",
+    variables: ["notePath", "content", "otherTitles"],
+    required: ["content"],
+    template: `Note to update (file: {{notePath}}):
+
+\`\`\`markdown
+{{content}}
+\`\`\`
+
+Other notes in the vault (use these exact titles in [[links]] only when there is a real conceptual connection):
+{{otherTitles}}
+
+If any of these notes genuinely relate to this note's ideas, add links using the format "Relationship:: <type> [[Note Title]]" (e.g. "Relationship:: Evidence for [[X]]" or "Relationship:: Contradicts [[Y]]"). Allowed relationship types: {{relationshipTypes}}. Only add a link when you can name the relationship. If none do, return the exact same markdown unchanged. Output only the markdown, no explanation.`,
+  },
+  {
+    id: "organize.system",
+    description: "System prompt for grouping notes into Maps of Content.",
+    variables: [],
+    required: [],
+    template: `{{principles}}
+
+You are organizing an Obsidian insight vault. Your job is to suggest Map of Content (MOC) notes that group related insights.
+
+Rules:
+- Propose 3-8 MOC notes. Each MOC has a title and a list of existing note titles that belong under that theme/topic.
+- Use only exact note titles from the list provided. Do not invent notes.
+- Each insight note can appear in one or more MOCs if it fits multiple themes.
+- Create MOCs that fit the content domain. Prefer grouping by logical role when note types support it. Examples by role: Assumptions, Evidence, Conclusions, Open questions, Contradictions, Causal chains, Key findings, Methods; for strategy use "Key Assumptions", "Critical Risks", "Options"; for fiction use "Themes", "Characters", "Plot threads"; for research use "Key Findings", "Methods", "Open questions"; for technical use "Concepts", "APIs", "Tutorials". Mix thematic and structural groupings as appropriate.
+- Use both the note type (when provided) and content themes when grouping.
+- Output only valid JSON in this exact format, no other text:
+{"mocs": [{"title": "MOC Title", "noteTitles": ["Exact Note Title 1", "Exact Note Title 2"]}]}`,
+  },
+  {
+    id: "organize.user",
+    description: "Note titles to group. Must ask for the JSON shape {\"mocs\": [...]}.",
+    variables: ["noteTitles", "highGravity", "context"],
+    required: ["noteTitles"],
+    template: `Vault note titles (use these exact strings in noteTitles):
+{{noteTitles}}
+{{highGravity}}
+
+{{context}}
+
+Output only a JSON object: {"mocs": [{"title": "MOC Title", "noteTitles": ["Exact Note Title", ...]}]}`,
+  },
+  {
+    id: "deduce.system",
+    description: "System prompt for drawing new conclusions from linked premises.",
+    variables: [],
+    required: [],
+    template: `You are the deductive agent. Given linked premises and optionally a current conclusion note, infer the unspoken conclusion only if it is new and non-obvious.
+
+Rules:
+- Create ZERO notes if no new logical conclusion can be drawn. Do not create Tautology Notes (simply restating the input).
+- Only output a new conclusion when it clearly follows from the premises and is not already stated in the vault.
+- If you output a conclusion, use exact format: one note with "title" and "content". In content use "Relationship:: Conclusion of [[Premise Title]]" for each premise. Set type to Conclusion.
+- Output only valid JSON: {"conclusion": null} when no new conclusion, or {"conclusion": {"title": "...", "content": "markdown with Relationship:: Conclusion of [[...]] links"}}. No other text.`,
+  },
+  {
+    id: "deduce.user",
+    description: "Premises linking to a note. Must ask for the JSON shape {\"conclusion\": ...}.",
+    variables: ["currentTitle", "premises", "content", "existingTitles"],
+    required: ["premises"],
+    template: `Premises (these link to "{{currentTitle}}" with Evidence for / Supports):
+{{premises}}
+
+Current note ("{{currentTitle}}"):
+{{content}}
+
+Existing note titles in vault (do not create a note that restates or duplicates these): {{existingTitles}}
+
+Given these linked premises, what is the unspoken conclusion? If the conclusion is already stated above or is a tautology, return {"conclusion": null}. Otherwise return {"conclusion": {"title": "Conclusion Title", "content": "markdown with Relationship:: Conclusion of [[Premise Note Title]] for each premise"}}.`,
+  },
+  {
+    id: "induce.system",
+    description: "System prompt for finding themes across the notes of one MOC.",
+    variables: [],
+    required: [],
+    template: `You are the inductive agent. Given a cluster of notes (one MOC), identify recurring patterns, themes, or general hypotheses. Create Meta-Notes (type: Theme) that link back to the supporting evidence.
+
+Rules:
+- Look for cross-pollination: patterns or hypotheses that span multiple notes in the cluster.
+- Create one note per distinct theme or pattern. Each note must link back to the supporting notes using "Relationship:: Evidence for [[Note Title]]" or "Relationship:: Supports [[Note Title]]".
+- Use exact note titles from the list provided. Do not invent titles.
+- If no clear theme or pattern emerges, return {"themes": []}.
+- Output only valid JSON: {"themes": [{"title": "Theme or Hypothesis Title", "content": "markdown with Relationship:: Evidence for [[Supporting Note]] links", "noteTitles": ["Exact Note 1", "Exact Note 2"]}]}. No other text.`,
+  },
+  {
+    id: "induce.user",
+    description: "The notes of one MOC. Must ask for the JSON shape {\"themes\": [...]}.",
+    variables: ["mocTitle", "noteTitles", "mocSummary", "noteContents", "existingTitles"],
+    required: ["noteContents"],
+    template: `MOC: {{mocTitle}}
+Note titles in this cluster: {{noteTitles}}
+{{mocSummary}}Note contents:
+{{noteContents}}
+
+Existing theme/note titles in vault (do not duplicate): {{existingTitles}}
+
+Identify recurring patterns or hypotheses. For each, provide title, content (with Relationship:: Evidence for [[Exact Note Title]] for supporting notes), and noteTitles array. Allowed relationship types: {{relationshipTypes}}.`,
+  },
+  {
+    id: "split.system",
+    description: "System prompt for splitting a note into atomic notes.",
+    variables: [],
+    required: [],
+    template: `{{principles}}
+
+You are building an Obsidian vault. Your job is to make notes atomic: one main concept per note.
+
+Rules:
+- Output only valid markdown. Use Obsidian wiki links: [[Note Title]] for links to other notes.
+- **Never split a Chain of Thought.** If a premise leads directly to a conclusion in the source text, they must stay in the same atomic note to preserve context. Do not split in the middle of a single argument (premise → conclusion). Split only when there are distinct, self-contained concepts.
+- Only split when the note clearly contains multiple distinct, substantial concepts that each deserve their own note.
+- Never create empty, trivial, or filler notes. Each new note must have real substantive content (multiple sentences or a full idea), not a single phrase or heading.
+- When in doubt, do not split. Prefer leaving the note as-is. It is better to have one good note than several pointless ones.
+- If the note is already atomic, very short, or has nothing meaningful to extract, return {"updatedSource": null, "newNotes": []} and stop.`,
+  },
+  {
+    id: "split.user",
+    description: "A note to consider splitting. Must ask for the JSON shape {\"updatedSource\": ..., \"newNotes\": [...]}.",
+    variables: ["notePath", "content"],
+    required: ["content"],
+    template: `Consider this note (file: {{notePath}}):
+
+\`\`\`markdown
+{{content}}
+\`\`\`
+
+Only if this note clearly contains multiple distinct, substantial concepts (each worth a full note with real content):
+1. Propose 1-3 new atomic notes. Each must have substantive "content" (multiple sentences or a complete idea), not just a title or one line.
+2. Rewrite the original note to replace extracted sections with [[Title]] links and keep a short summary.
+
+If the note is already atomic, very short, repetitive, or has nothing meaningful to split out, return exactly: {"updatedSource": null, "newNotes": []}
+Do not create notes that are empty, trivial, or that just restate a heading. When you have said everything possible from this content, return no changes.
+
+Respond in this exact JSON format only, no other text:
+{
+  "updatedSource": "full markdown for the original file, or null if no change",
+  "newNotes": [
+    { "title": "Note Title", "content": "markdown content (must be substantive)" }
+  ]
+}`,
+  },
+  {
+    id: "validate.system",
+    description: "System prompt for documenting a contradiction between two notes.",
+    variables: [],
+    required: [],
+    template: "You document logical conflicts between notes. Output only markdown. Do not fix or remove the contradiction; document it for human or AI review.",
+  },
+  {
+    id: "validate.user",
+    description: "Two contradicting notes to write a synthesis note about. The model must answer with markdown.",
+    variables: ["fromTitle", "toTitle"],
+    required: ["fromTitle", "toTitle"],
+    template: `Two notes contradict each other: "{{fromTitle}}" and "{{toTitle}}". Create a short synthesis note that documents this tension without resolving it. State both positions and that they conflict. Use links: Relationship:: Contradicts [[{{fromTitle}}]] and Relationship:: Contradicts [[{{toTitle}}]]. Output only the markdown body (no frontmatter).`,
+  },
+];
+
+const BY_ID = new Map<string, PromptDefinition>(DEFINITIONS.map((d) => [d.id, d]));
+
+/** Valid overrides for a vault, and why the others were ignored (keyed by file name without .md). */
+export interface PromptOverrides {
+  templates: Partial<Record<PromptId, string>>;
+  errors: Record<string, string[]>;
+}
+
+const overridesByVault = new Map<string, PromptOverrides>();
+
+export function listPromptDefinitions(): PromptDefinition[] {
+  return DEFINITIONS;
+}
+
+export function getPromptDefinition(id: string): PromptDefinition | null {
+  return BY_ID.get(id) ?? null;
+}
+
+/** Every variable a template for this prompt may use, including the global ones. */
+export function promptVariables(id: PromptId): string[] {
+  const def = BY_ID.get(id)!;
+  return [...def.variables, ...GLOBAL_VARIABLES.filter((v) => v !== id)];
+}
+
+/**
+ * Problems with a template for the given prompt: unknown or missing variables, stray braces.
+ * An empty list means the template is usable.
+ */
+export function validatePromptTemplate(id: PromptId, template: string): string[] {
+  const def = BY_ID.get(id)!;
+  if (!template.trim()) return ["template is empty"];
+  const errors: string[] = [];
+  const allowed = new Set(promptVariables(id));
+  const used = new Set<string>();
+  for (const m of template.matchAll(PLACEHOLDER)) used.add(m[1]);
+  for (const name of used) {
+    if (!allowed.has(name)) errors.push(`unknown variable {{${name}}} (allowed: ${[...allowed].join(", ") || "none"})`);
+  }
+  for (const name of def.required) {
+    if (!used.has(name)) errors.push(`missing required variable {{${name}}}`);
+  }
+  const stripped = template.replace(PLACEHOLDER, "");
+  if (stripped.includes("{{") || stripped.includes("}}")) errors.push("unbalanced {{ or }}");
+  return errors;
+}
+
+/** Substitute {{variables}} in one pass, so values containing braces are never expanded. */
+export function renderTemplate(template: string, vars: Record<string, string>): string {
+  return template.replace(PLACEHOLDER, (whole, name: string) => (name in vars ? vars[name] : whole));
+}
+
+/**
+ * Read and validate a vault's prompt overrides. Results are cached per vault; pass `reload` to pick up
+ * files edited on disk. Invalid files are reported in `errors` and the built-in template is used instead.
+ */
+export async function loadPromptOverrides(
+  vaultPath: string,
+  options: { reload?: boolean } = {}
+): Promise<PromptOverrides> {
+  const cached = overridesByVault.get(vaultPath);
+  if (cached && !options.reload) return cached;
+  const files = await loadPromptFiles(vaultPath);
+  const overrides: PromptOverrides = { templates: {}, errors: {} };
+  for (const [name, template] of Object.entries(files)) {
+    if (!BY_ID.has(name)) {
+      overrides.errors[name] = [`unknown prompt id (known: ${DEFINITIONS.map((d) => d.id).join(", ")})`];
+      continue;
+    }
+    const errors = validatePromptTemplate(name as PromptId, template);
+    if (errors.length > 0) overrides.errors[name] = errors;
+    else overrides.templates[name as PromptId] = template;
+  }
+  overridesByVault.set(vaultPath, overrides);
+  return overrides;
+}
+
+/** Override for the vault if there is a valid one, else the built-in template. */
+function templateFor(overrides: PromptOverrides, id: PromptId): string {
+  return overrides.templates[id] ?? BY_ID.get(id)!.template;
+}
+
+/**
+ * Short hash of the templates (override or built-in) behind a step, plus the shared principles when they
+ * use them. Changes whenever a prompt that shapes the step's output changes.
+ */
+export async function promptVersion(vaultPath: string, ids: PromptId[]): Promise<string> {
+  const overrides = await loadPromptOverrides(vaultPath);
+  const texts = ids.map((id) => templateFor(overrides, id));
+  if (texts.some((t) => /\{\{\s*principles\s*\}\}/.test(t))) texts.push(templateFor(overrides, "principles"));
+  return createHash("sha256").update(texts.join("\0")).digest("hex").slice(0, 12);
+}
+
+/**
+ * Render a prompt for the vault with its overrides applied. Global variables are filled in here;
+ * `vars` supplies the template's own variables.
+ */
+export async function renderPrompt(
+  vaultPath: string,
+  id: PromptId,
+  vars: Record<string, string> = {}
+): Promise<string> {
+  const overrides = await loadPromptOverrides(vaultPath);
+  const relationshipTypes = RELATIONSHIP_TAXONOMY.join(", ");
+  const principles = renderTemplate(templateFor(overrides, "principles"), { relationshipTypes });
+  return renderTemplate(templateFor(overrides, id), { ...vars, principles, relationshipTypes });
+}
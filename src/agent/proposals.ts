@@ -0,0 +1,164 @@
+/**
+ * Review of inferred notes. For the note types listed in `reviewNoteTypes`, deduce, induce and validate hold new
+ * notes as proposals (.vaultmaker/proposals) instead of writing them. Approving writes the note, edited or not;
+ * rejecting drops it and remembers its title, so the stages do not propose it again.
+ */
+import path from "path";
+import matter from "gray-matter";
+import { randomUUID } from "crypto";
+import { appendLog } from "./queue.js";
+import { getTaskContext } from "./taskContext.js";
+import { writeNewNote } from "./noteLock.js";
+import { parseRelationshipLinksFromContent } from "./prompts.js";
+import { createKeyedMutex } from "../lib/mutex.js";
+import { loadAgentConfig } from "../storage/agentConfig.js";
+import { reindexNoteContent } from "../retrieval/retrieve.js";
+import {
+  listProposals,
+  loadProposal,
+  saveProposal,
+  deleteProposal,
+  loadRejectedProposals,
+  saveRejectedProposals,
+  type Proposal,
+} from "../storage/proposals.js";
+import type { InferredNoteType } from "./types.js";
+
+/** Serializes proposal and rejection updates per vault, so parallel tasks never propose the same note twice. */
+const proposalLock = createKeyedMutex();
+
+export type ProposalResult =
+  | { id: string; ok: true; path: string }
+  | { id: string; ok: false; reason: "missing" | "conflict"; error: string };
+
+/** Title and body a reviewer can change before approving. */
+export interface ProposalEdits {
+  title?: string;
+  content?: string;
+}
+
+/** Titles compare case- and whitespace-insensitively. */
+function titleKey(title: string): string {
+  return title.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+/** True when new notes of this type are held for review in the vault. */
+export async function holdsForReview(vaultPath: string, noteType: InferredNoteType): Promise<boolean> {
+  return (await loadAgentConfig(vaultPath)).reviewNoteTypes.includes(noteType);
+}
+
+/**
+ * Titles of open and rejected proposals. The stages treat them as taken, so a note awaiting review or
+ * turned down is not proposed again.
+ */
+export async function titlesHeldForReview(vaultPath: string): Promise<string[]> {
+  const [open, rejected] = await Promise.all([listProposals(vaultPath), loadRejectedProposals(vaultPath)]);
+  return [...new Set([...open.map((p) => p.title), ...rejected.map((r) => r.title)])];
+}
+
+/** True if `title` is among `held` (see titlesHeldForReview). */
+export function isHeldTitle(held: string[], title: string): boolean {
+  const key = titleKey(title);
+  return held.some((t) => titleKey(t) === key);
+}
+
+/** Hold a note for review. Returns false if a proposal for that title is already open or was rejected. */
+export async function proposeNote(
+  vaultPath: string,
+  note: { noteType: InferredNoteType; path: string; content: string; premises: string[]; derivedFrom: string }
+): Promise<boolean> {
+  const rel = note.path.split(path.sep).join("/");
+  const title = path.basename(rel, ".md");
+  return proposalLock.run(vaultPath, async () => {
+    if (isHeldTitle(await titlesHeldForReview(vaultPath), title)) return false;
+    const context = getTaskContext();
+    const now = new Date().toISOString();
+    const proposal: Proposal = {
+      id: randomUUID().slice(0, 8),
+      noteType: note.noteType,
+      title,
+      path: rel,
+      content: note.content,
+      premises: [...new Set(note.premises)],
+      links: parseRelationshipLinksFromContent((matter(note.content).content ?? "").trim()),
+      derivedFrom: note.derivedFrom,
+      runId: context?.runId ?? null,
+      taskId: context?.taskId ?? null,
+      stage: context?.stage ?? null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await saveProposal(vaultPath, proposal);
+    appendLog(`Proposed ${note.noteType}: ${rel} (awaiting review)`);
+    return true;
+  });
+}
+
+/** The proposal with a new title (same folder) and/or body; its properties are kept. */
+function applyEdits(proposal: Proposal, edits: ProposalEdits): Proposal {
+  let { title, path: rel, content } = proposal;
+  const newTitle = edits.title?.replace(/[/\\?%*:|"<>]/g, "-").trim();
+  if (newTitle && newTitle !== title) {
+    title = newTitle;
+    rel = path.posix.join(path.posix.dirname(rel), `${newTitle}.md`);
+  }
+  if (edits.content != null) {
+    const data = matter(content).data as Record<string, unknown>;
+    content = matter.stringify(edits.content.trim(), data, { delimiters: ["---", "---"] });
+  }
+  return {
+    ...proposal,
+    title,
+    path: rel,
+    content,
+    links: parseRelationshipLinksFromContent((matter(content).content ?? "").trim()),
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/** Save a reviewer's edits without approving. Returns null for an unknown proposal. */
+export async function editProposal(vaultPath: string, id: string, edits: ProposalEdits): Promise<Proposal | null> {
+  return proposalLock.run(vaultPath, async () => {
+    const proposal = await loadProposal(vaultPath, id);
+    if (!proposal) return null;
+    const edited = applyEdits(proposal, edits);
+    await saveProposal(vaultPath, edited);
+    return edited;
+  });
+}
+
+/** Write the proposed note, with any last edits. A note already at its path is a conflict; the proposal stays. */
+export async function approveProposal(vaultPath: string, id: string, edits: ProposalEdits = {}): Promise<ProposalResult> {
+  return proposalLock.run(vaultPath, async () => {
+    const proposal = await loadProposal(vaultPath, id);
+    if (!proposal) return { id, ok: false, reason: "missing", error: "No proposal with that id" };
+    const note = applyEdits(proposal, edits);
+    if (!(await writeNewNote(vaultPath, note.path, note.content))) {
+      if (edits.title || edits.content != null) await saveProposal(vaultPath, note);
+      return { id, ok: false, reason: "conflict", error: `A note already exists at ${note.path}` };
+    }
+    await reindexNoteContent(vaultPath, note.path, note.content);
+    await deleteProposal(vaultPath, id);
+    appendLog(`Approved ${note.noteType}: ${note.path}`);
+    return { id, ok: true, path: note.path };
+  });
+}
+
+/** Drop a proposal and remember its title so it is not proposed again. */
+export async function rejectProposal(vaultPath: string, id: string): Promise<ProposalResult> {
+  return proposalLock.run(vaultPath, async () => {
+    const proposal = await loadProposal(vaultPath, id);
+    if (!proposal) return { id, ok: false, reason: "missing", error: "No proposal with that id" };
+    const rejected = await loadRejectedProposals(vaultPath);
+    rejected.push({
+      noteType: proposal.noteType,
+      title: proposal.title,
+      derivedFrom: proposal.derivedFrom,
+      rejectedAt: new Date().toISOString(),
+    });
+    await saveRejectedProposals(vaultPath, rejected);
+    await deleteProposal(vaultPath, id);
+    appendLog(`Rejected ${proposal.noteType}: ${proposal.path}`);
+    return { id, ok: true, path: proposal.path };
+  });
+}
@@ -0,0 +1,62 @@
+/**
+ * Provenance properties for generated notes: which model, prompt version, run and stage produced a note,
+ * and from which source chunk. Kept flat so Obsidian shows them as properties and they can be filtered on.
+ */
+import { readFile } from "fs/promises";
+import matter from "gray-matter";
+import type { LLMClient } from "../llm/client.js";
+import { getTaskContext } from "./taskContext.js";
+
+export interface ProvenanceSource {
+  sourceId: string;
+  /** 0-based index of the chunk of the source text the note was extracted from. */
+  chunk: number;
+}
+
+/**
+ * Properties to merge after a note's own properties. `created` is kept from the previous version of the
+ * note when it is being rewritten; `updated` is always now.
+ */
+export function provenanceProperties(
+  llm: LLMClient,
+  promptVersion: string,
+  options: { source?: ProvenanceSource; created?: string | null } = {}
+): Record<string, unknown> {
+  const ctx = getTaskContext();
+  const now = new Date().toISOString();
+  const props: Record<string, unknown> = {
+    model: llm.model ?? "unknown",
+    prompt_version: promptVersion,
+  };
+  if (ctx) {
+    props.run_id = ctx.runId;
+    if (ctx.stage) props.stage = ctx.stage;
+  }
+  if (options.source) {
+    props.source_id = options.source.sourceId;
+    props.chunk = options.source.chunk;
+  }
+  props.created = options.created ?? now;
+  props.updated = now;
+  return props;
+}
+
+/** `created` of an existing note, or null when the file is missing or has no such property. */
+export async function readCreated(fullPath: string): Promise<string | null> {
+  try {
+    const data = matter(await readFile(fullPath, "utf-8")).data as Record<string, unknown>;
+    if (typeof data.created === "string") return data.created;
+    if (data.created instanceof Date) return data.created.toISOString();
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/** Set `updated` to now on a generated note (one with `created`); other markdown is returned unchanged. */
+export function touchUpdated(markdown: string): string {
+  const parsed = matter(markdown);
+  const data = parsed.data as Record<string, unknown>;
+  if (data.created == null) return markdown;
+  return matter.stringify(parsed.content, { ...data, updated: new Date().toISOString() }, { delimiters: ["---", "---"] });
+}
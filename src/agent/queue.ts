@@ -1,33 +1,56 @@
-import type { QueuedTask } from "./types.js";
+import { randomUUID } from "crypto";
+import type { FailedTask, QueuedTask } from "./types.js";
 import type { Stage } from "./types.js";
 import { notifyAgentUpdate } from "./events.js";
+import { recordEvent, type EventDetails } from "./eventLog.js";
+import { vaultState } from "./vaultScope.js";
 
-const queue: QueuedTask[] = [];
+/** The current vault's queue, failed tasks and activity tail. */
+const scope = vaultState(() => ({ queue: [] as QueuedTask[], failed: [] as FailedTask[], log: [] as string[] }));
 const maxLogLines = 100;
 
 function notify(): void {
   notifyAgentUpdate();
 }
 
+function withId(task: QueuedTask): QueuedTask {
+  return task.id ? task : { ...task, id: randomUUID().slice(0, 8) };
+}
+
 export function enqueue(task: QueuedTask): void {
-  queue.push(task);
+  const { queue } = scope();
+  queue.push(withId(task));
   notify();
 }
 
 export function enqueueMany(tasks: QueuedTask[]): void {
-  queue.push(...tasks);
+  const { queue } = scope();
+  queue.push(...tasks.map(withId));
+  notify();
+}
+
+/** Put a task back at the head of the queue (e.g. when it was interrupted before finishing). */
+export function enqueueFront(task: QueuedTask): void {
+  const { queue } = scope();
+  queue.unshift(withId(task));
   notify();
 }
 
 export function dequeue(): QueuedTask | undefined {
+  const { queue } = scope();
   const out = queue.shift();
   if (out) notify();
   return out;
 }
 
-/** Dequeue the first task that matches the given stage. */
+/** Dequeue the highest-priority task of the given stage; among equal priorities, the first in the queue. */
 export function dequeueForStage(stage: Stage): QueuedTask | undefined {
-  const idx = queue.findIndex((t) => t.stage === stage);
+  const { queue } = scope();
+  let idx = -1;
+  for (let i = 0; i < queue.length; i++) {
+    if (queue[i].stage !== stage) continue;
+    if (idx === -1 || (queue[i].priority ?? 0) > (queue[idx].priority ?? 0)) idx = i;
+  }
   if (idx === -1) return undefined;
   const out = queue.splice(idx, 1)[0];
   notify();
@@ -36,43 +59,109 @@ export function dequeueForStage(stage: Stage): QueuedTask | undefined {
 
 /** True if there is at least one task for the given stage. */
 export function hasTaskForStage(stage: Stage): boolean {
+  const { queue } = scope();
   return queue.some((t) => t.stage === stage);
 }
 
+/** Remove a queued task by id and return it. */
+export function removeTask(id: string): QueuedTask | undefined {
+  const { queue } = scope();
+  const idx = queue.findIndex((t) => t.id === id);
+  if (idx === -1) return undefined;
+  const out = queue.splice(idx, 1)[0];
+  notify();
+  return out;
+}
+
+/** Move a queued task to the head of the queue. Returns false if there is no task with that id. */
+export function moveTaskToFront(id: string): boolean {
+  const task = removeTask(id);
+  if (!task) return false;
+  enqueueFront(task);
+  return true;
+}
+
+/** Set a queued task's priority. Returns false if there is no task with that id. */
+export function setTaskPriority(id: string, priority: number): boolean {
+  const { queue } = scope();
+  const task = queue.find((t) => t.id === id);
+  if (!task) return false;
+  task.priority = priority;
+  notify();
+  return true;
+}
+
 export function getQueueLength(): number {
+  const { queue } = scope();
   return queue.length;
 }
 
 export function clearQueue(): void {
+  const { queue } = scope();
   queue.length = 0;
   notify();
 }
 
 /** Snapshot of the queue for persistence. */
 export function getQueueSnapshot(): QueuedTask[] {
+  const { queue } = scope();
   return queue.map((t) => ({ ...t }));
 }
 
 /** Restore queue from a saved snapshot (replaces current queue). */
 export function restoreQueue(tasks: QueuedTask[]): void {
+  const { queue } = scope();
   queue.length = 0;
-  queue.push(...tasks);
+  queue.push(...tasks.map(withId));
+  notify();
+}
+
+/** Move a task that has used up its attempts to the failed list. */
+export function addFailedTask(task: QueuedTask): void {
+  const { failed } = scope();
+  failed.push({ ...task, id: task.id ?? randomUUID().slice(0, 8), failedAt: new Date().toISOString() });
+  notify();
+}
+
+/** Snapshot of the failed list for persistence and display. */
+export function getFailedTasks(): FailedTask[] {
+  const { failed } = scope();
+  return failed.map((t) => ({ ...t }));
+}
+
+/** Remove a failed task by id and return it. */
+export function takeFailedTask(id: string): FailedTask | undefined {
+  const { failed } = scope();
+  const idx = failed.findIndex((t) => t.id === id);
+  if (idx === -1) return undefined;
+  const out = failed.splice(idx, 1)[0];
   notify();
+  return out;
 }
 
-const log: string[] = [];
+/** Restore the failed list from a saved snapshot (replaces the current list). */
+export function restoreFailedTasks(tasks: FailedTask[]): void {
+  const { failed } = scope();
+  failed.length = 0;
+  failed.push(...tasks);
+  notify();
+}
 
-export function appendLog(line: string): void {
+/** Add a line to the in-memory activity tail and to the vault's event log. */
+export function appendLog(line: string, details?: EventDetails): void {
+  const { log } = scope();
+  recordEvent(line, details);
   log.push(line);
   if (log.length > maxLogLines) log.shift();
   notify();
 }
 
 export function getLog(): string[] {
-  return [...log];
+  return [...scope().log];
 }
 
 export function clearLog(): void {
+  const { log } = scope();
   log.length = 0;
   notify();
 }
@@ -0,0 +1,177 @@
+/**
+ * Source files that disappear or move. A removed source is dropped from sourceIndex.json, the staged sources,
+ * the queue and the processed list, and the notes extracted from it (by their `source_id` property) get
+ * `source_status: removed`, or with `removedSourcePolicy: "archive"` are moved under Archive/. A moved or
+ * renamed source is recognised by its content hash and keeps its id and notes; only its path and name change.
+ * A source whose content changes keeps its id too: the staged copy gets a new version and is re-extracted
+ * against the notes from the previous one.
+ */
+import { access, readdir, stat, constants } from "fs/promises";
+import path from "path";
+import matter from "gray-matter";
+import { appendLog } from "./queue.js";
+import { forgetSources, enqueueSourceForProcessing } from "./loop.js";
+import { notesFromSource } from "./insights.js";
+import { writeNewNote, withNoteLock } from "./noteLock.js";
+import { mayDeleteNote } from "./humanEdits.js";
+import { writeVaultFile, deleteVaultFile, readVaultNote } from "./vaultWrite.js";
+import { asManualAction } from "./journal.js";
+import { loadAgentConfig } from "../storage/agentConfig.js";
+import { loadSource, saveSource, deleteSource, generateSourceId } from "../storage/sources.js";
+import type { SourceIndexData } from "../storage/sourceIndex.js";
+import { reindexNoteContent } from "../retrieval/retrieve.js";
+
+const ARCHIVE_DIR = "Archive";
+
+async function exists(fullPath: string): Promise<boolean> {
+  try {
+    await access(fullPath);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function withProperties(markdown: string, properties: Record<string, unknown>): string {
+  const parsed = matter(markdown);
+  return matter.stringify(parsed.content, { ...parsed.data, ...properties }, { delimiters: ["---", "---"] });
+}
+
+/**
+ * Rewrite a note under its lock, from its content at that point, so a parallel task's write is not lost.
+ * Returns false when the note is gone meanwhile, else what `rewrite` returns.
+ */
+async function rewriteNote(
+  vaultPath: string,
+  rel: string,
+  rewrite: (content: string) => Promise<boolean>
+): Promise<boolean> {
+  return withNoteLock(vaultPath, rel, async () => {
+    let content: string;
+    try {
+      content = await readVaultNote(vaultPath, rel);
+    } catch {
+      return false;
+    }
+    return rewrite(content);
+  });
+}
+
+/**
+ * The indexed path of a source whose file is gone but had this content, i.e. the file now at `rel` was moved
+ * or renamed from there. Null if there is none.
+ */
+export async function findMovedSource(index: SourceIndexData, rel: string, contentHash: string): Promise<string | null> {
+  for (const [oldRel, entry] of Object.entries(index.entries)) {
+    if (oldRel === rel || entry.contentHash !== contentHash) continue;
+    if (!(await exists(path.join(index.sourceDir, oldRel)))) return oldRel;
+  }
+  return null;
+}
+
+/** Move a source's index entry (the caller saves the index) and staged copy; its notes' `source` follows a new name. */
+export async function moveSource(vaultPath: string, index: SourceIndexData, fromRel: string, toRel: string): Promise<void> {
+  const entry = index.entries[fromRel];
+  if (!entry) return;
+  delete index.entries[fromRel];
+  index.entries[toRel] = entry;
+  const name = path.basename(toRel, path.extname(toRel)) || toRel;
+  const staged = await loadSource(vaultPath, entry.sourceId);
+  if (staged) {
+    await saveSource(vaultPath, entry.sourceId, { path: toRel, name, text: staged.text, version: staged.version });
+    if (staged.name !== name) {
+      await asManualAction(async () => {
+        for (const note of await notesFromSource(vaultPath, entry.sourceId)) {
+          await rewriteNote(vaultPath, note.rel, (content) =>
+            writeVaultFile(vaultPath, note.rel, withProperties(content, { source: name }))
+          );
+        }
+      });
+    }
+  }
+  appendLog(`Source moved: ${fromRel} → ${toRel}`);
+}
+
+/**
+ * Stage a new or changed source and queue its extraction (the caller saves the index). A source already in
+ * the index keeps its id and gets the next version.
+ */
+export async function stageSource(
+  vaultPath: string,
+  index: SourceIndexData,
+  rel: string,
+  text: string,
+  contentHash: string
+): Promise<void> {
+  const existing = index.entries[rel];
+  const id = existing?.sourceId ?? generateSourceId();
+  const staged = existing ? await loadSource(vaultPath, id) : null;
+  const name = path.basename(rel, path.extname(rel)) || rel;
+  await saveSource(vaultPath, id, { path: rel, name, text, version: staged ? (staged.version ?? 1) + 1 : 1 });
+  enqueueSourceForProcessing(id);
+  index.entries[rel] = { sourceId: id, contentHash };
+}
+
+/** Move a note under Archive/, keeping its folder. Protected notes stay where they are. */
+async function archiveNote(vaultPath: string, rel: string, content: string): Promise<boolean> {
+  if (!(await mayDeleteNote(vaultPath, rel))) return false;
+  const archived = path.posix.join(ARCHIVE_DIR, rel);
+  if (!(await writeNewNote(vaultPath, archived, content))) return false;
+  await deleteVaultFile(vaultPath, rel);
+  await reindexNoteContent(vaultPath, archived, content);
+  return true;
+}
+
+/** Forget a source whose file is gone (the caller saves the index) and mark or archive its notes. */
+export async function removeSource(vaultPath: string, index: SourceIndexData, rel: string): Promise<void> {
+  const entry = index.entries[rel];
+  if (!entry) return;
+  delete index.entries[rel];
+  await deleteSource(vaultPath, entry.sourceId);
+  await forgetSources([entry.sourceId]);
+  const archive = (await loadAgentConfig(vaultPath)).removedSourcePolicy === "archive";
+  let handled = 0;
+  await asManualAction(async () => {
+    for (const note of await notesFromSource(vaultPath, entry.sourceId)) {
+      const done = await rewriteNote(vaultPath, note.rel, (content) => {
+        const marked = withProperties(content, { source_status: "removed" });
+        return archive ? archiveNote(vaultPath, note.rel, marked) : writeVaultFile(vaultPath, note.rel, marked);
+      });
+      if (done) handled++;
+    }
+  });
+  appendLog(`Source removed: ${rel} (${handled} note(s) ${archive ? "archived" : "marked"})`);
+}
+
+/**
+ * Throw unless the source folder is there and readable. With indexed sources, an empty folder counts as
+ * unavailable too (e.g. an unmounted drive), so it is never read as every source having been deleted.
+ */
+export async function assertSourceDirAvailable(sourceDir: string, indexedCount: number = 0): Promise<void> {
+  try {
+    await access(sourceDir, constants.R_OK);
+    if (!(await stat(sourceDir)).isDirectory()) throw new Error("not a folder");
+  } catch (err) {
+    throw new Error(`Source folder ${sourceDir} is not available (${(err as Error).message})`);
+  }
+  if (indexedCount > 0 && (await readdir(sourceDir)).length === 0) {
+    throw new Error(
+      `Source folder ${sourceDir} is empty; leaving its ${indexedCount} indexed source(s) alone in case it is not mounted`
+    );
+  }
+}
+
+/**
+ * Remove every indexed source whose file is gone, e.g. deleted while the server was off. Returns how many.
+ * Throws, removing nothing, when the source folder itself is missing, unreadable or empty.
+ */
+export async function removeVanishedSources(vaultPath: string, index: SourceIndexData): Promise<number> {
+  await assertSourceDirAvailable(index.sourceDir, Object.keys(index.entries).length);
+  let removed = 0;
+  for (const rel of Object.keys(index.entries)) {
+    if (await exists(path.join(index.sourceDir, rel))) continue;
+    await removeSource(vaultPath, index, rel);
+    removed++;
+  }
+  return removed;
+}
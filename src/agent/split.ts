@@ -1,20 +1,33 @@
-import { readFile, writeFile, mkdir } from "fs/promises";
 import path from "path";
+import matter from "gray-matter";
 import type { LLMClient } from "../llm/client.js";
 import { appendLog } from "./queue.js";
-import { SCIENTIFIC_REASONING_PRINCIPLES, stripMarkdownFences } from "./prompts.js";
-
-const SYSTEM_PROMPT = `${SCIENTIFIC_REASONING_PRINCIPLES}
-
-You are building an Obsidian vault. Your job is to make notes atomic: one main concept per note.
-
-Rules:
-- Output only valid markdown. Use Obsidian wiki links: [[Note Title]] for links to other notes.
-- **Never split a Chain of Thought.** If a premise leads directly to a conclusion in the source text, they must stay in the same atomic note to preserve context. Do not split in the middle of a single argument (premise → conclusion). Split only when there are distinct, self-contained concepts.
-- Only split when the note clearly contains multiple distinct, substantial concepts that each deserve their own note.
-- Never create empty, trivial, or filler notes. Each new note must have real substantive content (multiple sentences or a full idea), not a single phrase or heading.
-- When in doubt, do not split. Prefer leaving the note as-is. It is better to have one good note than several pointless ones.
-- If the note is already atomic, very short, or has nothing meaningful to extract, return {"updatedSource": null, "newNotes": []} and stop.`;
+import { stripMarkdownFences } from "./prompts.js";
+import { renderPrompt, promptVersion } from "./promptTemplates.js";
+import { provenanceProperties, touchUpdated, type ProvenanceSource } from "./provenance.js";
+import { listMarkdownFiles, extractNoteTitlesFromVault } from "./link.js";
+import { noteOwner } from "./humanEdits.js";
+import { writeNewNote } from "./noteLock.js";
+import { writeVaultFile, readVaultNote } from "./vaultWrite.js";
+import { completeStructured } from "../llm/structured.js";
+import * as s from "../llm/schema.js";
+import { reindexNoteContent } from "../retrieval/retrieve.js";
+
+const INSIGHTS_DIR = "Insights";
+const MOC_DIR = "MOCs";
+const MIN_NOTE_LENGTH = 80;
+/** Properties a split-out note takes over from the note it was split from. */
+const INHERITED_PROPERTIES = ["type", "source", "tags"] as const;
+
+const SplitResponseSchema = s.object({
+  updatedSource: s.optional(s.nullable(s.string())),
+  newNotes: s.array(
+    s.object({
+      title: s.string({ nonEmpty: true }),
+      content: s.string(),
+    })
+  ),
+});
 
 export interface SplitResult {
   updatedSource: string | null;
@@ -22,85 +35,115 @@ export interface SplitResult {
   createdPaths?: string[];
 }
 
+/**
+ * True if a note is worth asking the model to split: its body is longer than `maxChars` or it has two or
+ * more headings (likely several concepts). MOCs and the agent's own files are never candidates.
+ */
+export function isAtomizeCandidate(relativePath: string, content: string, maxChars: number): boolean {
+  const rel = relativePath.split(path.sep).join("/");
+  if (rel.startsWith(`${MOC_DIR}/`) || rel.startsWith(".vaultmaker/")) return false;
+  const body = (matter(content).content ?? "").trim();
+  const headings = body.match(/^#{1,3} \S/gm)?.length ?? 0;
+  return body.length > maxChars || headings >= 2;
+}
+
+/** The parent's provenance source, so split-out notes still trace back to the source chunk. */
+function parentSource(data: Record<string, unknown>): ProvenanceSource | undefined {
+  if (typeof data.source_id !== "string" || typeof data.chunk !== "number") return undefined;
+  return { sourceId: data.source_id, chunk: data.chunk };
+}
+
+/**
+ * Ask the model to split a note into atomic notes. New notes go under Insights/ with the parent's `type`,
+ * `source` and `tags` plus their own provenance, and are indexed; titles already in the vault are skipped.
+ * The parent is rewritten (its properties kept) only when every proposed note was written or already
+ * existed, so no content is lost.
+ */
 export async function trySplitNote(
   llm: LLMClient,
   vaultPath: string,
   relativePath: string,
   content: string
 ): Promise<SplitResult> {
-  const fullPath = path.join(vaultPath, relativePath);
-  const fileName = path.basename(relativePath, path.extname(relativePath));
-
-  const userPrompt = `Consider this note (file: ${relativePath}):
-
-\`\`\`markdown
-${content}
-\`\`\`
-
-Only if this note clearly contains multiple distinct, substantial concepts (each worth a full note with real content):
-1. Propose 1-3 new atomic notes. Each must have substantive "content" (multiple sentences or a complete idea), not just a title or one line.
-2. Rewrite the original note to replace extracted sections with [[Title]] links and keep a short summary.
-
-If the note is already atomic, very short, repetitive, or has nothing meaningful to split out, return exactly: {"updatedSource": null, "newNotes": []}
-Do not create notes that are empty, trivial, or that just restate a heading. When you have said everything possible from this content, return no changes.
+  const parent = matter(content);
+  const parentData = parent.data as Record<string, unknown>;
+  const parentTitle = path.basename(relativePath, ".md");
 
-Respond in this exact JSON format only, no other text:
-{
-  "updatedSource": "full markdown for the original file, or null if no change",
-  "newNotes": [
-    { "title": "Note Title", "content": "markdown content (must be substantive)" }
-  ]
-}`;
+  const userPrompt = await renderPrompt(vaultPath, "split.user", {
+    notePath: relativePath,
+    content: parent.content.trim(),
+  });
 
-  const raw = await llm.complete(
+  const parsed = await completeStructured(
+    llm,
     [
-      { role: "system", content: SYSTEM_PROMPT },
+      { role: "system", content: await renderPrompt(vaultPath, "split.system") },
       { role: "user", content: userPrompt },
     ],
-    { maxTokens: 4096 }
+    SplitResponseSchema,
+    { label: `split ${relativePath}`, maxTokens: 4096 }
   );
 
-  const jsonMatch = raw.match(/\{[\s\S]*\}/);
-  if (!jsonMatch) {
-    appendLog(`Split: no JSON in response for ${relativePath}`);
-    return { updatedSource: null, newNotes: [], createdPaths: [] };
-  }
+  const newNotes = parsed.newNotes;
+  const updatedSource = parsed.updatedSource ?? null;
 
-  let parsed: { updatedSource: string | null; newNotes: { title: string; content: string }[] };
-  try {
-    parsed = JSON.parse(jsonMatch[0]) as SplitResult;
-  } catch {
-    appendLog(`Split: invalid JSON for ${relativePath}`);
-    return { updatedSource: null, newNotes: [], createdPaths: [] };
+  const existingTitles = new Set(extractNoteTitlesFromVault(await listMarkdownFiles(vaultPath)));
+  const version = await promptVersion(vaultPath, ["split.system", "split.user"]);
+  const inherited: Record<string, unknown> = {};
+  for (const key of INHERITED_PROPERTIES) {
+    if (parentData[key] != null) inherited[key] = parentData[key];
   }
-
-  const newNotes = Array.isArray(parsed.newNotes) ? parsed.newNotes : [];
-  const updatedSource = typeof parsed.updatedSource === "string" ? parsed.updatedSource : null;
-
-  if (updatedSource != null) {
-    await writeFile(fullPath, stripMarkdownFences(updatedSource), "utf-8");
-    appendLog(`Updated: ${relativePath}`);
-  }
-
-  const MIN_NOTE_LENGTH = 80;
   const createdPaths: string[] = [];
+  let dropped = false;
   for (const note of newNotes) {
     const text = stripMarkdownFences((note.content || "").trim());
-    if (!note.title || !text || text.length < MIN_NOTE_LENGTH) continue;
+    if (!note.title || !text || text.length < MIN_NOTE_LENGTH) {
+      dropped = true;
+      continue;
+    }
     const safeTitle = note.title.replace(/[/\\?%*:|"<>]/g, "-").trim() || "Untitled";
-    const dir = path.dirname(fullPath);
-    await mkdir(dir, { recursive: true });
-    const newPath = path.join(dir, `${safeTitle}.md`);
-    await writeFile(newPath, text, "utf-8");
-    const rel = path.relative(vaultPath, newPath);
+    if (existingTitles.has(safeTitle)) continue;
+    const frontmatter = {
+      ...inherited,
+      split_from: `[[${parentTitle}]]`,
+      ...provenanceProperties(llm, version, { source: parentSource(parentData) }),
+    };
+    const output = matter.stringify(text, frontmatter, { delimiters: ["---", "---"] });
+    const rel = path.join(INSIGHTS_DIR, `${safeTitle}.md`);
+    if (!(await writeNewNote(vaultPath, rel, output))) continue;
+    existingTitles.add(safeTitle);
     createdPaths.push(rel);
     appendLog(`Created: ${rel}`);
+    await reindexNoteContent(vaultPath, rel, output);
+  }
+
+  if (updatedSource != null && createdPaths.length > 0 && !dropped) {
+    const body = stripMarkdownFences(updatedSource.trim());
+    const updated =
+      Object.keys(parentData).length > 0
+        ? touchUpdated(matter.stringify(body, parentData, { delimiters: ["---", "---"] }))
+        : body;
+    if (await writeVaultFile(vaultPath, relativePath, updated)) {
+      appendLog(`Updated: ${relativePath}`);
+      await reindexNoteContent(vaultPath, relativePath, updated);
+    }
   }
 
   return { updatedSource, newNotes, createdPaths };
 }
 
+/** Atomize stage task: split one note. Locked notes and notes edited outside the agent are left whole. */
+export async function atomizeNote(llm: LLMClient, vaultPath: string, relativePath: string): Promise<string[]> {
+  const content = await readNote(vaultPath, relativePath);
+  const owner = await noteOwner(vaultPath, relativePath, content);
+  if (owner !== "agent") {
+    appendLog(`Skipped ${relativePath}: ${owner === "locked" ? "locked" : "edited outside the agent"}`);
+    return [];
+  }
+  const result = await trySplitNote(llm, vaultPath, relativePath, content);
+  return result.createdPaths ?? [];
+}
+
 export async function readNote(vaultPath: string, relativePath: string): Promise<string> {
-  const full = path.join(vaultPath, relativePath);
-  return readFile(full, "utf-8");
+  return readVaultNote(vaultPath, relativePath);
 }
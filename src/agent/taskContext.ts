@@ -0,0 +1,33 @@
+/**
+ * Async context for the task currently being run, so lower layers (usage accounting, logging)
+ * can attribute work to a run, stage and note or source without threading it through every call.
+ */
+import { AsyncLocalStorage } from "async_hooks";
+import type { Stage, TaskKind } from "./types.js";
+import type { StageOptions } from "../storage/agentConfig.js";
+
+export interface TaskContext {
+  runId: string;
+  /** Id of the queued task being run. */
+  taskId?: string;
+  stage: Stage | null;
+  taskKind: TaskKind | null;
+  /** Source id or note/MOC the task works on, when it has one. */
+  target: string | null;
+  /** Aborted when the agent is stopped, cancelling in-flight LLM calls. */
+  signal?: AbortSignal;
+  /** Stage vault writes for review instead of writing them; see vaultWrite.ts. */
+  dryRun?: boolean;
+  /** Options of the pipeline step the task belongs to; see loadStageConfig. */
+  stageOptions?: StageOptions;
+}
+
+const storage = new AsyncLocalStorage<TaskContext>();
+
+export function runInTaskContext<T>(context: TaskContext, fn: () => Promise<T>): Promise<T> {
+  return storage.run(context, fn);
+}
+
+export function getTaskContext(): TaskContext | undefined {
+  return storage.getStore();
+}
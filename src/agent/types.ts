@@ -1,7 +1,8 @@
-export type AgentStatus = "idle" | "processing" | "stopping";
+export type AgentStatus = "idle" | "processing" | "stopping" | "paused";
 
 export type Stage =
   | "extract"
+  | "atomize"
   | "organize"
   | "connect"
   | "deduce"
@@ -11,6 +12,7 @@ export type Stage =
 
 export const STAGES: Stage[] = [
   "extract",
+  "atomize",
   "organize",
   "connect",
   "deduce",
@@ -19,10 +21,18 @@ export const STAGES: Stage[] = [
   "validate",
 ];
 
+/** Types of the notes the agent infers (deduce, induce, validate); each can be held for review. */
+export type InferredNoteType = "Conclusion" | "Theme" | "Conflict";
+
+export const INFERRED_NOTE_TYPES: InferredNoteType[] = ["Conclusion", "Theme", "Conflict"];
+
 export interface AgentState {
   status: AgentStatus;
   currentTask: string | null;
   currentStage: Stage | null;
+  /** Pipeline being run or paused, and the index of its current step (stages may repeat). */
+  pipeline: { name: string; stages: Stage[] } | null;
+  currentStep: number | null;
   log: string[];
   vaultPath: string | null;
   vaultName: string | null;
@@ -31,6 +41,7 @@ export interface AgentState {
 
 export type TaskKind =
   | "extract-insights"
+  | "split"
   | "organize-vault"
   | "link"
   | "organize-moc"
@@ -38,10 +49,29 @@ export type TaskKind =
   | "induce"
   | "validate";
 
+export const TASK_KINDS: TaskKind[] = [
+  "extract-insights",
+  "split",
+  "organize-vault",
+  "link",
+  "organize-moc",
+  "deduce",
+  "induce",
+  "validate",
+];
+
 export interface QueuedTask {
+  /** Assigned when the task is enqueued; identifies it in the failed-task list. */
+  id?: string;
   kind: TaskKind;
   stage: Stage;
   path?: string;
+  /** Higher runs first within its stage; default 0. */
+  priority?: number;
+  /** Failed attempts so far. */
+  attempts?: number;
+  /** Message of the most recent failure. */
+  lastError?: string;
   payload?: {
     sourceId?: string;
     mocPath?: string;
@@ -50,3 +80,9 @@ export interface QueuedTask {
     mocSummary?: string;
   };
 }
+
+/** A task that failed `maxTaskAttempts` times. Kept in progress.json until retried or discarded. */
+export interface FailedTask extends QueuedTask {
+  id: string;
+  failedAt: string;
+}
@@ -5,7 +5,11 @@ import type { LLMClient } from "../llm/client.js";
 import { appendLog } from "./queue.js";
 import { listMarkdownFiles, readNote } from "./link.js";
 import { parseRelationshipLinksFromContent, stripMarkdownFences } from "./prompts.js";
-import { loadAgentConfig } from "../storage/agentConfig.js";
+import { renderPrompt, promptVersion } from "./promptTemplates.js";
+import { provenanceProperties } from "./provenance.js";
+import { writeVaultFile } from "./vaultWrite.js";
+import { holdsForReview, isHeldTitle, proposeNote, titlesHeldForReview } from "./proposals.js";
+import { loadStageConfig } from "./pipeline.js";
 import { indexNote } from "../retrieval/embeddingIndex.js";
 import { getEmbeddingClient } from "../retrieval/retrieve.js";
 
@@ -99,17 +103,13 @@ async function createSynthesisNote(
   existingTitles: Set<string>
 ): Promise<string | null> {
   const safeName = `Conflict-${fromTitle}-vs-${toTitle}`.replace(/[/\\?%*:|"<>]/g, "-").trim();
-  if (existingTitles.has(safeName)) return null;
+  if (existingTitles.has(safeName) || isHeldTitle(await titlesHeldForReview(vaultPath), safeName)) return null;
 
-  const userPrompt = `Two notes contradict each other: "${fromTitle}" and "${toTitle}". Create a short synthesis note that documents this tension without resolving it. State both positions and that they conflict. Use links: Relationship:: Contradicts [[${fromTitle}]] and Relationship:: Contradicts [[${toTitle}]]. Output only the markdown body (no frontmatter).`;
+  const userPrompt = await renderPrompt(vaultPath, "validate.user", { fromTitle, toTitle });
 
   const raw = await llm.complete(
     [
-      {
-        role: "system",
-        content:
-          "You document logical conflicts between notes. Output only markdown. Do not fix or remove the contradiction; document it for human or AI review.",
-      },
+      { role: "system", content: await renderPrompt(vaultPath, "validate.system") },
       { role: "user", content: userPrompt },
     ],
     { maxTokens: 512 }
@@ -121,19 +121,22 @@ async function createSynthesisNote(
   const frontmatter: Record<string, unknown> = {
     type: "Conflict",
     source: "validate",
+    ...provenanceProperties(llm, await promptVersion(vaultPath, ["validate.system", "validate.user"])),
   };
   const output = matter.stringify(content, frontmatter, {
     delimiters: ["---", "---"],
   });
-  const dir = path.join(vaultPath, VALIDATION_DIR, CONFLICTS_SUBDIR);
-  await mkdir(dir, { recursive: true });
   const rel = path.join(VALIDATION_DIR, CONFLICTS_SUBDIR, `${safeName}.md`);
-  const full = path.join(vaultPath, rel);
-  await writeFile(full, output, "utf-8");
+  if (await holdsForReview(vaultPath, "Conflict")) {
+    const derivedFrom = `${fromTitle} contradicts ${toTitle}`;
+    await proposeNote(vaultPath, { noteType: "Conflict", path: rel, content: output, premises: [fromTitle, toTitle], derivedFrom });
+    return null;
+  }
+  if (!(await writeVaultFile(vaultPath, rel, output))) return null;
   appendLog(`Validation: synthesis note ${rel}`);
   const snippet = content.slice(0, 300);
   let emb: number[] | undefined;
-  const config = await loadAgentConfig(vaultPath);
+  const config = await loadStageConfig(vaultPath);
   if (config.useEmbeddings !== false) {
     const ec = getEmbeddingClient();
     if (ec) {
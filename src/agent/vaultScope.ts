@@ -0,0 +1,40 @@
+/**
+ * Which vault the current request, run or watcher event belongs to. Every module that holds agent state (queue,
+ * run state, providers, usage, watcher, …) keeps one copy per vault through `vaultState`, so one server can run
+ * an agent per registered vault. Code outside any vault scope works on the default vault.
+ */
+import { AsyncLocalStorage } from "async_hooks";
+
+/** Id of the vault configured through /api/vault, and of anything running outside a vault scope. */
+export const DEFAULT_VAULT_ID = "default";
+
+const storage = new AsyncLocalStorage<string>();
+const stateMaps: Map<string, unknown>[] = [];
+
+export function runInVault<T>(vaultId: string, fn: () => T): T {
+  return storage.run(vaultId, fn);
+}
+
+export function currentVaultId(): string {
+  return storage.getStore() ?? DEFAULT_VAULT_ID;
+}
+
+/** Per-vault module state, created on first use. The returned function gives the current vault's copy. */
+export function vaultState<T>(create: () => T): () => T {
+  const byVault = new Map<string, T>();
+  stateMaps.push(byVault);
+  return () => {
+    const id = currentVaultId();
+    let value = byVault.get(id);
+    if (value === undefined) {
+      value = create();
+      byVault.set(id, value);
+    }
+    return value;
+  };
+}
+
+/** Drop every module's state for a vault that was removed. */
+export function forgetVaultState(vaultId: string): void {
+  for (const map of stateMaps) map.delete(vaultId);
+}
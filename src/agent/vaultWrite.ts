@@ -0,0 +1,185 @@
+/**
+ * The one way the agent changes files in the vault. Normally a write goes straight to disk, is journaled
+ * (see journal.ts) and marks the note dirty for incremental runs; in a dry run it is staged under
+ * .vaultmaker/pending instead, for review (see pendingChanges.ts), and later stages of the run see the
+ * staged content through readVaultNote and withStagedNotes (and the run's own copy of the embedding
+ * index, see embeddingIndex.ts). Notes locked or edited by people are protected either way (see humanEdits.ts).
+ */
+import { readFile, writeFile, mkdir, unlink } from "fs/promises";
+import path from "path";
+import { randomUUID } from "crypto";
+import { getTaskContext } from "./taskContext.js";
+import { markNoteDirty, unmarkNoteDirty } from "./dirtyNotes.js";
+import { journalFileChange } from "./journal.js";
+import { guardNoteWrite, mayDeleteNote, recordAgentWrite } from "./humanEdits.js";
+import { createKeyedMutex } from "../lib/mutex.js";
+import { unifiedDiff } from "../lib/diff.js";
+import {
+  pendingChangesByPath,
+  savePendingChange,
+  deletePendingChange,
+  type PendingChange,
+} from "../storage/pending.js";
+
+/** Serializes staging per vault, so two tasks staging the same path merge into one change. */
+const pendingLock = createKeyedMutex();
+
+/** True while running a task of a dry run: writes are staged, and index updates kept to the run. */
+export function isDryRun(): boolean {
+  return getTaskContext()?.dryRun === true;
+}
+
+function toRel(relativePath: string): string {
+  return relativePath.split(path.sep).join("/");
+}
+
+async function readOrNull(fullPath: string): Promise<string | null> {
+  try {
+    return await readFile(fullPath, "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Stage `after` (null = delete) for a path. A second change to the same path updates the first, keeping its
+ * original content, and a change that ends where it started is dropped.
+ */
+async function stageChange(vaultPath: string, relativePath: string, after: string | null): Promise<void> {
+  const rel = toRel(relativePath);
+  await pendingLock.run(vaultPath, async () => {
+    const existing = (await pendingChangesByPath(vaultPath)).get(rel);
+    const before = existing ? existing.before : await readOrNull(path.join(vaultPath, rel));
+    if (before === after) {
+      if (existing) await deletePendingChange(vaultPath, existing.id);
+      return;
+    }
+    const context = getTaskContext();
+    const now = new Date().toISOString();
+    const change: PendingChange = {
+      id: existing?.id ?? randomUUID().slice(0, 8),
+      action: before == null ? "create" : after == null ? "delete" : "modify",
+      path: rel,
+      before,
+      after,
+      diff: unifiedDiff(before, after, rel),
+      runId: context?.runId ?? null,
+      taskId: context?.taskId ?? null,
+      stage: context?.stage ?? null,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    await savePendingChange(vaultPath, change);
+  });
+}
+
+/** Content a dry run has staged for a path, if any (null = staged delete). */
+async function stagedContent(vaultPath: string, rel: string): Promise<string | null | undefined> {
+  const change = (await pendingChangesByPath(vaultPath)).get(toRel(rel));
+  return change ? change.after : undefined;
+}
+
+/** A file as the current task sees it: in a dry run, what the run has staged for it, else what is on disk. */
+export async function readVaultNote(vaultPath: string, relativePath: string): Promise<string> {
+  if (isDryRun()) {
+    const staged = await stagedContent(vaultPath, relativePath);
+    if (staged === null) {
+      throw Object.assign(new Error(`ENOENT: staged for deletion, '${relativePath}'`), { code: "ENOENT" });
+    }
+    if (staged !== undefined) return staged;
+  }
+  return readFile(path.join(vaultPath, relativePath), "utf-8");
+}
+
+/** Compare vault paths folder by folder, the order a sorted directory walk lists them in. */
+function walkOrder(a: string, b: string): number {
+  const as = a.split("/");
+  const bs = b.split("/");
+  for (let i = 0; i < Math.min(as.length, bs.length); i++) {
+    if (as[i] !== bs[i]) return as[i] < bs[i] ? -1 : 1;
+  }
+  return as.length - bs.length;
+}
+
+/**
+ * The markdown files of a listing as the current task sees them: in a dry run, notes staged for creation
+ * are added and notes staged for deletion left out. Outside a dry run the listing is returned as it is.
+ */
+export async function withStagedNotes(vaultPath: string, files: string[]): Promise<string[]> {
+  if (!isDryRun()) return files;
+  const staged = await pendingChangesByPath(vaultPath);
+  if (staged.size === 0) return files;
+  const out = new Set(files);
+  for (const change of staged.values()) {
+    if (!change.path.endsWith(".md")) continue;
+    if (change.after == null) out.delete(change.path);
+    else out.add(change.path);
+  }
+  return [...out].sort(walkOrder);
+}
+
+/**
+ * Write a vault file. With `createOnly`, returns false without writing when the file already exists (or a
+ * dry run has already staged it). Returns false as well when the note is protected and left as it is.
+ */
+export async function writeVaultFile(
+  vaultPath: string,
+  relativePath: string,
+  content: string,
+  options: { createOnly?: boolean } = {}
+): Promise<boolean> {
+  const fullPath = path.join(vaultPath, relativePath);
+  let humanEdited = false;
+  if (!options.createOnly) {
+    const staged = isDryRun() ? await stagedContent(vaultPath, relativePath) : undefined;
+    const guarded = await guardNoteWrite(vaultPath, relativePath, content, staged ?? undefined);
+    if (guarded.content == null) return false;
+    content = guarded.content;
+    humanEdited = guarded.humanEdited;
+  }
+  if (isDryRun()) {
+    if (options.createOnly) {
+      const staged = await stagedContent(vaultPath, relativePath);
+      if (staged != null || (staged === undefined && (await readOrNull(fullPath)) != null)) return false;
+    }
+    await stageChange(vaultPath, relativePath, content);
+    markNoteDirty(relativePath);
+    return true;
+  }
+  await mkdir(path.dirname(fullPath), { recursive: true });
+  const before = options.createOnly ? null : await readOrNull(fullPath);
+  try {
+    await writeFile(fullPath, content, { encoding: "utf-8", flag: options.createOnly ? "wx" : "w" });
+  } catch (err) {
+    if (options.createOnly && (err as NodeJS.ErrnoException).code === "EEXIST") return false;
+    throw err;
+  }
+  markNoteDirty(relativePath);
+  await recordAgentWrite(vaultPath, relativePath, content, humanEdited);
+  await journalFileChange(vaultPath, relativePath, before, content);
+  return true;
+}
+
+/** Delete a vault file. Returns false if it does not exist or is a protected note. */
+export async function deleteVaultFile(vaultPath: string, relativePath: string): Promise<boolean> {
+  const fullPath = path.join(vaultPath, relativePath);
+  if (!(await mayDeleteNote(vaultPath, relativePath))) return false;
+  if (isDryRun()) {
+    const staged = await stagedContent(vaultPath, relativePath);
+    if (staged === null || (staged === undefined && (await readOrNull(fullPath)) == null)) return false;
+    await stageChange(vaultPath, relativePath, null);
+    unmarkNoteDirty(relativePath);
+    return true;
+  }
+  const before = await readOrNull(fullPath);
+  try {
+    await unlink(fullPath);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === "ENOENT") return false;
+    throw err;
+  }
+  unmarkNoteDirty(relativePath);
+  await recordAgentWrite(vaultPath, relativePath, null);
+  await journalFileChange(vaultPath, relativePath, before, null);
+  return true;
+}
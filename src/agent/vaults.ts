@@ -0,0 +1,114 @@
+/**
+ * The vaults this server runs agents for: the default vault (data/vaultConfig.json, served under /api) and the
+ * vaults registered in data/vaults.json (served under /api/vaults/:id). Each runs in its own vault scope, so it
+ * has its own agent, queue, providers and watcher; see vaultScope.ts.
+ */
+import { access } from "fs/promises";
+import { setAgentVault, setSourceDir, getAgentState } from "./loop.js";
+import { cancelAutoRun } from "./autoRun.js";
+import { flushEventLog } from "./eventLog.js";
+import { setMaxConcurrentAgents } from "./agentSlots.js";
+import { DEFAULT_VAULT_ID, currentVaultId, forgetVaultState, runInVault } from "./vaultScope.js";
+import { applyLLMConfig, type ActiveProviders } from "../llm/runtime.js";
+import { flushUsage } from "../llm/usage.js";
+import { startSourceWatcher, stopSourceWatcher } from "../watcher/sourceWatcher.js";
+import { loadVaultConfig, saveVaultConfig, type VaultConfig } from "../storage/vaultConfig.js";
+import { loadVaultRegistry, saveVaultRegistry, type RegisteredVault } from "../storage/vaultRegistry.js";
+
+export interface VaultEntry extends VaultConfig {
+  id: string;
+}
+
+/** The default vault (its path may not be set yet) followed by the registered ones. */
+export async function listVaults(): Promise<VaultEntry[]> {
+  const [defaultVault, registry] = await Promise.all([loadVaultConfig(), loadVaultRegistry()]);
+  return [{ id: DEFAULT_VAULT_ID, ...defaultVault }, ...registry.vaults];
+}
+
+export async function findVault(id: string): Promise<VaultEntry | null> {
+  return (await listVaults()).find((v) => v.id === id) ?? null;
+}
+
+/** Save vault path, name or source folder for the current vault scope. */
+export async function saveCurrentVaultConfig(config: Partial<VaultConfig>): Promise<void> {
+  const id = currentVaultId();
+  if (id === DEFAULT_VAULT_ID) {
+    await saveVaultConfig(config);
+    return;
+  }
+  const registry = await loadVaultRegistry();
+  const vault = registry.vaults.find((v) => v.id === id);
+  if (!vault) return;
+  if (config.vaultPath) vault.vaultPath = config.vaultPath;
+  if (config.vaultName !== undefined) vault.vaultName = config.vaultName;
+  if (config.sourceDir !== undefined) vault.sourceDir = config.sourceDir;
+  await saveVaultRegistry(registry);
+}
+
+/**
+ * Point the current vault scope's agent at a saved vault: providers, restored progress and the source watcher.
+ * Used at startup; configuring a vault by hand also imports its source folder (see routes/vault.ts).
+ */
+export async function openVault(config: VaultConfig): Promise<ActiveProviders> {
+  const providers = await applyLLMConfig(config.vaultPath);
+  if (!config.vaultPath) return providers;
+  await setAgentVault(config.vaultPath, config.vaultName);
+  setSourceDir(config.sourceDir);
+  if (config.sourceDir) {
+    try {
+      await access(config.sourceDir);
+      startSourceWatcher(config.sourceDir, config.vaultPath);
+    } catch {
+      // source folder not accessible
+    }
+  }
+  return providers;
+}
+
+/** Open every registered vault in its own scope and apply the concurrency limit. Returns provider errors by vault id. */
+export async function openRegisteredVaults(): Promise<Record<string, string>> {
+  const registry = await loadVaultRegistry();
+  setMaxConcurrentAgents(registry.maxConcurrentAgents);
+  const errors: Record<string, string> = {};
+  for (const vault of registry.vaults) {
+    const providers = await runInVault(vault.id, () => openVault(vault));
+    if (providers.error) errors[vault.id] = providers.error;
+  }
+  return errors;
+}
+
+export async function registerVault(vault: RegisteredVault): Promise<void> {
+  const registry = await loadVaultRegistry();
+  registry.vaults.push(vault);
+  await saveVaultRegistry(registry);
+}
+
+/**
+ * Stop serving a registered vault: its watcher stops, pending logs are written and its in-memory agent is
+ * dropped. Its files and .vaultmaker data stay. Returns false unless the vault is registered and its agent idle.
+ */
+export async function unregisterVault(id: string): Promise<boolean> {
+  const registry = await loadVaultRegistry();
+  const idx = registry.vaults.findIndex((v) => v.id === id);
+  if (idx === -1) return false;
+  const idle = await runInVault(id, async () => {
+    if (getAgentState().status !== "idle") return false;
+    stopSourceWatcher();
+    cancelAutoRun();
+    await flushUsage();
+    await flushEventLog();
+    return true;
+  });
+  if (!idle) return false;
+  forgetVaultState(id);
+  registry.vaults.splice(idx, 1);
+  await saveVaultRegistry(registry);
+  return true;
+}
+
+export async function setMaxConcurrentAgentsSetting(max: number): Promise<void> {
+  const registry = await loadVaultRegistry();
+  registry.maxConcurrentAgents = Math.max(0, Math.floor(max));
+  await saveVaultRegistry(registry);
+  setMaxConcurrentAgents(registry.maxConcurrentAgents);
+}
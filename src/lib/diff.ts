@@ -0,0 +1,93 @@
+/**
+ * Line-based unified diff for showing staged changes. Plain LCS; very large inputs fall back to
+ * replacing every line, which is still a correct (if unhelpful) diff.
+ */
+
+const CONTEXT = 3;
+const MAX_CELLS = 4_000_000;
+
+type Op = { type: " " | "-" | "+"; line: string };
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+function diffLines(a: string[], b: string[]): Op[] {
+  if (a.length * b.length > MAX_CELLS) {
+    return [...a.map((line) => ({ type: "-" as const, line })), ...b.map((line) => ({ type: "+" as const, line }))];
+  }
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: Uint32Array[] = [];
+  for (let i = 0; i <= a.length; i++) lcs.push(new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const ops: Op[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      ops.push({ type: " ", line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      ops.push({ type: "-", line: a[i++] });
+    } else {
+      ops.push({ type: "+", line: b[j++] });
+    }
+  }
+  while (i < a.length) ops.push({ type: "-", line: a[i++] });
+  while (j < b.length) ops.push({ type: "+", line: b[j++] });
+  return ops;
+}
+
+/**
+ * Unified diff of `before` and `after` (null = file absent) with 3 lines of context.
+ * Returns an empty string when the contents are equal.
+ */
+export function unifiedDiff(before: string | null, after: string | null, filePath: string): string {
+  if (before === after) return "";
+  const ops = diffLines(splitLines(before ?? ""), splitLines(after ?? ""));
+  const out = [before == null ? "--- /dev/null" : `--- a/${filePath}`, after == null ? "+++ /dev/null" : `+++ b/${filePath}`];
+
+  let k = 0;
+  while (k < ops.length) {
+    if (ops[k].type === " ") {
+      k++;
+      continue;
+    }
+    // a hunk runs from CONTEXT lines before this change to CONTEXT lines after the last change that is
+    // no more than 2 * CONTEXT unchanged lines further on
+    const start = Math.max(0, k - CONTEXT);
+    let end = k;
+    let unchanged = 0;
+    for (let m = k; m < ops.length; m++) {
+      if (ops[m].type === " ") {
+        unchanged++;
+        if (unchanged > 2 * CONTEXT) break;
+      } else {
+        unchanged = 0;
+        end = m;
+      }
+    }
+    const stop = Math.min(ops.length, end + CONTEXT + 1);
+    let oldStart = 1;
+    let newStart = 1;
+    for (let m = 0; m < start; m++) {
+      if (ops[m].type !== "+") oldStart++;
+      if (ops[m].type !== "-") newStart++;
+    }
+    const hunk = ops.slice(start, stop);
+    const oldCount = hunk.filter((op) => op.type !== "+").length;
+    const newCount = hunk.filter((op) => op.type !== "-").length;
+    out.push(`@@ -${oldCount === 0 ? oldStart - 1 : oldStart},${oldCount} +${newCount === 0 ? newStart - 1 : newStart},${newCount} @@`);
+    for (const op of hunk) out.push(op.type + op.line);
+    k = stop;
+  }
+  return out.join("\n") + "\n";
+}
@@ -0,0 +1,12 @@
+import { writeFile, rename } from "fs/promises";
+import { randomUUID } from "crypto";
+
+/**
+ * Write via a temporary file and rename, so concurrent readers see either the old or the new content,
+ * never a half-written file.
+ */
+export async function writeFileAtomic(filePath: string, data: string): Promise<void> {
+  const tmp = `${filePath}.${randomUUID().slice(0, 8)}.tmp`;
+  await writeFile(tmp, data, "utf-8");
+  await rename(tmp, filePath);
+}
@@ -0,0 +1,23 @@
+/** Serializes async work per key: calls with the same key run one at a time, in call order. */
+export interface KeyedMutex {
+  run<T>(key: string, fn: () => Promise<T>): Promise<T>;
+}
+
+export function createKeyedMutex(): KeyedMutex {
+  const tails = new Map<string, Promise<void>>();
+  return {
+    run<T>(key: string, fn: () => Promise<T>): Promise<T> {
+      const previous = tails.get(key) ?? Promise.resolve();
+      const result = previous.then(fn);
+      const tail = result.then(
+        () => {},
+        () => {}
+      );
+      tails.set(key, tail);
+      void tail.then(() => {
+        if (tails.get(key) === tail) tails.delete(key);
+      });
+      return result;
+    },
+  };
+}
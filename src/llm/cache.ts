@@ -0,0 +1,238 @@
+/**
+ * Persistent, content-addressed cache for completions and embeddings under .vaultmaker/cache/.
+ * Keys hash the provider namespace (provider, base URL, model), the request and its options, so
+ * re-running a vault or re-importing an unchanged chunk reuses earlier responses. Least recently
+ * used entries are evicted once the cache grows past its size cap.
+ */
+import { createHash } from "crypto";
+import { readFile, writeFile, mkdir, rm, unlink } from "fs/promises";
+import path from "path";
+import { writeFileAtomic } from "../lib/fs.js";
+import { createKeyedMutex } from "../lib/mutex.js";
+import type { LLMClient, LLMMessage, LLMCompleteOptions } from "./client.js";
+import type { EmbeddingClient, EmbedOptions } from "./embedding.js";
+
+const CACHE_DIR = path.join(".vaultmaker", "cache");
+const INDEX_FILE = "index.json";
+/** Access times from cache hits are written this long after the first unsaved one. */
+const ACCESS_FLUSH_MS = 5000;
+
+/** Serializes index.json read-modify-writes per cache directory, across parallel tasks and cache instances. */
+const indexLock = createKeyedMutex();
+/** Loaded indexes by cache directory, shared so a cache rebuilt on a config change sees earlier entries. */
+const loadedIndexes = new Map<string, Map<string, CacheIndexEntry>>();
+
+type CacheKind = "completion" | "embedding";
+
+interface CacheIndexEntry {
+  kind: CacheKind;
+  bytes: number;
+  lastAccess: number;
+}
+
+export interface CacheStats {
+  enabled: boolean;
+  hits: Record<CacheKind, number>;
+  misses: Record<CacheKind, number>;
+  entries: number;
+  bytes: number;
+  maxBytes: number;
+}
+
+export interface ResponseCache {
+  get(kind: CacheKind, key: string): Promise<unknown | undefined>;
+  set(kind: CacheKind, key: string, value: unknown): Promise<void>;
+  stats(): Promise<CacheStats>;
+  clear(): Promise<void>;
+}
+
+export function cacheKey(namespace: string, payload: unknown): string {
+  return createHash("sha256").update(JSON.stringify([namespace, payload])).digest("hex");
+}
+
+export function createResponseCache(vaultPath: string, options: { maxBytes: number }): ResponseCache {
+  const dir = path.join(vaultPath, CACHE_DIR);
+  const hits: Record<CacheKind, number> = { completion: 0, embedding: 0 };
+  const misses: Record<CacheKind, number> = { completion: 0, embedding: 0 };
+  let flushTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const entryPath = (key: string) => path.join(dir, key.slice(0, 2), `${key}.json`);
+
+  async function loadCacheIndex(): Promise<Map<string, CacheIndexEntry>> {
+    const loaded = loadedIndexes.get(dir);
+    if (loaded) return loaded;
+    let index: Map<string, CacheIndexEntry>;
+    try {
+      const raw = await readFile(path.join(dir, INDEX_FILE), "utf-8");
+      const data = JSON.parse(raw) as Record<string, CacheIndexEntry>;
+      index = new Map(Object.entries(data ?? {}));
+    } catch {
+      index = new Map();
+    }
+    // another caller may have loaded it meanwhile; keep the first so no entries are lost
+    if (!loadedIndexes.has(dir)) loadedIndexes.set(dir, index);
+    return loadedIndexes.get(dir)!;
+  }
+
+  /** Write the index; callers hold indexLock. */
+  async function saveCacheIndex(): Promise<void> {
+    const index = loadedIndexes.get(dir);
+    if (!index) return;
+    if (flushTimer) clearTimeout(flushTimer);
+    flushTimer = null;
+    await mkdir(dir, { recursive: true });
+    await writeFileAtomic(path.join(dir, INDEX_FILE), JSON.stringify(Object.fromEntries(index)));
+  }
+
+  /** Persist access times soon, so eviction stays least-recently-used across restarts. */
+  function scheduleAccessFlush(): void {
+    if (flushTimer) return;
+    flushTimer = setTimeout(() => {
+      flushTimer = null;
+      void indexLock.run(dir, saveCacheIndex).catch(() => {});
+    }, ACCESS_FLUSH_MS);
+    flushTimer.unref();
+  }
+
+  function totalBytes(entries: Map<string, CacheIndexEntry>): number {
+    let total = 0;
+    for (const e of entries.values()) total += e.bytes;
+    return total;
+  }
+
+  /** Drop least recently used entries until the cache is back under 90% of its cap. */
+  async function evict(entries: Map<string, CacheIndexEntry>): Promise<void> {
+    let total = totalBytes(entries);
+    if (total <= options.maxBytes) return;
+    const target = options.maxBytes * 0.9;
+    const byAge = [...entries.entries()].sort((a, b) => a[1].lastAccess - b[1].lastAccess);
+    for (const [key, entry] of byAge) {
+      if (total <= target) break;
+      entries.delete(key);
+      total -= entry.bytes;
+      await unlink(entryPath(key)).catch(() => {});
+    }
+  }
+
+  return {
+    async get(kind, key) {
+      const entries = await loadCacheIndex();
+      const entry = entries.get(key);
+      if (entry) {
+        try {
+          const raw = await readFile(entryPath(key), "utf-8");
+          entry.lastAccess = Date.now();
+          scheduleAccessFlush();
+          hits[kind]++;
+          return JSON.parse(raw) as unknown;
+        } catch {
+          entries.delete(key);
+        }
+      }
+      misses[kind]++;
+      return undefined;
+    },
+
+    async set(kind, key, value) {
+      const entries = await loadCacheIndex();
+      const body = JSON.stringify(value);
+      const file = entryPath(key);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, body, "utf-8");
+      await indexLock.run(dir, async () => {
+        entries.set(key, { kind, bytes: Buffer.byteLength(body), lastAccess: Date.now() });
+        await evict(entries);
+        await saveCacheIndex();
+      });
+    },
+
+    async stats() {
+      const entries = await loadCacheIndex();
+      return {
+        enabled: true,
+        hits: { ...hits },
+        misses: { ...misses },
+        entries: entries.size,
+        bytes: totalBytes(entries),
+        maxBytes: options.maxBytes,
+      };
+    },
+
+    async clear() {
+      await indexLock.run(dir, async () => {
+        if (flushTimer) clearTimeout(flushTimer);
+        flushTimer = null;
+        await rm(dir, { recursive: true, force: true });
+        loadedIndexes.set(dir, new Map());
+      });
+      hits.completion = hits.embedding = 0;
+      misses.completion = misses.embedding = 0;
+    },
+  };
+}
+
+/**
+ * Wrap an LLM client so identical requests are served from the cache. Concurrent identical
+ * requests share one in-flight call. Hits report zero-token usage flagged as cached.
+ */
+export function withLLMCache(inner: LLMClient, cache: ResponseCache, namespace: string): LLMClient {
+  const inFlight = new Map<string, Promise<string>>();
+  return {
+    model: inner.model,
+    async complete(messages: LLMMessage[], options?: LLMCompleteOptions): Promise<string> {
+      const key = cacheKey(namespace, {
+        messages,
+        maxTokens: options?.maxTokens,
+        temperature: options?.temperature,
+      });
+      const cached = await cache.get("completion", key);
+      if (typeof cached === "string") {
+        options?.onUsage?.({ promptTokens: 0, completionTokens: 0, cached: true });
+        return cached;
+      }
+      const pending = inFlight.get(key);
+      if (pending) {
+        options?.onUsage?.({ promptTokens: 0, completionTokens: 0, cached: true });
+        return pending;
+      }
+      const call = inner
+        .complete(messages, options)
+        .then(async (result) => {
+          await cache.set("completion", key, result).catch(() => {});
+          return result;
+        })
+        .finally(() => inFlight.delete(key));
+      inFlight.set(key, call);
+      return call;
+    },
+  };
+}
+
+/** Wrap an embedding client so repeated texts are served from the cache. */
+export function withEmbeddingCache(inner: EmbeddingClient, cache: ResponseCache, namespace: string): EmbeddingClient {
+  const inFlight = new Map<string, Promise<number[]>>();
+  return {
+    async embed(text: string, options?: EmbedOptions): Promise<number[]> {
+      const key = cacheKey(namespace, { text });
+      const cached = await cache.get("embedding", key);
+      if (Array.isArray(cached)) {
+        options?.onUsage?.({ promptTokens: 0, completionTokens: 0, cached: true });
+        return cached as number[];
+      }
+      const pending = inFlight.get(key);
+      if (pending) {
+        options?.onUsage?.({ promptTokens: 0, completionTokens: 0, cached: true });
+        return pending;
+      }
+      const call = inner
+        .embed(text, options)
+        .then(async (vec) => {
+          await cache.set("embedding", key, vec).catch(() => {});
+          return vec;
+        })
+        .finally(() => inFlight.delete(key));
+      inFlight.set(key, call);
+      return call;
+    },
+  };
+}
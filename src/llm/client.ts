@@ -6,6 +6,25 @@ export interface LLMMessage {
   content: string;
 }
 
+/** Token counts for one call. `cached` marks responses served without calling the provider. */
+export interface LLMUsage {
+  promptTokens: number;
+  completionTokens: number;
+  cached?: boolean;
+}
+
+export interface LLMCompleteOptions {
+  maxTokens?: number;
+  /** Sampling temperature; providers use their default when omitted. */
+  temperature?: number;
+  /** Cancels the call; providers should reject promptly once aborted. */
+  signal?: AbortSignal;
+  /** Called once with the provider-reported token usage, when the provider reports it. */
+  onUsage?: (usage: LLMUsage) => void;
+}
+
 export interface LLMClient {
-  complete(messages: LLMMessage[], options?: { maxTokens?: number }): Promise<string>;
+  /** Model that serves completions, when known; recorded in generated notes' provenance. */
+  readonly model?: string;
+  complete(messages: LLMMessage[], options?: LLMCompleteOptions): Promise<string>;
 }
@@ -1,6 +1,15 @@
+import type { LLMUsage } from "./client.js";
+
+export interface EmbedOptions {
+  /** Cancels the call; providers should reject promptly once aborted. */
+  signal?: AbortSignal;
+  /** Called once with the provider-reported token usage, when the provider reports it. */
+  onUsage?: (usage: LLMUsage) => void;
+}
+
 /**
  * Optional embedding client for retrieval. When not available, retrieval uses keyword fallback.
  */
 export interface EmbeddingClient {
-  embed(text: string): Promise<number[]>;
+  embed(text: string, options?: EmbedOptions): Promise<number[]>;
 }
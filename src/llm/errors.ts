@@ -0,0 +1,61 @@
+/**
+ * Typed errors raised by the LLM layer so callers can tell model failures apart from I/O errors.
+ */
+
+/** The model kept returning output that does not match the expected schema, even after repair attempts. */
+export class StructuredOutputError extends Error {
+  readonly label: string;
+  readonly errors: string[];
+  readonly attempts: number;
+  readonly raw: string;
+
+  constructor(label: string, errors: string[], attempts: number, raw: string) {
+    super(
+      `${label}: invalid model output after ${attempts} attempt(s): ${errors.slice(0, 3).join("; ")}` +
+        (errors.length > 3 ? ` (+${errors.length - 3} more)` : "")
+    );
+    this.name = "StructuredOutputError";
+    this.label = label;
+    this.errors = errors;
+    this.attempts = attempts;
+    this.raw = raw;
+  }
+}
+
+/** A configured token or cost budget is used up. `scope` says whether the whole run or one source hit it. */
+export class BudgetExceededError extends Error {
+  readonly scope: "run" | "source";
+
+  constructor(scope: "run" | "source", message: string) {
+    super(message);
+    this.name = "BudgetExceededError";
+    this.scope = scope;
+  }
+}
+
+/** A single provider call took longer than the configured timeout. */
+export class LLMTimeoutError extends Error {
+  constructor(timeoutMs: number) {
+    super(`LLM call timed out after ${Math.round(timeoutMs / 1000)}s`);
+    this.name = "LLMTimeoutError";
+  }
+}
+
+/** The call was cancelled through its AbortSignal (e.g. the agent was stopped). */
+export class LLMAbortedError extends Error {
+  constructor() {
+    super("LLM call aborted");
+    this.name = "LLMAbortedError";
+  }
+}
+
+/** The provider failed repeatedly and calls are paused until `retryAt` (epoch ms). */
+export class CircuitOpenError extends Error {
+  readonly retryAt: number;
+
+  constructor(retryAt: number) {
+    super(`LLM provider unavailable; retrying after ${new Date(retryAt).toLocaleTimeString()}`);
+    this.name = "CircuitOpenError";
+    this.retryAt = retryAt;
+  }
+}
@@ -0,0 +1,153 @@
+/**
+ * Deterministic, offline LLM and embedding clients for tests and local development. Responses come
+ * from scripted rules matched by pipeline stage and/or a pattern over the prompt text; a rule can also
+ * inject a provider failure (status, Retry-After, network error) or a slow or hanging call.
+ */
+import { createHash } from "crypto";
+import type { LLMClient, LLMMessage, LLMCompleteOptions } from "./client.js";
+import type { EmbeddingClient, EmbedOptions } from "./embedding.js";
+import type { Stage } from "../agent/types.js";
+import { getTaskContext } from "../agent/taskContext.js";
+import { sleep } from "../lib/sleep.js";
+
+export interface FakeRule {
+  /** Only match calls made while a task of this stage is running. */
+  stage?: Stage;
+  /** Tested against the system and user prompts joined by a blank line. */
+  match?: RegExp;
+  /** Fixture text, or a function of the messages and the regex match. Not needed with `fail`. */
+  respond?: string | ((messages: LLMMessage[], match: RegExpMatchArray | null) => string);
+  /** Throw a provider error instead of responding; with `times`, fail that often and then fall through. */
+  fail?: FakeFailure;
+  /** Answer (or fail) after this many ms; "hang" never answers, only the call's signal ends it. */
+  delayMs?: number | "hang";
+  /** Use the rule at most this many times; later calls fall through to the next rule. */
+  times?: number;
+}
+
+/** An injected provider failure, shaped like the OpenAI SDK's API and connection errors. */
+export interface FakeFailure {
+  /** HTTP status, e.g. 429 or 503. */
+  status?: number;
+  /** Response headers, e.g. `{ "retry-after": "2" }`. */
+  headers?: Record<string, string>;
+  /** Network error code instead of a status, e.g. "ECONNRESET". */
+  code?: string;
+  message?: string;
+}
+
+export class FakeProviderError extends Error {
+  readonly status?: number;
+  readonly headers?: Record<string, string>;
+  readonly code?: string;
+
+  constructor(failure: FakeFailure) {
+    super(failure.message ?? `Fake LLM: injected failure${failure.status ? ` (${failure.status})` : ""}`);
+    this.name = "FakeProviderError";
+    this.status = failure.status;
+    this.headers = failure.headers;
+    this.code = failure.code;
+  }
+}
+
+export interface FakeCall {
+  stage: Stage | null;
+  messages: LLMMessage[];
+  /** Empty when the call failed. */
+  response: string;
+  /** Set when the rule injected a failure. */
+  error?: string;
+}
+
+export interface FakeLLMClient extends LLMClient {
+  readonly calls: FakeCall[];
+}
+
+export interface FakeLLMOptions {
+  /** Reported as the client's model. Default "fake". */
+  model?: string;
+  /** Response when no rule matches. Default: throw, so missing fixtures are loud. */
+  fallback?: string | ((messages: LLMMessage[]) => string);
+}
+
+function promptText(messages: LLMMessage[]): string {
+  return messages.map((m) => m.content).join("\n\n");
+}
+
+function abortError(): Error {
+  return Object.assign(new Error("Request was aborted."), { name: "AbortError" });
+}
+
+/** Wait like a slow provider; an aborted signal ends the wait with an abort error, as the SDK does. */
+async function delay(ms: number | "hang", signal?: AbortSignal): Promise<void> {
+  if (ms === "hang") {
+    return new Promise<void>((_, reject) => {
+      if (signal?.aborted) return reject(abortError());
+      signal?.addEventListener("abort", () => reject(abortError()), { once: true });
+    });
+  }
+  await sleep(ms, signal).catch(() => {
+    throw abortError();
+  });
+}
+
+export function createFakeLLM(rules: FakeRule[], options: FakeLLMOptions = {}): FakeLLMClient {
+  const uses = new Map<FakeRule, number>();
+  const calls: FakeCall[] = [];
+  return {
+    model: options.model ?? "fake",
+    calls,
+    async complete(messages: LLMMessage[], completeOptions?: LLMCompleteOptions): Promise<string> {
+      const stage = getTaskContext()?.stage ?? null;
+      const text = promptText(messages);
+      let response: string | null = null;
+      for (const rule of rules) {
+        if (rule.stage && rule.stage !== stage) continue;
+        if (rule.times != null && (uses.get(rule) ?? 0) >= rule.times) continue;
+        const match = rule.match ? text.match(rule.match) : null;
+        if (rule.match && !match) continue;
+        uses.set(rule, (uses.get(rule) ?? 0) + 1);
+        if (rule.delayMs != null) await delay(rule.delayMs, completeOptions?.signal);
+        if (rule.fail) {
+          const error = new FakeProviderError(rule.fail);
+          calls.push({ stage, messages, response: "", error: error.message });
+          throw error;
+        }
+        if (rule.respond == null) throw new Error("Fake LLM: rule has neither respond nor fail");
+        response = typeof rule.respond === "string" ? rule.respond : rule.respond(messages, match);
+        break;
+      }
+      if (response == null) {
+        if (options.fallback == null) {
+          throw new Error(`Fake LLM: no rule matches (stage ${stage ?? "none"}): ${text.slice(0, 200)}`);
+        }
+        response = typeof options.fallback === "string" ? options.fallback : options.fallback(messages);
+      }
+      calls.push({ stage, messages, response });
+      completeOptions?.onUsage?.({
+        promptTokens: Math.ceil(text.length / 4),
+        completionTokens: Math.ceil(response.length / 4),
+      });
+      return response;
+    },
+  };
+}
+
+/**
+ * Bag-of-words embeddings: each lower-cased word is hashed into one of `dimensions` buckets, so texts
+ * sharing words are similar and identical texts always get identical vectors.
+ */
+export function createFakeEmbeddingClient(dimensions: number = 32): EmbeddingClient {
+  return {
+    async embed(text: string, options?: EmbedOptions): Promise<number[]> {
+      const vec = new Array<number>(dimensions).fill(0);
+      const words = text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+      for (const word of words) {
+        const bucket = createHash("md5").update(word).digest().readUInt32BE(0) % dimensions;
+        vec[bucket] += 1;
+      }
+      options?.onUsage?.({ promptTokens: words.length, completionTokens: 0 });
+      return vec;
+    },
+  };
+}
@@ -1,17 +1,40 @@
 import OpenAI from "openai";
-import type { LLMClient, LLMMessage } from "./client.js";
-import type { EmbeddingClient } from "./embedding.js";
+import type { LLMClient, LLMMessage, LLMCompleteOptions } from "./client.js";
+import type { EmbeddingClient, EmbedOptions } from "./embedding.js";
 
-export function createOpenAIClient(apiKey: string): LLMClient {
-  const openai = new OpenAI({ apiKey });
+export const DEFAULT_MODEL = "gpt-4o-mini";
+export const EMBEDDING_MODEL = "text-embedding-3-small";
+
+/** Retries, timeouts and cancellation are handled by withResilience, so the SDK's own retries are off. */
+export interface OpenAIClientOptions {
+  apiKey: string;
+  /** Base URL of an OpenAI-compatible server (llama.cpp, vLLM, Ollama). Omit for the public OpenAI API. */
+  baseURL?: string;
+  model?: string;
+}
+
+export function createOpenAIClient(options: OpenAIClientOptions): LLMClient {
+  const openai = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL, maxRetries: 0 });
+  const model = options.model || DEFAULT_MODEL;
 
   return {
-    async complete(messages: LLMMessage[], options?: { maxTokens?: number }): Promise<string> {
-      const response = await openai.chat.completions.create({
-        model: "gpt-4o-mini",
-        messages: messages.map((m) => ({ role: m.role, content: m.content })),
-        max_tokens: options?.maxTokens ?? 4096,
-      });
+    model,
+    async complete(messages: LLMMessage[], completeOptions?: LLMCompleteOptions): Promise<string> {
+      const response = await openai.chat.completions.create(
+        {
+          model,
+          messages: messages.map((m) => ({ role: m.role, content: m.content })),
+          max_tokens: completeOptions?.maxTokens ?? 4096,
+          temperature: completeOptions?.temperature,
+        },
+        { signal: completeOptions?.signal }
+      );
+      if (response.usage) {
+        completeOptions?.onUsage?.({
+          promptTokens: response.usage.prompt_tokens,
+          completionTokens: response.usage.completion_tokens,
+        });
+      }
       const content = response.choices[0]?.message?.content;
       if (content == null) throw new Error("Empty LLM response");
       return content;
@@ -19,17 +42,22 @@ export function createOpenAIClient(apiKey: string): LLMClient {
   };
 }
 
-const EMBEDDING_MODEL = "text-embedding-3-small";
-
-export function createOpenAIEmbeddingClient(apiKey: string): EmbeddingClient {
-  const openai = new OpenAI({ apiKey });
+export function createOpenAIEmbeddingClient(options: OpenAIClientOptions): EmbeddingClient {
+  const openai = new OpenAI({ apiKey: options.apiKey, baseURL: options.baseURL, maxRetries: 0 });
+  const model = options.model || EMBEDDING_MODEL;
 
   return {
-    async embed(text: string): Promise<number[]> {
-      const response = await openai.embeddings.create({
-        model: EMBEDDING_MODEL,
-        input: text.slice(0, 8000),
-      });
+    async embed(text: string, embedOptions?: EmbedOptions): Promise<number[]> {
+      const response = await openai.embeddings.create(
+        {
+          model,
+          input: text.slice(0, 8000),
+        },
+        { signal: embedOptions?.signal }
+      );
+      if (response.usage) {
+        embedOptions?.onUsage?.({ promptTokens: response.usage.prompt_tokens, completionTokens: 0 });
+      }
       const vec = response.data[0]?.embedding;
       if (!vec || !Array.isArray(vec)) throw new Error("Empty embedding response");
       return vec;
@@ -0,0 +1,70 @@
+/**
+ * Registry of LLM and embedding provider factories. The provider for a vault is picked by name
+ * from its config at runtime, so clients can be swapped without restarting the server.
+ */
+import type { LLMClient } from "./client.js";
+import type { EmbeddingClient } from "./embedding.js";
+import { createOpenAIClient, createOpenAIEmbeddingClient } from "./openai.js";
+
+export interface ProviderSettings {
+  /** Registered provider name, e.g. "openai", "openai-compatible", "ollama". */
+  provider: string;
+  model?: string;
+  baseURL?: string;
+  apiKey?: string;
+}
+
+export type LLMProviderFactory = (settings: ProviderSettings) => LLMClient;
+export type EmbeddingProviderFactory = (settings: ProviderSettings) => EmbeddingClient;
+
+const llmProviders = new Map<string, LLMProviderFactory>();
+const embeddingProviders = new Map<string, EmbeddingProviderFactory>();
+
+export function registerLLMProvider(name: string, factory: LLMProviderFactory): void {
+  llmProviders.set(name, factory);
+}
+
+export function registerEmbeddingProvider(name: string, factory: EmbeddingProviderFactory): void {
+  embeddingProviders.set(name, factory);
+}
+
+export function listProviders(): { llm: string[]; embedding: string[] } {
+  return { llm: [...llmProviders.keys()], embedding: [...embeddingProviders.keys()] };
+}
+
+/** Build an LLM client from settings. Throws if the provider is unknown or misconfigured. */
+export function createLLMClient(settings: ProviderSettings): LLMClient {
+  const factory = llmProviders.get(settings.provider);
+  if (!factory) throw new Error(`Unknown LLM provider: ${settings.provider}`);
+  return factory(settings);
+}
+
+/** Build an embedding client from settings. Throws if the provider is unknown or misconfigured. */
+export function createEmbeddingClient(settings: ProviderSettings): EmbeddingClient {
+  const factory = embeddingProviders.get(settings.provider);
+  if (!factory) throw new Error(`Unknown embedding provider: ${settings.provider}`);
+  return factory(settings);
+}
+
+/** Local servers usually ignore the key, but the OpenAI SDK refuses an empty one. */
+const PLACEHOLDER_API_KEY = "not-needed";
+const OLLAMA_BASE_URL = "http://localhost:11434/v1";
+
+function openAIOptions(settings: ProviderSettings) {
+  if (!settings.apiKey) throw new Error("OpenAI provider requires an API key (set OPENAI_API_KEY)");
+  return { apiKey: settings.apiKey, model: settings.model };
+}
+
+function compatibleOptions(settings: ProviderSettings, defaultBaseURL?: string) {
+  const baseURL = settings.baseURL || defaultBaseURL;
+  if (!baseURL) throw new Error(`Provider ${settings.provider} requires a base URL`);
+  if (!settings.model) throw new Error(`Provider ${settings.provider} requires a model name`);
+  return { apiKey: settings.apiKey || PLACEHOLDER_API_KEY, baseURL, model: settings.model };
+}
+
+registerLLMProvider("openai", (s) => createOpenAIClient(openAIOptions(s)));
+registerEmbeddingProvider("openai", (s) => createOpenAIEmbeddingClient(openAIOptions(s)));
+registerLLMProvider("openai-compatible", (s) => createOpenAIClient(compatibleOptions(s)));
+registerEmbeddingProvider("openai-compatible", (s) => createOpenAIEmbeddingClient(compatibleOptions(s)));
+registerLLMProvider("ollama", (s) => createOpenAIClient(compatibleOptions(s, OLLAMA_BASE_URL)));
+registerEmbeddingProvider("ollama", (s) => createOpenAIEmbeddingClient(compatibleOptions(s, OLLAMA_BASE_URL)));
@@ -0,0 +1,245 @@
+/**
+ * Resilient provider calls: per-call timeouts, retries with exponential backoff and jitter (honouring
+ * Retry-After), cancellation through an AbortSignal, and a circuit breaker that fails fast while the
+ * provider is down. Sleep, clock and randomness are injectable so this can be exercised offline.
+ */
+import type { LLMClient, LLMMessage, LLMCompleteOptions } from "./client.js";
+import type { EmbeddingClient, EmbedOptions } from "./embedding.js";
+import { LLMTimeoutError, LLMAbortedError, CircuitOpenError } from "./errors.js";
+import { getTaskContext } from "../agent/taskContext.js";
+import { sleep as defaultSleep } from "../lib/sleep.js";
+
+export interface ResilienceOptions {
+  /** Retries after the first attempt for retryable failures. */
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  /** Per-attempt timeout. */
+  timeoutMs: number;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  random?: () => number;
+  /** Clock for Retry-After dates. */
+  now?: () => number;
+}
+
+export const DEFAULT_RESILIENCE: ResilienceOptions = {
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  timeoutMs: 120_000,
+};
+
+/** Longest Retry-After we honour, so a bogus header cannot park the agent for hours. */
+const MAX_RETRY_AFTER_MS = 10 * 60_000;
+const RETRYABLE_STATUS = new Set([408, 409, 425, 429]);
+const NETWORK_ERROR_CODES = new Set(["ECONNRESET", "ECONNREFUSED", "ETIMEDOUT", "ENOTFOUND", "EAI_AGAIN", "EPIPE"]);
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failed attempts that open the circuit. */
+  threshold: number;
+  cooldownMs: number;
+  now?: () => number;
+}
+
+export interface CircuitBreaker {
+  /**
+   * Throws CircuitOpenError while open; after the cooldown lets one trial call through, and throws for
+   * every other call until that trial has succeeded, failed or been released.
+   */
+  check(): void;
+  recordSuccess(): void;
+  recordFailure(): void;
+  /** The call let through by check() ended without an outcome (aborted or rejected): allow another trial. */
+  releaseTrial(): void;
+  snapshot(): { state: CircuitState; consecutiveFailures: number; retryAt: number | null };
+}
+
+export function createCircuitBreaker(options: CircuitBreakerOptions): CircuitBreaker {
+  const now = options.now ?? Date.now;
+  let state: CircuitState = "closed";
+  let consecutiveFailures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  return {
+    check() {
+      if (state === "closed") return;
+      if (state === "open") {
+        if (now() - openedAt < options.cooldownMs) throw new CircuitOpenError(openedAt + options.cooldownMs);
+        state = "half-open";
+      } else if (trialInFlight) {
+        // the others retry once the trial has settled
+        throw new CircuitOpenError(now());
+      }
+      trialInFlight = true;
+    },
+    recordSuccess() {
+      state = "closed";
+      consecutiveFailures = 0;
+      trialInFlight = false;
+    },
+    recordFailure() {
+      trialInFlight = false;
+      consecutiveFailures++;
+      if (state === "half-open" || consecutiveFailures >= options.threshold) {
+        state = "open";
+        openedAt = now();
+      }
+    },
+    releaseTrial() {
+      trialInFlight = false;
+    },
+    snapshot() {
+      return {
+        state,
+        consecutiveFailures,
+        retryAt: state === "open" ? openedAt + options.cooldownMs : null,
+      };
+    },
+  };
+}
+
+function errorStatus(err: unknown): number | undefined {
+  const status = (err as { status?: unknown } | null)?.status;
+  return typeof status === "number" ? status : undefined;
+}
+
+/** Timeouts, 408/409/425/429, 5xx and connection failures are worth retrying; other errors are not. */
+export function isRetryable(err: unknown): boolean {
+  if (err instanceof LLMTimeoutError) return true;
+  const status = errorStatus(err);
+  if (status !== undefined) return RETRYABLE_STATUS.has(status) || status >= 500;
+  const e = err as { name?: string; code?: string; cause?: { code?: string } } | null;
+  if (e?.name === "APIConnectionError" || e?.name === "APIConnectionTimeoutError") return true;
+  const code = e?.code ?? e?.cause?.code;
+  return typeof code === "string" && NETWORK_ERROR_CODES.has(code);
+}
+
+/** Delay requested by the server via retry-after-ms / Retry-After (seconds or HTTP date), if any. */
+export function retryAfterMs(err: unknown, now: number = Date.now()): number | null {
+  const headers = (err as { headers?: unknown } | null)?.headers;
+  if (!headers || typeof headers !== "object") return null;
+  const get = (name: string): string | null => {
+    const h = headers as { get?: (n: string) => string | null } & Record<string, unknown>;
+    if (typeof h.get === "function") return h.get(name);
+    const value = h[name];
+    return typeof value === "string" ? value : null;
+  };
+  const ms = Number(get("retry-after-ms"));
+  if (get("retry-after-ms") && Number.isFinite(ms)) return Math.min(Math.max(0, ms), MAX_RETRY_AFTER_MS);
+  const header = get("retry-after");
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.min(Math.max(0, seconds * 1000), MAX_RETRY_AFTER_MS);
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return null;
+  return Math.min(Math.max(0, date - now), MAX_RETRY_AFTER_MS);
+}
+
+/** Full-jitter exponential backoff, unless the server asked for a specific delay. */
+function backoffDelay(err: unknown, attempt: number, options: ResilienceOptions): number {
+  const requested = retryAfterMs(err, (options.now ?? Date.now)());
+  if (requested != null) return requested;
+  const capped = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round((options.random ?? Math.random)() * capped);
+}
+
+/** Run one attempt, rejecting on timeout or abort even if the provider ignores the signal. */
+async function attemptWithTimeout<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  outer: AbortSignal | undefined,
+  timeoutMs: number
+): Promise<T> {
+  const controller = new AbortController();
+  let onAbort: (() => void) | null = null;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const interrupted = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => {
+      controller.abort();
+      reject(new LLMTimeoutError(timeoutMs));
+    }, timeoutMs);
+    onAbort = () => {
+      controller.abort();
+      reject(new LLMAbortedError());
+    };
+    outer?.addEventListener("abort", onAbort, { once: true });
+  });
+  try {
+    return await Promise.race([fn(controller.signal), interrupted]);
+  } finally {
+    if (timer) clearTimeout(timer);
+    if (onAbort) outer?.removeEventListener("abort", onAbort);
+  }
+}
+
+async function callResiliently<T>(
+  fn: (signal: AbortSignal) => Promise<T>,
+  outer: AbortSignal | undefined,
+  options: ResilienceOptions,
+  breaker: CircuitBreaker
+): Promise<T> {
+  const sleep = options.sleep ?? defaultSleep;
+  for (let attempt = 0; ; attempt++) {
+    if (outer?.aborted) throw new LLMAbortedError();
+    breaker.check();
+    try {
+      const result = await attemptWithTimeout(fn, outer, options.timeoutMs);
+      breaker.recordSuccess();
+      return result;
+    } catch (err) {
+      if (err instanceof LLMAbortedError || outer?.aborted) {
+        breaker.releaseTrial();
+        throw new LLMAbortedError();
+      }
+      if (!isRetryable(err)) {
+        breaker.releaseTrial();
+        throw err;
+      }
+      breaker.recordFailure();
+      if (attempt >= options.maxRetries) throw err;
+      try {
+        await sleep(backoffDelay(err, attempt, options), outer);
+      } catch {
+        throw new LLMAbortedError();
+      }
+    }
+  }
+}
+
+/** The caller's signal, or else the current task's (cancelled when the agent is stopped). */
+function signalFor(explicit: AbortSignal | undefined): AbortSignal | undefined {
+  return explicit ?? getTaskContext()?.signal;
+}
+
+export function withResilience(inner: LLMClient, options: ResilienceOptions, breaker: CircuitBreaker): LLMClient {
+  return {
+    model: inner.model,
+    complete(messages: LLMMessage[], completeOptions?: LLMCompleteOptions): Promise<string> {
+      return callResiliently(
+        (signal) => inner.complete(messages, { ...completeOptions, signal }),
+        signalFor(completeOptions?.signal),
+        options,
+        breaker
+      );
+    },
+  };
+}
+
+export function withEmbeddingResilience(
+  inner: EmbeddingClient,
+  options: ResilienceOptions,
+  breaker: CircuitBreaker
+): EmbeddingClient {
+  return {
+    embed(text: string, embedOptions?: EmbedOptions): Promise<number[]> {
+      return callResiliently(
+        (signal) => inner.embed(text, { ...embedOptions, signal }),
+        signalFor(embedOptions?.signal),
+        options,
+        breaker
+      );
+    },
+  };
+}
@@ -0,0 +1,279 @@
+/**
+ * Builds the active LLM and embedding clients from a vault's provider config and hands them to the agent.
+ * Re-run whenever the vault or its config changes; the agent picks up the new client on its next task.
+ */
+import { setLLM } from "../agent/loop.js";
+import { setEmbeddingClient } from "../retrieval/retrieve.js";
+import { vaultState } from "../agent/vaultScope.js";
+import { loadLLMConfig, defaultLLMConfig } from "../storage/llmConfig.js";
+import { loadAgentConfig } from "../storage/agentConfig.js";
+import { createLLMClient, createEmbeddingClient, type ProviderSettings } from "./registry.js";
+import {
+  createResponseCache,
+  withLLMCache,
+  withEmbeddingCache,
+  type ResponseCache,
+  type CacheStats,
+} from "./cache.js";
+import {
+  setUsageVault,
+  priceFor,
+  withUsageAccounting,
+  withEmbeddingUsageAccounting,
+} from "./usage.js";
+import { DEFAULT_MODEL, EMBEDDING_MODEL } from "./openai.js";
+import {
+  createCircuitBreaker,
+  withResilience,
+  withEmbeddingResilience,
+  DEFAULT_RESILIENCE,
+  type CircuitBreaker,
+  type CircuitState,
+  type ResilienceOptions,
+} from "./resilient.js";
+import type { AgentConfig, ModelRoute } from "../storage/agentConfig.js";
+import type { LLMClient, LLMMessage, LLMCompleteOptions } from "./client.js";
+import type { Stage, TaskKind } from "../agent/types.js";
+
+export interface ActiveProvider {
+  provider: string;
+  model: string | null;
+  baseURL: string | null;
+  apiKeySet: boolean;
+}
+
+/** A routed stage or task kind: where its completions go and the call settings it overrides. */
+export interface ActiveRoute extends ActiveProvider {
+  maxTokens: number | null;
+  temperature: number | null;
+}
+
+export interface ActiveProviders {
+  completion: ActiveProvider | null;
+  embedding: ActiveProvider | null;
+  routes: Partial<Record<Stage | TaskKind, ActiveRoute>>;
+  error: string | null;
+}
+
+interface RuntimeState {
+  active: ActiveProviders;
+  cache: ResponseCache | null;
+  completionBreaker: CircuitBreaker | null;
+  /** Breakers of routed stages and task kinds; a route to the default provider and model shares its breaker. */
+  routeBreakers: Partial<Record<Stage | TaskKind, CircuitBreaker>>;
+  embeddingBreaker: CircuitBreaker | null;
+}
+
+const runtime = vaultState<RuntimeState>(() => ({
+  active: { completion: null, embedding: null, routes: {}, error: null },
+  cache: null,
+  completionBreaker: null,
+  routeBreakers: {},
+  embeddingBreaker: null,
+}));
+
+export interface ProviderHealth {
+  state: CircuitState;
+  consecutiveFailures: number;
+  retryAt: string | null;
+}
+
+/** Only the public OpenAI provider falls back to OPENAI_API_KEY, so the key is never sent to a third-party server. */
+function resolveSettings(settings: ProviderSettings): ProviderSettings {
+  if (settings.apiKey || settings.provider !== "openai") return settings;
+  return { ...settings, apiKey: process.env.OPENAI_API_KEY || undefined };
+}
+
+/** Cache namespace: responses from different servers or models never collide. Excludes the key. */
+function namespaceOf(settings: ProviderSettings): string {
+  return [settings.provider, settings.baseURL ?? "", settings.model ?? ""].join("|");
+}
+
+function resilienceOptions(config: Required<AgentConfig> | null): ResilienceOptions {
+  if (!config) return DEFAULT_RESILIENCE;
+  return {
+    ...DEFAULT_RESILIENCE,
+    maxRetries: config.llmMaxRetries,
+    timeoutMs: config.llmTimeoutSec * 1000,
+  };
+}
+
+/** Route settings over the vault's completion provider. Another provider does not inherit its key or server. */
+function routeSettings(base: ProviderSettings, route: ModelRoute): ProviderSettings {
+  if (!route.provider || route.provider === base.provider) {
+    return { ...base, model: route.model ?? base.model, baseURL: route.baseURL ?? base.baseURL };
+  }
+  return { provider: route.provider, model: route.model, baseURL: route.baseURL };
+}
+
+/** Apply a route's maxTokens and temperature to every call, overriding what the stage asked for. */
+function withRouteDefaults(inner: LLMClient, route: ModelRoute): LLMClient {
+  if (route.maxTokens == null && route.temperature == null) return inner;
+  return {
+    model: inner.model,
+    complete(messages: LLMMessage[], options?: LLMCompleteOptions): Promise<string> {
+      return inner.complete(messages, {
+        ...options,
+        maxTokens: route.maxTokens ?? options?.maxTokens,
+        temperature: route.temperature ?? options?.temperature,
+      });
+    },
+  };
+}
+
+function describe(settings: ProviderSettings): ActiveProvider {
+  return {
+    provider: settings.provider,
+    model: settings.model ?? null,
+    baseURL: settings.baseURL ?? null,
+    apiKeySet: Boolean(settings.apiKey),
+  };
+}
+
+/**
+ * Load provider config for the vault (or env defaults when no vault is set) and install the clients.
+ * Never throws: a misconfigured provider leaves the agent without a client and reports the reason.
+ */
+export async function applyLLMConfig(vaultPath: string | null): Promise<ActiveProviders> {
+  const config = vaultPath ? await loadLLMConfig(vaultPath) : defaultLLMConfig();
+  const errors: string[] = [];
+
+  await setUsageVault(vaultPath);
+  const state = runtime();
+  let cache: ResponseCache | null = null;
+  const agentConfig = vaultPath ? await loadAgentConfig(vaultPath) : null;
+  if (vaultPath && agentConfig?.cacheEnabled) {
+    cache = createResponseCache(vaultPath, { maxBytes: agentConfig.cacheMaxMB * 1024 * 1024 });
+  }
+  const resilience = resilienceOptions(agentConfig);
+  const breakerOptions = {
+    threshold: agentConfig?.circuitBreakerThreshold ?? 5,
+    cooldownMs: (agentConfig?.circuitBreakerCooldownSec ?? 60) * 1000,
+  };
+  // one breaker per provider, server and model, so an outage at one does not stop stages routed elsewhere
+  const breakers = new Map<string, CircuitBreaker>();
+  const breakerFor = (settings: ProviderSettings): CircuitBreaker => {
+    const key = namespaceOf(settings);
+    let breaker = breakers.get(key);
+    if (!breaker) {
+      breaker = createCircuitBreaker(breakerOptions);
+      breakers.set(key, breaker);
+    }
+    return breaker;
+  };
+  const embeddingBreaker = createCircuitBreaker(breakerOptions);
+  state.cache = cache;
+  state.completionBreaker = null;
+  state.routeBreakers = {};
+  state.embeddingBreaker = embeddingBreaker;
+
+  const buildCompletion = (settings: ProviderSettings): LLMClient => {
+    const client = withResilience(createLLMClient(settings), resilience, breakerFor(settings));
+    const cached = cache ? withLLMCache(client, cache, namespaceOf(settings)) : client;
+    const model = settings.model || DEFAULT_MODEL;
+    return withUsageAccounting(cached, model, priceFor(settings, DEFAULT_MODEL, config.pricing));
+  };
+
+  const completion = resolveSettings(config.completion);
+  let completionInfo: ActiveProvider | null = null;
+  const routes: Partial<Record<Stage | TaskKind, LLMClient>> = {};
+  const routeInfo: ActiveProviders["routes"] = {};
+  try {
+    const defaultClient = buildCompletion(completion);
+    state.completionBreaker = breakerFor(completion);
+    completionInfo = describe(completion);
+    for (const [key, route] of Object.entries(agentConfig?.modelRouting ?? {})) {
+      const routeKey = key as Stage | TaskKind;
+      const settings = resolveSettings(routeSettings(config.completion, route));
+      try {
+        routes[routeKey] = withRouteDefaults(buildCompletion(settings), route);
+        state.routeBreakers[routeKey] = breakerFor(settings);
+        routeInfo[routeKey] = {
+          ...describe(settings),
+          maxTokens: route.maxTokens ?? null,
+          temperature: route.temperature ?? null,
+        };
+      } catch (err) {
+        errors.push(`Route ${key}: ${(err as Error).message}`);
+      }
+    }
+    setLLM(defaultClient, routes);
+  } catch (err) {
+    setLLM(null);
+    errors.push((err as Error).message);
+  }
+
+  let embeddingInfo: ActiveProvider | null = null;
+  if (config.embedding) {
+    const embedding = resolveSettings(config.embedding);
+    try {
+      const client = withEmbeddingResilience(createEmbeddingClient(embedding), resilience, embeddingBreaker);
+      const cached = cache ? withEmbeddingCache(client, cache, namespaceOf(embedding)) : client;
+      const model = embedding.model || EMBEDDING_MODEL;
+      const pricing = priceFor(embedding, EMBEDDING_MODEL, config.pricing);
+      setEmbeddingClient(withEmbeddingUsageAccounting(cached, model, pricing));
+      embeddingInfo = describe(embedding);
+    } catch (err) {
+      setEmbeddingClient(null);
+      errors.push(`Embeddings: ${(err as Error).message}`);
+    }
+  } else {
+    setEmbeddingClient(null);
+  }
+
+  state.active = {
+    completion: completionInfo,
+    embedding: embeddingInfo,
+    routes: routeInfo,
+    error: errors.length ? errors.join("; ") : null,
+  };
+  return state.active;
+}
+
+/** Providers currently in use, without secrets. */
+export function getActiveProviders(): ActiveProviders {
+  return runtime().active;
+}
+
+/** Hit/miss counts and size of the current vault's response cache. */
+export async function getCacheStats(): Promise<CacheStats> {
+  const { cache } = runtime();
+  if (!cache) {
+    const zero = { completion: 0, embedding: 0 };
+    return { enabled: false, hits: zero, misses: { ...zero }, entries: 0, bytes: 0, maxBytes: 0 };
+  }
+  return cache.stats();
+}
+
+/** Delete every cached response for the current vault. */
+export async function clearResponseCache(): Promise<void> {
+  const { cache } = runtime();
+  if (cache) await cache.clear();
+}
+
+function healthOf(breaker: CircuitBreaker | null): ProviderHealth | null {
+  if (!breaker) return null;
+  const snap = breaker.snapshot();
+  return {
+    state: snap.state,
+    consecutiveFailures: snap.consecutiveFailures,
+    retryAt: snap.retryAt != null ? new Date(snap.retryAt).toISOString() : null,
+  };
+}
+
+export interface ProvidersHealth {
+  completion: ProviderHealth | null;
+  embedding: ProviderHealth | null;
+  /** Routed stages and task kinds, keyed like `modelRouting`. */
+  routes: Partial<Record<Stage | TaskKind, ProviderHealth>>;
+}
+
+/** Circuit breaker state for the completion and embedding providers and each route. */
+export function getProviderHealth(): ProvidersHealth {
+  const { completionBreaker, routeBreakers, embeddingBreaker } = runtime();
+  const routes: ProvidersHealth["routes"] = {};
+  for (const [key, breaker] of Object.entries(routeBreakers)) {
+    routes[key as Stage | TaskKind] = healthOf(breaker) ?? undefined;
+  }
+  return { completion: healthOf(completionBreaker), embedding: healthOf(embeddingBreaker), routes };
+}
@@ -0,0 +1,114 @@
+/**
+ * Minimal typed schemas for validating JSON returned by the model. Each schema checks a value,
+ * collects human-readable errors (fed back to the model on repair) and returns the typed value.
+ */
+export interface Schema<T> {
+  /** Short type description used in error messages, e.g. "string" or "array of object". */
+  readonly description: string;
+  check(value: unknown, path: string, errors: string[]): T;
+}
+
+export type Infer<S> = S extends Schema<infer T> ? T : never;
+
+type Shape = Record<string, Schema<unknown>>;
+type ShapeOutput<S extends Shape> = {
+  [K in keyof S as undefined extends Infer<S[K]> ? never : K]: Infer<S[K]>;
+} & {
+  [K in keyof S as undefined extends Infer<S[K]> ? K : never]?: Infer<S[K]>;
+};
+
+function describeValue(value: unknown): string {
+  if (value === null) return "null";
+  if (Array.isArray(value)) return "array";
+  return typeof value;
+}
+
+function fail<T>(errors: string[], path: string, expected: string, value: unknown, got = describeValue(value)): T {
+  errors.push(`${path || "(root)"}: expected ${expected}, got ${got}`);
+  return undefined as T;
+}
+
+export function string(options: { nonEmpty?: boolean } = {}): Schema<string> {
+  return {
+    description: options.nonEmpty ? "non-empty string" : "string",
+    check(value, path, errors) {
+      if (typeof value !== "string") return fail(errors, path, this.description, value);
+      if (options.nonEmpty && !value.trim()) return fail(errors, path, this.description, value, "empty string");
+      return value;
+    },
+  };
+}
+
+export function number(options: { min?: number; max?: number } = {}): Schema<number> {
+  const range =
+    options.min != null && options.max != null ? ` between ${options.min} and ${options.max}` : "";
+  return {
+    description: `number${range}`,
+    check(value, path, errors) {
+      if (typeof value !== "number" || Number.isNaN(value)) return fail(errors, path, this.description, value);
+      if ((options.min != null && value < options.min) || (options.max != null && value > options.max)) {
+        return fail(errors, path, this.description, value, String(value));
+      }
+      return value;
+    },
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    description: "boolean",
+    check(value, path, errors) {
+      if (typeof value !== "boolean") return fail(errors, path, this.description, value);
+      return value;
+    },
+  };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    description: `array of ${item.description}`,
+    check(value, path, errors) {
+      if (!Array.isArray(value)) return fail(errors, path, this.description, value);
+      return value.map((v, i) => item.check(v, `${path}[${i}]`, errors));
+    },
+  };
+}
+
+/** Object with known keys. Unknown keys are dropped rather than rejected. */
+export function object<S extends Shape>(shape: S): Schema<ShapeOutput<S>> {
+  return {
+    description: "object",
+    check(value, path, errors) {
+      if (value === null || typeof value !== "object" || Array.isArray(value)) {
+        return fail(errors, path, this.description, value);
+      }
+      const input = value as Record<string, unknown>;
+      const out: Record<string, unknown> = {};
+      for (const [key, schema] of Object.entries(shape)) {
+        const checked = schema.check(input[key], path ? `${path}.${key}` : key, errors);
+        if (checked !== undefined) out[key] = checked;
+      }
+      return out as ShapeOutput<S>;
+    },
+  };
+}
+
+export function optional<T>(inner: Schema<T>): Schema<T | undefined> {
+  return {
+    description: `${inner.description} (optional)`,
+    check(value, path, errors) {
+      if (value === undefined) return undefined;
+      return inner.check(value, path, errors);
+    },
+  };
+}
+
+export function nullable<T>(inner: Schema<T>): Schema<T | null> {
+  return {
+    description: `${inner.description} or null`,
+    check(value, path, errors) {
+      if (value === null) return null;
+      return inner.check(value, path, errors);
+    },
+  };
+}
@@ -0,0 +1,84 @@
+/**
+ * Structured JSON output: parse the model response, validate it against a schema, and when it does not
+ * match, send the validation errors back to the model for a bounded number of repair attempts.
+ */
+import type { LLMClient, LLMMessage } from "./client.js";
+import type { Schema } from "./schema.js";
+import { StructuredOutputError } from "./errors.js";
+
+const DEFAULT_MAX_REPAIRS = 2;
+
+export interface StructuredCompleteOptions {
+  /** Names the response shape in errors and logs, e.g. "insights" or "deduce". */
+  label: string;
+  maxTokens?: number;
+  /** Extra model calls allowed after the first invalid response. Default 2. */
+  maxRepairs?: number;
+}
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+/** Take the outermost {...} from the response, ignoring code fences and surrounding prose. */
+function extractJsonText(raw: string): string | null {
+  const start = raw.indexOf("{");
+  const end = raw.lastIndexOf("}");
+  if (start === -1 || end <= start) return null;
+  return raw.slice(start, end + 1);
+}
+
+/** Parse JSON, tolerating trailing commas (the most common model slip) without a round-trip. */
+function parseLenient(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (err) {
+    const withoutTrailingCommas = text.replace(/,(\s*[}\]])/g, "$1");
+    if (withoutTrailingCommas === text) throw err;
+    return JSON.parse(withoutTrailingCommas);
+  }
+}
+
+/** Parse and validate a raw model response against a schema. */
+export function parseStructured<T>(raw: string, schema: Schema<T>): ParseResult<T> {
+  const jsonText = extractJsonText(raw);
+  if (jsonText == null) return { ok: false, errors: ["response contains no JSON object"] };
+  let data: unknown;
+  try {
+    data = parseLenient(jsonText);
+  } catch (err) {
+    return { ok: false, errors: [`invalid JSON: ${(err as Error).message}`] };
+  }
+  const errors: string[] = [];
+  const value = schema.check(data, "", errors);
+  return errors.length > 0 ? { ok: false, errors } : { ok: true, value };
+}
+
+function repairPrompt(errors: string[]): string {
+  return `Your previous response could not be used:
+${errors.map((e) => `- ${e}`).join("\n")}
+
+Respond again with only the corrected JSON object, in the exact format requested. No other text.`;
+}
+
+/**
+ * Complete and return validated JSON. Throws StructuredOutputError when the output is still invalid
+ * after the repair attempts; provider errors propagate unchanged.
+ */
+export async function completeStructured<T>(
+  llm: LLMClient,
+  messages: LLMMessage[],
+  schema: Schema<T>,
+  options: StructuredCompleteOptions
+): Promise<T> {
+  const maxRepairs = options.maxRepairs ?? DEFAULT_MAX_REPAIRS;
+  const conversation = [...messages];
+  let errors: string[] = [];
+  let raw = "";
+  for (let attempt = 0; attempt <= maxRepairs; attempt++) {
+    raw = await llm.complete(conversation, { maxTokens: options.maxTokens });
+    const result = parseStructured(raw, schema);
+    if (result.ok) return result.value;
+    errors = result.errors;
+    conversation.push({ role: "assistant", content: raw }, { role: "user", content: repairPrompt(errors) });
+  }
+  throw new StructuredOutputError(options.label, errors, maxRepairs + 1, raw);
+}
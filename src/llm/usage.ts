@@ -0,0 +1,304 @@
+/**
+ * Token and cost accounting. Wraps LLM and embedding clients so every call is recorded against the
+ * current task (stage, task kind, source or note) and persisted per vault in .vaultmaker/usage.json.
+ * Also enforces per-run and per-source budgets by refusing calls once they are used up. Calls to a
+ * model with no price (in `pricing` of llmConfig.json, or the built-in OpenAI list) have an unknown cost.
+ */
+import type { LLMClient, LLMMessage, LLMCompleteOptions, LLMUsage } from "./client.js";
+import type { EmbeddingClient, EmbedOptions } from "./embedding.js";
+import type { ProviderSettings } from "./registry.js";
+import { BudgetExceededError } from "./errors.js";
+import { getTaskContext } from "../agent/taskContext.js";
+import { appendLog } from "../agent/queue.js";
+import { vaultState } from "../agent/vaultScope.js";
+import {
+  loadUsage,
+  saveUsage,
+  emptyUsage,
+  emptyTotals,
+  type UsageData,
+  type UsageTotals,
+  type RunUsage,
+} from "../storage/usage.js";
+
+/** USD per million tokens. */
+export interface Pricing {
+  input: number;
+  output: number;
+}
+
+/** List prices for common OpenAI models; other models and providers are priced in llmConfig.json. */
+const OPENAI_PRICES: Record<string, Pricing> = {
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+};
+
+/** Limits for one run of the agent. 0 means unlimited. */
+export interface UsageBudget {
+  maxTokensPerRun: number;
+  maxCostPerRun: number;
+  maxTokensPerSource: number;
+}
+
+const SAVE_DELAY_MS = 1000;
+
+interface UsageState {
+  vaultPath: string | null;
+  usage: UsageData;
+  currentRun: RunUsage | null;
+  runTokensByTarget: Map<string, number>;
+  budget: UsageBudget;
+  saveTimer: ReturnType<typeof setTimeout> | null;
+  /** Models already warned about having no price. */
+  unpricedWarned: Set<string>;
+}
+
+const accounting = vaultState<UsageState>(() => ({
+  vaultPath: null,
+  usage: emptyUsage(),
+  currentRun: null,
+  runTokensByTarget: new Map(),
+  budget: { maxTokensPerRun: 0, maxCostPerRun: 0, maxTokensPerSource: 0 },
+  saveTimer: null,
+  unpricedWarned: new Set(),
+}));
+
+/** The configured price of the model, else its OpenAI list price; null when unknown. */
+export function priceFor(
+  settings: ProviderSettings,
+  defaultModel: string,
+  pricing: Record<string, Pricing> = {}
+): Pricing | null {
+  const model = settings.model || defaultModel;
+  if (pricing[model]) return pricing[model];
+  if (settings.provider !== "openai") return null;
+  return OPENAI_PRICES[model] ?? null;
+}
+
+/** Rough token count for providers that do not report usage (about four characters per token). */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/** `costUsd` null means the call cost something, but the model has no price. */
+function addTo(totals: UsageTotals, call: LLMUsage, costUsd: number | null): void {
+  totals.calls++;
+  if (call.cached) totals.cachedCalls++;
+  totals.promptTokens += call.promptTokens;
+  totals.completionTokens += call.completionTokens;
+  if (costUsd == null) totals.unpricedCalls = (totals.unpricedCalls ?? 0) + 1;
+  else totals.costUsd += costUsd;
+}
+
+function bucket(map: Record<string, UsageTotals>, key: string): UsageTotals {
+  if (!map[key]) map[key] = emptyTotals();
+  return map[key];
+}
+
+function scheduleSave(): void {
+  const state = accounting();
+  if (!state.vaultPath || state.saveTimer) return;
+  state.saveTimer = setTimeout(() => {
+    state.saveTimer = null;
+    void flushUsage();
+  }, SAVE_DELAY_MS);
+}
+
+function record(model: string, pricing: Pricing | null, call: LLMUsage): void {
+  const { usage, currentRun, runTokensByTarget, unpricedWarned } = accounting();
+  let costUsd: number | null = 0;
+  if (pricing) {
+    costUsd = (call.promptTokens * pricing.input + call.completionTokens * pricing.output) / 1_000_000;
+  } else if (!call.cached) {
+    costUsd = null;
+    if (!unpricedWarned.has(model)) {
+      unpricedWarned.add(model);
+      appendLog(
+        `Usage: no price for model ${model}; its cost is reported as unknown and does not count toward ` +
+          `maxCostPerRun. Set "pricing" in the LLM config to price it.`,
+        { level: "warn" }
+      );
+    }
+  }
+  const context = getTaskContext();
+  addTo(usage.total, call, costUsd);
+  addTo(bucket(usage.byModel, model), call, costUsd);
+  if (context?.stage) addTo(bucket(usage.byStage, context.stage), call, costUsd);
+  if (context?.taskKind) addTo(bucket(usage.byTaskKind, context.taskKind), call, costUsd);
+  if (context?.target) {
+    addTo(bucket(usage.byTarget, context.target), call, costUsd);
+    const tokens = call.promptTokens + call.completionTokens;
+    runTokensByTarget.set(context.target, (runTokensByTarget.get(context.target) ?? 0) + tokens);
+  }
+  if (currentRun) addTo(currentRun.totals, call, costUsd);
+  scheduleSave();
+}
+
+/** Throw BudgetExceededError if the current run, or the source being extracted, is over budget. */
+function checkBudget(): void {
+  const { currentRun, budget, runTokensByTarget } = accounting();
+  if (!currentRun) return;
+  const totals = currentRun.totals;
+  const runTokens = totals.promptTokens + totals.completionTokens;
+  if (budget.maxTokensPerRun > 0 && runTokens >= budget.maxTokensPerRun) {
+    throw new BudgetExceededError("run", `run used ${runTokens} of ${budget.maxTokensPerRun} tokens`);
+  }
+  if (budget.maxCostPerRun > 0 && totals.costUsd >= budget.maxCostPerRun) {
+    throw new BudgetExceededError(
+      "run",
+      `run cost $${totals.costUsd.toFixed(4)} of $${budget.maxCostPerRun.toFixed(2)} budget`
+    );
+  }
+  const context = getTaskContext();
+  if (budget.maxTokensPerSource > 0 && context?.taskKind === "extract-insights" && context.target) {
+    const sourceTokens = runTokensByTarget.get(context.target) ?? 0;
+    if (sourceTokens >= budget.maxTokensPerSource) {
+      throw new BudgetExceededError(
+        "source",
+        `source used ${sourceTokens} of ${budget.maxTokensPerSource} tokens`
+      );
+    }
+  }
+}
+
+/** Point accounting at a vault (or none) and load its persisted totals. */
+export async function setUsageVault(vaultPath: string | null): Promise<void> {
+  const state = accounting();
+  if (state.vaultPath === vaultPath) return;
+  await flushUsage();
+  state.vaultPath = vaultPath;
+  state.usage = vaultPath ? await loadUsage(vaultPath) : emptyUsage();
+  state.currentRun = null;
+}
+
+/** Start counting a new run against the given budget. */
+export function beginUsageRun(runId: string, runBudget: UsageBudget): void {
+  const state = accounting();
+  state.budget = runBudget;
+  state.currentRun = { runId, startedAt: new Date().toISOString(), totals: emptyTotals() };
+  state.runTokensByTarget = new Map();
+  state.usage.lastRun = state.currentRun;
+}
+
+/** Continue counting a paused run (same totals) if it was the last run; otherwise start a new one. */
+export function resumeUsageRun(runId: string, runBudget: UsageBudget): void {
+  const state = accounting();
+  if (state.usage.lastRun?.runId !== runId) {
+    beginUsageRun(runId, runBudget);
+    return;
+  }
+  state.budget = runBudget;
+  state.currentRun = state.usage.lastRun;
+}
+
+/** Stop enforcing the run budget; totals stay visible as the last run. */
+export function endUsageRun(): void {
+  accounting().currentRun = null;
+}
+
+/** Write pending usage to disk now. */
+export async function flushUsage(): Promise<void> {
+  const state = accounting();
+  if (state.saveTimer) {
+    clearTimeout(state.saveTimer);
+    state.saveTimer = null;
+  }
+  if (!state.vaultPath) return;
+  try {
+    await saveUsage(state.vaultPath, state.usage);
+  } catch {
+    // non-fatal
+  }
+}
+
+/** Totals as reported: `costUsd` is null when some calls were to a model without a price. */
+export interface ReportedTotals extends Omit<UsageTotals, "costUsd"> {
+  costUsd: number | null;
+  unpricedCalls: number;
+}
+
+export interface UsageSummary {
+  total: ReportedTotals;
+  lastRun: (Omit<RunUsage, "totals"> & { totals: ReportedTotals }) | null;
+  running: boolean;
+  byStage: Record<string, ReportedTotals>;
+  byModel: Record<string, ReportedTotals>;
+  budget: UsageBudget;
+}
+
+function report(totals: UsageTotals): ReportedTotals {
+  const unpricedCalls = totals.unpricedCalls ?? 0;
+  return { ...totals, costUsd: unpricedCalls > 0 ? null : totals.costUsd, unpricedCalls };
+}
+
+function reportAll(map: Record<string, UsageTotals>): Record<string, ReportedTotals> {
+  return Object.fromEntries(Object.entries(map).map(([key, totals]) => [key, report(totals)]));
+}
+
+/** Totals for the status payload (per-target breakdown stays on disk). */
+export function getUsageSummary(): UsageSummary {
+  const { usage, currentRun, budget } = accounting();
+  return {
+    total: report(usage.total),
+    lastRun: usage.lastRun ? { ...usage.lastRun, totals: report(usage.lastRun.totals) } : null,
+    running: currentRun != null,
+    byStage: reportAll(usage.byStage),
+    byModel: reportAll(usage.byModel),
+    budget,
+  };
+}
+
+/** Record usage for every completion; estimate from text length when the provider reports none. */
+export function withUsageAccounting(inner: LLMClient, model: string, pricing: Pricing | null): LLMClient {
+  return {
+    model: inner.model ?? model,
+    async complete(messages: LLMMessage[], options?: LLMCompleteOptions): Promise<string> {
+      checkBudget();
+      let reported: LLMUsage | null = null;
+      const result = await inner.complete(messages, {
+        ...options,
+        onUsage: (u) => {
+          reported = u;
+          options?.onUsage?.(u);
+        },
+      });
+      record(
+        model,
+        pricing,
+        reported ?? {
+          promptTokens: estimateTokens(messages.map((m) => m.content).join("\n")),
+          completionTokens: estimateTokens(result),
+        }
+      );
+      return result;
+    },
+  };
+}
+
+/** Record usage for every embedding; estimate from text length when the provider reports none. */
+export function withEmbeddingUsageAccounting(
+  inner: EmbeddingClient,
+  model: string,
+  pricing: Pricing | null
+): EmbeddingClient {
+  return {
+    async embed(text: string, options?: EmbedOptions): Promise<number[]> {
+      checkBudget();
+      let reported: LLMUsage | null = null;
+      const result = await inner.embed(text, {
+        ...options,
+        onUsage: (u) => {
+          reported = u;
+          options?.onUsage?.(u);
+        },
+      });
+      record(model, pricing, reported ?? { promptTokens: estimateTokens(text.slice(0, 8000)), completionTokens: 0 });
+      return result;
+    },
+  };
+}
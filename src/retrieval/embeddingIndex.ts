@@ -1,9 +1,18 @@
-import { readFile, writeFile, mkdir } from "fs/promises";
+import { readFile, mkdir } from "fs/promises";
 import path from "path";
+import { createKeyedMutex } from "../lib/mutex.js";
+import { writeFileAtomic } from "../lib/fs.js";
+import { getTaskContext } from "../agent/taskContext.js";
 
 const INDEX_DIR_NAME = ".vaultmaker";
 const INDEX_FILE = "embeddingIndex.json";
 
+/** Serializes read-modify-write updates of a vault's index across parallel tasks. */
+const indexLock = createKeyedMutex();
+
+/** Copies of the index that dry runs update instead of the file, by run id; see vaultWrite.ts. */
+const dryRunIndexes = new Map<string, EmbeddingIndex>();
+
 export interface IndexEntry {
   title: string;
   path: string;
@@ -20,7 +29,22 @@ function getIndexPath(vaultPath: string): string {
   return path.join(vaultPath, INDEX_DIR_NAME, INDEX_FILE);
 }
 
+/** Run id of the dry run the current task belongs to, if any. */
+function dryRunId(): string | null {
+  const ctx = getTaskContext();
+  return ctx?.dryRun ? ctx.runId : null;
+}
+
+/** Forget the index copy of a dry run once the run is over. */
+export function discardDryRunIndex(runId: string): void {
+  dryRunIndexes.delete(runId);
+}
+
+/** The vault's index; in a dry run, with the notes the run has staged. */
 export async function loadIndex(vaultPath: string): Promise<EmbeddingIndex> {
+  const runId = dryRunId();
+  const staged = runId != null ? dryRunIndexes.get(runId) : undefined;
+  if (staged) return { entries: [...staged.entries], updatedAt: staged.updatedAt };
   try {
     const filePath = getIndexPath(vaultPath);
     const raw = await readFile(filePath, "utf-8");
@@ -39,6 +63,11 @@ export async function loadIndex(vaultPath: string): Promise<EmbeddingIndex> {
 }
 
 export async function saveIndex(vaultPath: string, index: EmbeddingIndex): Promise<void> {
+  const runId = dryRunId();
+  if (runId != null) {
+    dryRunIndexes.set(runId, { entries: index.entries, updatedAt: new Date().toISOString() });
+    return;
+  }
   const dir = path.join(vaultPath, INDEX_DIR_NAME);
   await mkdir(dir, { recursive: true });
   const filePath = path.join(dir, INDEX_FILE);
@@ -46,7 +75,7 @@ export async function saveIndex(vaultPath: string, index: EmbeddingIndex): Promi
     entries: index.entries,
     updatedAt: new Date().toISOString(),
   };
-  await writeFile(filePath, JSON.stringify(toSave, null, 0), "utf-8");
+  await writeFileAtomic(filePath, JSON.stringify(toSave, null, 0));
 }
 
 /**
@@ -59,19 +88,23 @@ export async function indexNote(
   textSnippet: string,
   embedding?: number[]
 ): Promise<void> {
-  const index = await loadIndex(vaultPath);
-  const entry: IndexEntry = { title, path: relativePath, textSnippet, embedding };
-  const existing = index.entries.findIndex((e) => e.title === title);
-  if (existing >= 0) index.entries[existing] = entry;
-  else index.entries.push(entry);
-  await saveIndex(vaultPath, index);
+  await indexLock.run(vaultPath, async () => {
+    const index = await loadIndex(vaultPath);
+    const entry: IndexEntry = { title, path: relativePath, textSnippet, embedding };
+    const existing = index.entries.findIndex((e) => e.title === title);
+    if (existing >= 0) index.entries[existing] = entry;
+    else index.entries.push(entry);
+    await saveIndex(vaultPath, index);
+  });
 }
 
 /**
  * Remove a note from the index by title.
  */
 export async function removeFromIndex(vaultPath: string, title: string): Promise<void> {
-  const index = await loadIndex(vaultPath);
-  index.entries = index.entries.filter((e) => e.title !== title);
-  await saveIndex(vaultPath, index);
+  await indexLock.run(vaultPath, async () => {
+    const index = await loadIndex(vaultPath);
+    index.entries = index.entries.filter((e) => e.title !== title);
+    await saveIndex(vaultPath, index);
+  });
 }
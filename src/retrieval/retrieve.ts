@@ -1,15 +1,42 @@
+import path from "path";
+import matter from "gray-matter";
 import type { EmbeddingClient } from "../llm/embedding.js";
 import { loadAgentConfig } from "../storage/agentConfig.js";
-import { loadIndex, type IndexEntry } from "./embeddingIndex.js";
+import { loadIndex, indexNote, removeFromIndex, type IndexEntry } from "./embeddingIndex.js";
+import { vaultState } from "../agent/vaultScope.js";
 
-let embeddingClient: EmbeddingClient | null = null;
+const embedding = vaultState(() => ({ client: null as EmbeddingClient | null }));
 
 export function setEmbeddingClient(client: EmbeddingClient | null): void {
-  embeddingClient = client;
+  embedding().client = client;
 }
 
 export function getEmbeddingClient(): EmbeddingClient | null {
-  return embeddingClient;
+  return embedding().client;
+}
+
+/**
+ * Bring a note's index entry in line with its content (null = note deleted), the way the stages index notes:
+ * title plus the first 300 characters of the body.
+ */
+export async function reindexNoteContent(vaultPath: string, relativePath: string, content: string | null): Promise<void> {
+  const title = path.basename(relativePath, ".md");
+  if (content == null) {
+    await removeFromIndex(vaultPath, title);
+    return;
+  }
+  const snippet = (matter(content).content ?? "").trim().slice(0, 300);
+  let emb: number[] | undefined;
+  const config = await loadAgentConfig(vaultPath);
+  const embeddingClient = getEmbeddingClient();
+  if (config.useEmbeddings && embeddingClient) {
+    try {
+      emb = await embeddingClient.embed(`${title} ${snippet}`.slice(0, 8000));
+    } catch {
+      // index without embedding
+    }
+  }
+  await indexNote(vaultPath, title, relativePath, snippet, emb);
 }
 
 function cosineSimilarity(a: number[], b: number[]): number {
@@ -67,6 +94,7 @@ export async function getRelevantTitles(
     options.useEmbeddings !== undefined ? options.useEmbeddings : config.useEmbeddings;
 
   const entriesWithEmbedding = index.entries.filter((e) => e.embedding && e.embedding.length > 0);
+  const embeddingClient = getEmbeddingClient();
 
   if (
     useEmbeddings &&
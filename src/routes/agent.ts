@@ -1,14 +1,51 @@
 import { Router } from "express";
 import path from "path";
 import { readdir, stat } from "fs/promises";
-import { getAgentState, runLoop, requestStop, isLLMConfigured } from "../agent/loop.js";
-import { getQueueLength, getQueueSnapshot } from "../agent/queue.js";
-import type { QueuedTask } from "../agent/types.js";
+import {
+  getAgentState,
+  runLoop,
+  requestStop,
+  isLLMConfigured,
+  retryFailedTask,
+  discardFailedTask,
+  requestPause,
+  resumeLoop,
+  skipCurrentTask,
+  canResume,
+  enqueueAdHocTask,
+  removeQueuedTask,
+  moveQueuedTaskToFront,
+  setQueuedTaskPriority,
+  type AdHocTask,
+} from "../agent/loop.js";
+import { getQueueLength, getQueueSnapshot, getFailedTasks } from "../agent/queue.js";
+import { STAGES, type FailedTask, type QueuedTask, type Stage } from "../agent/types.js";
+import { listPipelines, resolvePipeline, singleStagePipeline } from "../agent/pipeline.js";
 import { loadProgress } from "../storage/progress.js";
 import { loadSource } from "../storage/sources.js";
+import { readEvents, isEventLevel, type EventLogQuery } from "../storage/eventLog.js";
+import { countPendingChanges } from "../storage/pending.js";
+import { countProposals } from "../storage/proposals.js";
+import { listMarkdownFiles } from "../agent/link.js";
 import { subscribeAgentUpdates } from "../agent/events.js";
+import { currentVaultId } from "../agent/vaultScope.js";
 import { loadSourceIndex } from "../storage/sourceIndex.js";
 import { ALLOWED_EXT } from "../lib/fileTypes.js";
+import {
+  applyLLMConfig,
+  getActiveProviders,
+  getProviderHealth,
+  type ActiveProviders,
+  type ProvidersHealth,
+} from "../llm/runtime.js";
+import { getUsageSummary, type UsageSummary } from "../llm/usage.js";
+import { getAutoRunStatus, scheduleAutoRun, cancelAutoRun, type AutoRunStatus } from "../agent/autoRun.js";
+import {
+  loadAgentConfig,
+  saveAgentConfig,
+  parseStageOptions,
+  type AgentConfig,
+} from "../storage/agentConfig.js";
 
 export interface SourceTreeNode {
   name: string;
@@ -35,61 +72,129 @@ async function taskLabel(vaultPath: string | null, t: QueuedTask): Promise<strin
   return t.kind;
 }
 
+export interface FailedTaskView {
+  id: string;
+  kind: string;
+  stage: string;
+  label: string;
+  attempts: number;
+  lastError: string | null;
+  failedAt: string;
+}
+
+async function failedTaskViews(vaultPath: string | null, tasks: FailedTask[]): Promise<FailedTaskView[]> {
+  return Promise.all(
+    tasks.map(async (t) => ({
+      id: t.id,
+      kind: t.kind,
+      stage: t.stage,
+      label: await taskLabel(vaultPath, t),
+      attempts: t.attempts ?? 0,
+      lastError: t.lastError ?? null,
+      failedAt: t.failedAt,
+    }))
+  );
+}
+
+export interface QueueTaskView {
+  id: string | null;
+  kind: string;
+  stage: string;
+  label: string;
+  priority: number;
+}
+
+/** Queue in the order it will run: the current stage first, by priority within each stage. */
+async function queueTaskViews(vaultPath: string | null, currentStage: Stage | null): Promise<QueueTaskView[]> {
+  const snapshot = getQueueSnapshot();
+  const byPriority = (tasks: QueuedTask[]) =>
+    [...tasks].sort((a, b) => (b.priority ?? 0) - (a.priority ?? 0));
+  const ordered =
+    currentStage != null
+      ? [
+          ...byPriority(snapshot.filter((t) => t.stage === currentStage)),
+          ...byPriority(snapshot.filter((t) => t.stage !== currentStage)),
+        ]
+      : snapshot;
+  return Promise.all(
+    ordered.map(async (t) => ({
+      id: t.id ?? null,
+      kind: t.kind,
+      stage: t.stage,
+      label: await taskLabel(vaultPath, t),
+      priority: t.priority ?? 0,
+    }))
+  );
+}
+
 async function buildStatusPayload(): Promise<{
   status: string;
   currentTask: string | null;
   currentStage: string | null;
+  pipeline: { name: string; stages: string[] } | null;
+  currentStep: number | null;
   log: string[];
   queueLength: number;
-  queue: { kind: string; stage: string; label: string }[];
+  queue: QueueTaskView[];
+  failedTasks: FailedTaskView[];
   processedSourceIds: string[];
   processedSourceLabels: string[];
   progressProcessedCount: number;
   progressLastUpdated: string | null;
+  vaultId: string;
   vaultPath: string | null;
   vaultName: string | null;
   sourceDir: string | null;
   apiKeyConfigured: boolean;
+  canResume: boolean;
+  pendingChanges: number;
+  proposals: number;
+  autoRun: AutoRunStatus | null;
+  providers: ActiveProviders;
+  usage: UsageSummary;
+  providerHealth: ProvidersHealth;
 }> {
   const state = getAgentState();
-  const snapshot = getQueueSnapshot();
-  const currentStage = state.currentStage;
-  const ordered =
-    currentStage != null
-      ? [
-          ...snapshot.filter((t) => t.stage === currentStage),
-          ...snapshot.filter((t) => t.stage !== currentStage),
-        ]
-      : snapshot;
   let progress: Awaited<ReturnType<typeof loadProgress>> = null;
   if (state.vaultPath) {
     progress = await loadProgress(state.vaultPath);
   }
-  const queue = await Promise.all(
-    ordered.map(async (t) => ({ kind: t.kind, stage: t.stage, label: await taskLabel(state.vaultPath, t) }))
-  );
+  const queue = await queueTaskViews(state.vaultPath, state.currentStage);
   const processedIds = progress?.processedSourceIds ?? [];
   const processedLabels = await Promise.all(
     processedIds.map(async (id) => {
       const source = state.vaultPath ? await loadSource(state.vaultPath, id) : null;
-      return source ? source.path || source.name : id;
+      const label = source ? source.path || source.name : id;
+      const version = progress?.sourceVersions[id] ?? 1;
+      return version > 1 ? `${label} (v${version})` : label;
     })
   );
   return {
     status: state.status,
     currentTask: state.currentTask,
     currentStage: state.currentStage,
+    pipeline: state.pipeline,
+    currentStep: state.currentStep,
     log: state.log,
     queueLength: getQueueLength(),
     queue,
+    failedTasks: await failedTaskViews(state.vaultPath, getFailedTasks()),
     processedSourceIds: processedIds,
     processedSourceLabels: processedLabels,
     progressProcessedCount: processedIds.length,
     progressLastUpdated: progress?.lastUpdated ?? null,
+    vaultId: currentVaultId(),
     vaultPath: state.vaultPath,
     vaultName: state.vaultName,
     sourceDir: state.sourceDir ?? null,
     apiKeyConfigured: isLLMConfigured(),
+    canResume: canResume(),
+    pendingChanges: state.vaultPath ? await countPendingChanges(state.vaultPath) : 0,
+    proposals: state.vaultPath ? await countProposals(state.vaultPath) : 0,
+    autoRun: state.vaultPath ? await getAutoRunStatus(state.vaultPath) : null,
+    providers: getActiveProviders(),
+    usage: getUsageSummary(),
+    providerHealth: getProviderHealth(),
   };
 }
 
@@ -128,9 +233,130 @@ agentRouter.get("/stream", async (req, res) => {
   });
 });
 
-agentRouter.post("/start", async (_req, res) => {
+/** Agent config fields baked into the LLM clients; changing them rebuilds the clients. */
+const CLIENT_CONFIG_FIELDS: Array<keyof AgentConfig> = [
+  "cacheEnabled",
+  "cacheMaxMB",
+  "llmTimeoutSec",
+  "llmMaxRetries",
+  "circuitBreakerThreshold",
+  "circuitBreakerCooldownSec",
+  "modelRouting",
+];
+
+/** Per-vault agent config (.vaultmaker/agentConfig.json) with defaults filled in. */
+agentRouter.get("/config", async (_req, res) => {
+  const vaultPath = getAgentState().vaultPath;
+  if (!vaultPath) {
+    res.status(400).json({ ok: false, error: "Set vault path first" });
+    return;
+  }
+  res.json({ ok: true, config: await loadAgentConfig(vaultPath) });
+});
+
+/** Merge the given fields into the per-vault agent config. Takes effect from the next task or run. */
+agentRouter.post("/config", async (req, res) => {
+  const vaultPath = getAgentState().vaultPath;
+  if (!vaultPath) {
+    res.status(400).json({ ok: false, error: "Set vault path first" });
+    return;
+  }
+  try {
+    const body = (req.body ?? {}) as Partial<AgentConfig>;
+    await saveAgentConfig(vaultPath, body);
+    if (CLIENT_CONFIG_FIELDS.some((k) => body[k] !== undefined)) await applyLLMConfig(vaultPath);
+    if (body.autoRun === true) await scheduleAutoRun();
+    else if (body.autoRun === false) cancelAutoRun();
+    res.json({ ok: true, config: await loadAgentConfig(vaultPath) });
+  } catch (err) {
+    res.status(500).json({ ok: false, error: (err as Error).message });
+  }
+});
+
+/** Start a run of the vault's pipeline, or of the one named in { pipeline }; { full: true } forces a full rebuild. */
+agentRouter.post("/start", async (req, res) => {
+  const name = typeof req.body?.pipeline === "string" ? req.body.pipeline : undefined;
+  const vaultPath = getAgentState().vaultPath;
+  if (name && vaultPath) {
+    try {
+      resolvePipeline(await loadAgentConfig(vaultPath), name);
+    } catch (err) {
+      res.status(400).json({ ok: false, error: (err as Error).message });
+      return;
+    }
+  }
   res.json({ ok: true });
-  runLoop().catch(() => {});
+  const dryRun = typeof req.body?.dryRun === "boolean" ? req.body.dryRun : undefined;
+  runLoop({ pipeline: name, full: req.body?.full === true, dryRun }).catch(() => {});
+});
+
+/**
+ * Run one stage on demand over the whole vault, e.g. { "stage": "validate" } or
+ * { "stage": "connect", "options": { "concurrency": 4 } }.
+ */
+agentRouter.post("/run-stage", (req, res) => {
+  const stage = req.body?.stage;
+  if (typeof stage !== "string" || !STAGES.includes(stage as Stage)) {
+    res.status(400).json({ ok: false, error: `stage must be one of: ${STAGES.join(", ")}` });
+    return;
+  }
+  res.json({ ok: true });
+  runLoop({
+    pipeline: singleStagePipeline(stage as Stage, parseStageOptions(req.body?.options)),
+    full: true,
+  }).catch(() => {});
+});
+
+/** Pipelines defined for the vault (including the built-in one) and the one Start runs. */
+agentRouter.get("/pipelines", async (_req, res) => {
+  const vaultPath = getAgentState().vaultPath;
+  if (!vaultPath) {
+    res.status(400).json({ ok: false, error: "Set vault path first" });
+    return;
+  }
+  const config = await loadAgentConfig(vaultPath);
+  res.json({ ok: true, active: config.pipeline, pipelines: listPipelines(config) });
+});
+
+/**
+ * Search the vault's event log, newest first. Query: level (minimum), runId, taskId, stage, target, q (text),
+ * since, until (ISO), limit (default 100, max 1000), offset.
+ */
+agentRouter.get("/logs", async (req, res) => {
+  const vaultPath = getAgentState().vaultPath;
+  if (!vaultPath) {
+    res.status(400).json({ ok: false, error: "Set vault path first" });
+    return;
+  }
+  const param = (name: string): string | undefined => {
+    const value = req.query[name];
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+  };
+  const level = param("level");
+  if (level !== undefined && !isEventLevel(level)) {
+    res.status(400).json({ ok: false, error: "level must be info, warn or error" });
+    return;
+  }
+  const limit = Number(param("limit") ?? 100);
+  const offset = Number(param("offset") ?? 0);
+  if (!Number.isFinite(limit) || limit < 0 || !Number.isFinite(offset) || offset < 0) {
+    res.status(400).json({ ok: false, error: "limit and offset must be non-negative numbers" });
+    return;
+  }
+  const query: EventLogQuery = {
+    level,
+    runId: param("runId"),
+    taskId: param("taskId"),
+    stage: param("stage"),
+    target: param("target"),
+    text: param("q"),
+    since: param("since"),
+    until: param("until"),
+    limit: Math.min(limit, 1000),
+    offset,
+  };
+  const { total, entries } = await readEvents(vaultPath, query);
+  res.json({ ok: true, total, offset, entries });
 });
 
 /** List immediate children of one directory only (lazy loading). Query param: path = relative path from source root (empty = root). */
@@ -160,6 +386,10 @@ agentRouter.get("/source-tree", async (req, res) => {
     );
     const progress = await loadProgress(vPath);
     const processedSet = new Set(progress?.processedSourceIds ?? []);
+    const isCurrentVersionProcessed = async (sourceId: string): Promise<boolean> => {
+      const staged = await loadSource(vPath, sourceId);
+      return (progress?.sourceVersions[sourceId] ?? 1) >= (staged?.version ?? 1);
+    };
     const index = await loadSourceIndex(vPath);
     const indexEntries = index?.sourceDir === srcDir ? index.entries : {};
 
@@ -192,12 +422,14 @@ agentRouter.get("/source-tree", async (req, res) => {
         const supported = ALLOWED_EXT.includes(ext);
         const entry = indexEntries[rel];
         const sourceId = entry?.sourceId;
-        const analyzed = sourceId != null && processedSet.has(sourceId);
         const queued = sourceId != null && queuedSourceIds.has(sourceId);
+        // a changed source keeps its id, so it is analyzed only if its current version was extracted
+        const analyzed =
+          !queued && sourceId != null && processedSet.has(sourceId) && (await isCurrentVersionProcessed(sourceId));
         let status: SourceTreeNode["status"];
         if (!supported) status = "unsupported";
-        else if (analyzed) status = "analyzed";
         else if (queued) status = "queued";
+        else if (analyzed) status = "analyzed";
         else status = "pending";
 
         let mtime: string | undefined;
@@ -237,3 +469,125 @@ agentRouter.post("/stop", (_req, res) => {
   requestStop();
   res.json({ ok: true });
 });
+
+/** Pause after cancelling in-flight calls; the current stage and queue are kept for /resume. */
+agentRouter.post("/pause", (_req, res) => {
+  if (!requestPause()) {
+    res.status(409).json({ ok: false, error: "Agent is not running" });
+    return;
+  }
+  res.json({ ok: true });
+});
+
+agentRouter.post("/resume", (_req, res) => {
+  if (!canResume()) {
+    res.status(409).json({ ok: false, error: "Nothing to resume" });
+    return;
+  }
+  res.json({ ok: true });
+  resumeLoop().catch(() => {});
+});
+
+/** Cancel and drop the running task(s), or only the one given as { taskId }; the run continues. */
+agentRouter.post("/skip", (req, res) => {
+  const taskId = typeof req.body?.taskId === "string" ? req.body.taskId : undefined;
+  if (!skipCurrentTask(taskId)) {
+    res.status(409).json({ ok: false, error: "No running task to skip" });
+    return;
+  }
+  res.json({ ok: true });
+});
+
+/** Tasks that failed every attempt. */
+agentRouter.get("/failed", async (_req, res) => {
+  const state = getAgentState();
+  res.json({ ok: true, tasks: await failedTaskViews(state.vaultPath, getFailedTasks()) });
+});
+
+/** Re-queue a failed task; it runs when its stage next comes up. */
+agentRouter.post("/failed/:id/retry", async (req, res) => {
+  if (!(await retryFailedTask(req.params.id))) {
+    res.status(404).json({ ok: false, error: "No failed task with that id" });
+    return;
+  }
+  res.json({ ok: true });
+});
+
+agentRouter.delete("/failed/:id", async (req, res) => {
+  if (!(await discardFailedTask(req.params.id))) {
+    res.status(404).json({ ok: false, error: "No failed task with that id" });
+    return;
+  }
+  res.json({ ok: true });
+});
+
+agentRouter.get("/queue", async (_req, res) => {
+  const state = getAgentState();
+  res.json({ ok: true, tasks: await queueTaskViews(state.vaultPath, state.currentStage) });
+});
+
+/**
+ * Queue an ad-hoc task. Body: { kind: "link" | "deduce", path } or { kind: "extract-insights", sourceId },
+ * plus optional { priority, front }. The task runs when its stage next comes up.
+ */
+agentRouter.post("/queue", async (req, res) => {
+  const vaultPath = getAgentState().vaultPath;
+  if (!vaultPath) {
+    res.status(400).json({ ok: false, error: "Set vault path first" });
+    return;
+  }
+  const body = req.body ?? {};
+  let spec: AdHocTask;
+  if (body.kind === "split" || body.kind === "link" || body.kind === "deduce") {
+    const notePath = typeof body.path === "string" ? body.path.trim() : "";
+    if (!notePath || !(await listMarkdownFiles(vaultPath)).includes(notePath)) {
+      res.status(400).json({ ok: false, error: "Note not found in vault" });
+      return;
+    }
+    spec = { kind: body.kind, path: notePath };
+  } else if (body.kind === "extract-insights") {
+    const sourceId = typeof body.sourceId === "string" ? body.sourceId.trim() : "";
+    if (!sourceId || !(await loadSource(vaultPath, sourceId))) {
+      res.status(400).json({ ok: false, error: "Source not found" });
+      return;
+    }
+    spec = { kind: "extract-insights", sourceId };
+  } else {
+    res.status(400).json({ ok: false, error: "kind must be split, link, deduce or extract-insights" });
+    return;
+  }
+  const priority = typeof body.priority === "number" && Number.isFinite(body.priority) ? body.priority : undefined;
+  const task = await enqueueAdHocTask(spec, { priority, front: body.front === true });
+  res.json({ ok: true, id: task.id });
+});
+
+agentRouter.delete("/queue/:id", async (req, res) => {
+  if (!(await removeQueuedTask(req.params.id))) {
+    res.status(404).json({ ok: false, error: "No queued task with that id" });
+    return;
+  }
+  res.json({ ok: true });
+});
+
+/** Move a task to the head of the queue so it runs next within its stage. */
+agentRouter.post("/queue/:id/front", async (req, res) => {
+  if (!(await moveQueuedTaskToFront(req.params.id))) {
+    res.status(404).json({ ok: false, error: "No queued task with that id" });
+    return;
+  }
+  res.json({ ok: true });
+});
+
+/** Body: { priority: number }. Higher runs first within the task's stage. */
+agentRouter.post("/queue/:id/priority", async (req, res) => {
+  const priority = req.body?.priority;
+  if (typeof priority !== "number" || !Number.isFinite(priority)) {
+    res.status(400).json({ ok: false, error: "priority must be a number" });
+    return;
+  }
+  if (!(await setQueuedTaskPriority(req.params.id, priority))) {
+    res.status(404).json({ ok: false, error: "No queued task with that id" });
+    return;
+  }
+  res.json({ ok: true });
+});
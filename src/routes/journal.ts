@@ -0,0 +1,76 @@
+import { Router, type Response } from "express";
+import { getAgentState, undoTask, rollbackRun } from "../agent/loop.js";
+import type { RevertResult } from "../agent/journal.js";
+import { listJournalRuns, loadJournal } from "../storage/journal.js";
+
+/** The change journal: what each run changed, with undo per task and rollback per run. */
+export const journalRouter = Router();
+
+function requireVault(res: Response): string | null {
+  const vaultPath = getAgentState().vaultPath;
+  if (!vaultPath) res.status(400).json({ ok: false, error: "Set vault path first" });
+  return vaultPath;
+}
+
+/** Undo and rollback rewrite notes, so they wait until no run is active or paused. */
+function requireIdle(res: Response): boolean {
+  if (getAgentState().status === "idle") return true;
+  res.status(409).json({ ok: false, error: "Stop the agent first" });
+  return false;
+}
+
+function sendRevert(res: Response, result: RevertResult): void {
+  if (result.conflicts.length > 0 && result.reverted.length === 0) {
+    const error = "Files changed since the agent wrote them; pass force to overwrite";
+    res.status(409).json({ ok: false, error, ...result });
+    return;
+  }
+  res.json({ ok: true, ...result });
+}
+
+/** Journaled runs, oldest first. */
+journalRouter.get("/", async (_req, res) => {
+  const vaultPath = requireVault(res);
+  if (!vaultPath) return;
+  res.json({ ok: true, runs: await listJournalRuns(vaultPath) });
+});
+
+journalRouter.get("/:runId", async (req, res) => {
+  const vaultPath = requireVault(res);
+  if (!vaultPath) return;
+  const entries = await loadJournal(vaultPath, req.params.runId);
+  if (entries.length === 0) {
+    res.status(404).json({ ok: false, error: "No journal for that run" });
+    return;
+  }
+  res.json({ ok: true, entries });
+});
+
+/** Body: { taskId, force? }. Restores the files that task changed. */
+journalRouter.post("/:runId/undo-task", async (req, res) => {
+  const vaultPath = requireVault(res);
+  if (!vaultPath || !requireIdle(res)) return;
+  const taskId = typeof req.body?.taskId === "string" ? req.body.taskId : "";
+  if (!taskId) {
+    res.status(400).json({ ok: false, error: "taskId required" });
+    return;
+  }
+  const result = await undoTask(req.params.runId, taskId, req.body?.force === true);
+  if (!result) {
+    res.status(404).json({ ok: false, error: "No journaled changes for that task" });
+    return;
+  }
+  sendRevert(res, result);
+});
+
+/** Body: { force? }. Restores the vault to its state before the run, undoing later runs too. */
+journalRouter.post("/:runId/rollback", async (req, res) => {
+  const vaultPath = requireVault(res);
+  if (!vaultPath || !requireIdle(res)) return;
+  const result = await rollbackRun(req.params.runId, req.body?.force === true);
+  if (!result) {
+    res.status(404).json({ ok: false, error: "No journal for that run" });
+    return;
+  }
+  sendRevert(res, result);
+});
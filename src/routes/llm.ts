@@ -0,0 +1,85 @@
+import { Router } from "express";
+import { getAgentState } from "../agent/loop.js";
+import { listProviders } from "../llm/registry.js";
+import { applyLLMConfig, getActiveProviders, getCacheStats, clearResponseCache } from "../llm/runtime.js";
+import { loadLLMConfig, saveLLMConfig, type LLMConfig } from "../storage/llmConfig.js";
+import type { ProviderSettings } from "../llm/registry.js";
+
+export const llmRouter = Router();
+
+/** Strip the API key from settings for display. */
+function redact(settings: ProviderSettings | null): (Omit<ProviderSettings, "apiKey"> & { apiKeySet: boolean }) | null {
+  if (!settings) return null;
+  const { apiKey, ...rest } = settings;
+  return { ...rest, apiKeySet: Boolean(apiKey) };
+}
+
+llmRouter.get("/providers", (_req, res) => {
+  res.json({ ok: true, ...listProviders() });
+});
+
+/** Stored provider config for the current vault (keys redacted), its model prices and what is actually active. */
+llmRouter.get("/config", async (_req, res) => {
+  const vaultPath = getAgentState().vaultPath;
+  if (!vaultPath) {
+    res.status(400).json({ ok: false, error: "Set vault path first" });
+    return;
+  }
+  const config = await loadLLMConfig(vaultPath);
+  res.json({
+    ok: true,
+    completion: redact(config.completion),
+    embedding: redact(config.embedding),
+    pricing: config.pricing,
+    active: getActiveProviders(),
+  });
+});
+
+/**
+ * Save provider config for the current vault and swap clients immediately. Body: { completion?, embedding? }
+ * where each is { provider, model?, baseURL?, apiKey? }; embedding: null disables embeddings.
+ */
+llmRouter.post("/config", async (req, res) => {
+  const vaultPath = getAgentState().vaultPath;
+  if (!vaultPath) {
+    res.status(400).json({ ok: false, error: "Set vault path first" });
+    return;
+  }
+  const body = (req.body ?? {}) as Partial<LLMConfig>;
+  const providers = listProviders();
+  if (body.completion && !providers.llm.includes(body.completion.provider)) {
+    res.status(400).json({ ok: false, error: `Unknown LLM provider: ${body.completion.provider}` });
+    return;
+  }
+  if (body.embedding && !providers.embedding.includes(body.embedding.provider)) {
+    res.status(400).json({ ok: false, error: `Unknown embedding provider: ${body.embedding.provider}` });
+    return;
+  }
+  try {
+    const saved = await saveLLMConfig(vaultPath, body);
+    const active = await applyLLMConfig(vaultPath);
+    res.json({
+      ok: true,
+      completion: redact(saved.completion),
+      embedding: redact(saved.embedding),
+      pricing: saved.pricing,
+      active,
+    });
+  } catch (err) {
+    res.status(500).json({ ok: false, error: (err as Error).message });
+  }
+});
+
+/** Response cache stats for the current vault: hits and misses since start, entry count and size. */
+llmRouter.get("/cache", async (_req, res) => {
+  res.json({ ok: true, ...(await getCacheStats()) });
+});
+
+llmRouter.delete("/cache", async (_req, res) => {
+  try {
+    await clearResponseCache();
+    res.json({ ok: true, ...(await getCacheStats()) });
+  } catch (err) {
+    res.status(500).json({ ok: false, error: (err as Error).message });
+  }
+});
@@ -0,0 +1,84 @@
+import { Router, type Response } from "express";
+import { getAgentState } from "../agent/loop.js";
+import {
+  acceptPendingChange,
+  rejectPendingChange,
+  acceptPendingChanges,
+  rejectPendingChanges,
+} from "../agent/pendingChanges.js";
+import { listPendingChanges, loadPendingChange } from "../storage/pending.js";
+
+/** Review of changes staged by dry runs. */
+export const pendingRouter = Router();
+
+function requireVault(res: Response): string | null {
+  const vaultPath = getAgentState().vaultPath;
+  if (!vaultPath) res.status(400).json({ ok: false, error: "Set vault path first" });
+  return vaultPath;
+}
+
+/** Ids from a bulk body { ids }; undefined (= all) when absent. */
+function bodyIds(body: unknown): string[] | undefined {
+  const ids = (body as { ids?: unknown } | undefined)?.ids;
+  return Array.isArray(ids) ? ids.filter((id): id is string => typeof id === "string") : undefined;
+}
+
+/** Staged changes without their contents, oldest first. */
+pendingRouter.get("/", async (_req, res) => {
+  const vaultPath = requireVault(res);
+  if (!vaultPath) return;
+  const changes = await listPendingChanges(vaultPath);
+  res.json({
+    ok: true,
+    changes: changes.map(({ before: _before, after: _after, diff: _diff, ...summary }) => summary),
+  });
+});
+
+/** Accept the changes in { ids }, or all of them. Changes whose file was edited since are reported and kept. */
+pendingRouter.post("/accept", async (req, res) => {
+  const vaultPath = requireVault(res);
+  if (!vaultPath) return;
+  const results = await acceptPendingChanges(vaultPath, bodyIds(req.body));
+  res.json({ ok: results.every((r) => r.ok), results });
+});
+
+pendingRouter.post("/reject", async (req, res) => {
+  const vaultPath = requireVault(res);
+  if (!vaultPath) return;
+  const results = await rejectPendingChanges(vaultPath, bodyIds(req.body));
+  res.json({ ok: results.every((r) => r.ok), results });
+});
+
+/** One change with its before and after content and diff. */
+pendingRouter.get("/:id", async (req, res) => {
+  const vaultPath = requireVault(res);
+  if (!vaultPath) return;
+  const change = await loadPendingChange(vaultPath, req.params.id);
+  if (!change) {
+    res.status(404).json({ ok: false, error: "No pending change with that id" });
+    return;
+  }
+  res.json({ ok: true, change });
+});
+
+pendingRouter.post("/:id/accept", async (req, res) => {
+  const vaultPath = requireVault(res);
+  if (!vaultPath) return;
+  const result = await acceptPendingChange(vaultPath, req.params.id);
+  if (!result.ok) {
+    res.status(result.reason === "missing" ? 404 : 409).json({ ok: false, error: result.error });
+    return;
+  }
+  res.json({ ok: true });
+});
+
+pendingRouter.post("/:id/reject", async (req, res) => {
+  const vaultPath = requireVault(res);
+  if (!vaultPath) return;
+  const result = await rejectPendingChange(vaultPath, req.params.id);
+  if (!result.ok) {
+    res.status(404).json({ ok: false, error: result.error });
+    return;
+  }
+  res.json({ ok: true });
+});
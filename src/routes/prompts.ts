@@ -0,0 +1,88 @@
+import { Router } from "express";
+import { getAgentState } from "../agent/loop.js";
+import {
+  listPromptDefinitions,
+  getPromptDefinition,
+  loadPromptOverrides,
+  validatePromptTemplate,
+  promptVariables,
+} from "../agent/promptTemplates.js";
+import { savePromptFile, deletePromptFile, loadPromptFiles } from "../storage/prompts.js";
+
+export const promptsRouter = Router();
+
+/**
+ * Every prompt with its built-in template, allowed variables and the vault's override
+ * (the stored text even when invalid, plus why it is ignored).
+ */
+promptsRouter.get("/", async (_req, res) => {
+  const vaultPath = getAgentState().vaultPath;
+  if (!vaultPath) {
+    res.status(400).json({ ok: false, error: "Set vault path first" });
+    return;
+  }
+  const overrides = await loadPromptOverrides(vaultPath, { reload: true });
+  const files = await loadPromptFiles(vaultPath);
+  const prompts = listPromptDefinitions().map((def) => ({
+    id: def.id,
+    description: def.description,
+    variables: promptVariables(def.id),
+    required: def.required,
+    default: def.template,
+    override: files[def.id] ?? null,
+    errors: overrides.errors[def.id] ?? [],
+  }));
+  const unknown = Object.keys(overrides.errors).filter((name) => !getPromptDefinition(name));
+  res.json({ ok: true, prompts, unknownFiles: unknown });
+});
+
+/** Save an override. Body: { template }. Rejected with the validation errors if it would be ignored. */
+promptsRouter.post("/:id", async (req, res) => {
+  const vaultPath = getAgentState().vaultPath;
+  if (!vaultPath) {
+    res.status(400).json({ ok: false, error: "Set vault path first" });
+    return;
+  }
+  const def = getPromptDefinition(req.params.id);
+  if (!def) {
+    res.status(404).json({ ok: false, error: `Unknown prompt: ${req.params.id}` });
+    return;
+  }
+  const template = (req.body ?? {}).template;
+  if (typeof template !== "string") {
+    res.status(400).json({ ok: false, error: "template must be a string" });
+    return;
+  }
+  const errors = validatePromptTemplate(def.id, template);
+  if (errors.length > 0) {
+    res.status(400).json({ ok: false, error: errors.join("; "), errors });
+    return;
+  }
+  try {
+    await savePromptFile(vaultPath, def.id, template);
+    await loadPromptOverrides(vaultPath, { reload: true });
+    res.json({ ok: true });
+  } catch (err) {
+    res.status(500).json({ ok: false, error: (err as Error).message });
+  }
+});
+
+/** Remove an override so the built-in prompt is used again. */
+promptsRouter.delete("/:id", async (req, res) => {
+  const vaultPath = getAgentState().vaultPath;
+  if (!vaultPath) {
+    res.status(400).json({ ok: false, error: "Set vault path first" });
+    return;
+  }
+  if (!getPromptDefinition(req.params.id)) {
+    res.status(404).json({ ok: false, error: `Unknown prompt: ${req.params.id}` });
+    return;
+  }
+  try {
+    await deletePromptFile(vaultPath, req.params.id);
+    await loadPromptOverrides(vaultPath, { reload: true });
+    res.json({ ok: true });
+  } catch (err) {
+    res.status(500).json({ ok: false, error: (err as Error).message });
+  }
+});
@@ -0,0 +1,82 @@
+import { Router, type Response } from "express";
+import { getAgentState } from "../agent/loop.js";
+import { approveProposal, editProposal, rejectProposal, type ProposalEdits } from "../agent/proposals.js";
+import { listProposals, loadProposal, loadRejectedProposals } from "../storage/proposals.js";
+
+/** Review of inferred notes held as proposals (see agent/proposals.ts). */
+export const proposalsRouter = Router();
+
+function requireVault(res: Response): string | null {
+  const vaultPath = getAgentState().vaultPath;
+  if (!vaultPath) res.status(400).json({ ok: false, error: "Set vault path first" });
+  return vaultPath;
+}
+
+/** Title and body edits from { title?, content? }; other fields are ignored. */
+function bodyEdits(body: unknown): ProposalEdits {
+  const { title, content } = (body ?? {}) as { title?: unknown; content?: unknown };
+  return {
+    title: typeof title === "string" ? title : undefined,
+    content: typeof content === "string" ? content : undefined,
+  };
+}
+
+/** Open proposals with their premises and links, oldest first. */
+proposalsRouter.get("/", async (_req, res) => {
+  const vaultPath = requireVault(res);
+  if (!vaultPath) return;
+  res.json({ ok: true, proposals: await listProposals(vaultPath) });
+});
+
+/** Titles turned down so far; the stages do not propose them again. */
+proposalsRouter.get("/rejected", async (_req, res) => {
+  const vaultPath = requireVault(res);
+  if (!vaultPath) return;
+  res.json({ ok: true, rejected: await loadRejectedProposals(vaultPath) });
+});
+
+proposalsRouter.get("/:id", async (req, res) => {
+  const vaultPath = requireVault(res);
+  if (!vaultPath) return;
+  const proposal = await loadProposal(vaultPath, req.params.id);
+  if (!proposal) {
+    res.status(404).json({ ok: false, error: "No proposal with that id" });
+    return;
+  }
+  res.json({ ok: true, proposal });
+});
+
+/** Save edits { title?, content? } without approving. */
+proposalsRouter.post("/:id", async (req, res) => {
+  const vaultPath = requireVault(res);
+  if (!vaultPath) return;
+  const proposal = await editProposal(vaultPath, req.params.id, bodyEdits(req.body));
+  if (!proposal) {
+    res.status(404).json({ ok: false, error: "No proposal with that id" });
+    return;
+  }
+  res.json({ ok: true, proposal });
+});
+
+/** Write the note, with optional last edits { title?, content? }. */
+proposalsRouter.post("/:id/approve", async (req, res) => {
+  const vaultPath = requireVault(res);
+  if (!vaultPath) return;
+  const result = await approveProposal(vaultPath, req.params.id, bodyEdits(req.body));
+  if (!result.ok) {
+    res.status(result.reason === "missing" ? 404 : 409).json({ ok: false, error: result.error });
+    return;
+  }
+  res.json({ ok: true, path: result.path });
+});
+
+proposalsRouter.post("/:id/reject", async (req, res) => {
+  const vaultPath = requireVault(res);
+  if (!vaultPath) return;
+  const result = await rejectProposal(vaultPath, req.params.id);
+  if (!result.ok) {
+    res.status(404).json({ ok: false, error: result.error });
+    return;
+  }
+  res.json({ ok: true });
+});
@@ -2,25 +2,34 @@ import { Router } from "express";
 import path from "path";
 import { readdir, readFile } from "fs/promises";
 import { getAgentState, setSourceDir } from "../agent/loop.js";
-import { enqueueSourceForProcessing } from "../agent/loop.js";
+import { appendLog } from "../agent/queue.js";
+import { eventError } from "../agent/eventLog.js";
 import { isExtractable, extractText } from "../extract/office.js";
 import { pickFolder } from "../lib/folderPicker.js";
-import { saveSource, generateSourceId } from "../storage/sources.js";
 import {
   loadSourceIndex,
   saveSourceIndex,
   computeContentHash,
   needsProcessing,
+  withSourceIndexLock,
 } from "../storage/sourceIndex.js";
-import { saveVaultConfig } from "../storage/vaultConfig.js";
+import { saveCurrentVaultConfig } from "../agent/vaults.js";
 import { startSourceWatcher } from "../watcher/sourceWatcher.js";
 import { ALLOWED_EXT } from "../lib/fileTypes.js";
+import {
+  findMovedSource,
+  moveSource,
+  removeVanishedSources,
+  stageSource,
+  assertSourceDirAvailable,
+} from "../agent/sourceChanges.js";
 
 export const uploadRouter = Router();
 
 /**
  * Walk sourceDir and stage each allowed file (extract text → save to staging → enqueue extract-insights).
- * Skips files that haven't changed (content hash match). Starts watcher for future changes.
+ * Skips files that haven't changed (content hash match) and recognises moved ones by their hash; sources whose
+ * files vanished while the server was off are removed afterwards. Starts watcher for future changes.
  * Exported so vault config save can trigger initial scan.
  */
 export async function importFolderInBackground(sourceDir: string): Promise<void> {
@@ -28,55 +37,70 @@ export async function importFolderInBackground(sourceDir: string): Promise<void>
   const vaultPath = state.vaultPath;
   if (!vaultPath) return;
   const vPath: string = vaultPath;
-
-  let index = await loadSourceIndex(vPath);
-  if (!index || index.sourceDir !== sourceDir) {
-    index = { sourceDir, entries: {}, lastUpdated: new Date().toISOString() };
+  try {
+    await assertSourceDirAvailable(sourceDir);
+  } catch (err) {
+    appendLog(`Import: ${(err as Error).message}`, { level: "error", error: eventError(err) });
+    return;
   }
 
-  let enqueuedCount = 0;
+  // one update of the source index at a time, so the watcher cannot undo part of the import
+  await withSourceIndexLock(vPath, async () => {
+    let index = await loadSourceIndex(vPath);
+    if (!index || index.sourceDir !== sourceDir) {
+      index = { sourceDir, entries: {}, lastUpdated: new Date().toISOString() };
+    }
 
-  async function walkAndProcess(dir: string): Promise<void> {
-    const fullDir = path.join(sourceDir, dir);
-    const entries = await readdir(fullDir, { withFileTypes: true });
-    for (const e of entries) {
-      const rel = path.normalize(dir ? `${dir}/${e.name}` : e.name).replace(/\\/g, "/");
-      if (e.isDirectory()) {
-        await walkAndProcess(rel);
-      } else if (ALLOWED_EXT.includes(path.extname(e.name).toLowerCase())) {
-        const ext = path.extname(rel).toLowerCase();
-        const fullSource = path.join(sourceDir, rel);
-        try {
-          let text: string;
-          let buffer: Buffer;
-          if (isExtractable(ext)) {
-            buffer = await readFile(fullSource);
-            text = (await extractText(buffer)) || "(No text extracted.)";
-          } else {
-            text = await readFile(fullSource, "utf-8");
-            buffer = Buffer.from(text, "utf-8");
-          }
-          const contentHash = computeContentHash(text);
-          if (!needsProcessing(index!, rel, contentHash, sourceDir)) continue;
+    let enqueuedCount = 0;
 
-          const id = generateSourceId();
-          const name = path.basename(rel, ext) || rel;
-          await saveSource(vPath, id, { path: rel, name, text });
-          enqueueSourceForProcessing(id);
-          index!.entries[rel] = { sourceId: id, contentHash };
-          enqueuedCount++;
-        } catch {
-          // skip unreadable files
+    async function walkAndProcess(dir: string): Promise<void> {
+      const fullDir = path.join(sourceDir, dir);
+      const entries = await readdir(fullDir, { withFileTypes: true });
+      for (const e of entries) {
+        const rel = path.normalize(dir ? `${dir}/${e.name}` : e.name).replace(/\\/g, "/");
+        if (e.isDirectory()) {
+          await walkAndProcess(rel);
+        } else if (ALLOWED_EXT.includes(path.extname(e.name).toLowerCase())) {
+          const ext = path.extname(rel).toLowerCase();
+          const fullSource = path.join(sourceDir, rel);
+          try {
+            let text: string;
+            let buffer: Buffer;
+            if (isExtractable(ext)) {
+              buffer = await readFile(fullSource);
+              text = (await extractText(buffer)) || "(No text extracted.)";
+            } else {
+              text = await readFile(fullSource, "utf-8");
+              buffer = Buffer.from(text, "utf-8");
+            }
+            const contentHash = computeContentHash(text);
+            if (!needsProcessing(index!, rel, contentHash, sourceDir)) continue;
+            const movedFrom = await findMovedSource(index!, rel, contentHash);
+            if (movedFrom) {
+              await moveSource(vPath, index!, movedFrom, rel);
+              continue;
+            }
+
+            await stageSource(vPath, index!, rel, text, contentHash);
+            enqueuedCount++;
+          } catch {
+            // skip unreadable files
+          }
         }
       }
     }
-  }
 
-  await walkAndProcess("");
-  index!.lastUpdated = new Date().toISOString();
-  await saveSourceIndex(vPath, index!);
+    await walkAndProcess("");
+    try {
+      await removeVanishedSources(vPath, index!);
+    } catch (err) {
+      appendLog(`Import: ${(err as Error).message}`, { level: "error", error: eventError(err) });
+    }
+    index!.lastUpdated = new Date().toISOString();
+    await saveSourceIndex(vPath, index!);
+  });
   setSourceDir(sourceDir);
-  await saveVaultConfig({ vaultPath: vPath, sourceDir });
+  await saveCurrentVaultConfig({ vaultPath: vPath, sourceDir });
   startSourceWatcher(sourceDir, vPath);
 }
 
@@ -5,7 +5,8 @@ import os from "os";
 import { setAgentVault, getAgentState, setSourceDir } from "../agent/loop.js";
 import { resetQueueForNewSource, resetVaultToNew } from "../agent/loop.js";
 import { pickFolder } from "../lib/folderPicker.js";
-import { saveVaultConfig } from "../storage/vaultConfig.js";
+import { applyLLMConfig } from "../llm/runtime.js";
+import { saveCurrentVaultConfig } from "../agent/vaults.js";
 import { startSourceWatcher, stopSourceWatcher } from "../watcher/sourceWatcher.js";
 import { importFolderInBackground } from "./upload.js";
 
@@ -18,31 +19,35 @@ vaultRouter.get("/pick-folder", (_req, res) => {
   else res.status(500).json({ ok: false, error: result.error });
 });
 
-vaultRouter.post("/config", async (req, res) => {
-  const { vaultPath: rawPath, vaultName, sourceDir: rawSourceDir } = req.body as {
+/** Vault path, name and source folder from a request body, with ~ expanded; an error if the vault path is unusable. */
+export async function parseVaultConfigBody(
+  body: unknown
+): Promise<{ vaultPath: string; vaultName: string | null; sourceDir: string | null } | { error: string }> {
+  const { vaultPath: rawPath, vaultName, sourceDir: rawSourceDir } = (body ?? {}) as {
     vaultPath?: string;
     vaultName?: string;
     sourceDir?: string;
   };
-  if (!rawPath || typeof rawPath !== "string") {
-    res.status(400).json({ ok: false, error: "vaultPath required" });
-    return;
-  }
+  if (!rawPath || typeof rawPath !== "string") return { error: "vaultPath required" };
   const vaultPath = path.resolve(rawPath.replace(/^~/, os.homedir()));
   try {
     await access(vaultPath);
   } catch {
-    res.status(400).json({ ok: false, error: "Path does not exist or is not accessible" });
-    return;
+    return { error: "Path does not exist or is not accessible" };
   }
   const sourceDir =
     typeof rawSourceDir === "string" && rawSourceDir.trim()
       ? path.resolve(rawSourceDir.replace(/^~/, os.homedir()))
       : null;
+  return { vaultPath, vaultName: typeof vaultName === "string" ? vaultName : null, sourceDir };
+}
 
-  await setAgentVault(vaultPath, typeof vaultName === "string" ? vaultName : null);
+/** Point the current vault's agent at a vault, save it, and import and watch its source folder. */
+export async function configureVault(vaultPath: string, vaultName: string | null, sourceDir: string | null): Promise<void> {
+  await setAgentVault(vaultPath, vaultName);
+  await applyLLMConfig(vaultPath);
   setSourceDir(sourceDir);
-  await saveVaultConfig({ vaultPath, vaultName: vaultName ?? null, sourceDir });
+  await saveCurrentVaultConfig({ vaultPath, vaultName, sourceDir });
 
   stopSourceWatcher();
   if (sourceDir) {
@@ -55,8 +60,17 @@ vaultRouter.post("/config", async (req, res) => {
       // source folder not accessible, skip watcher and import
     }
   }
+}
 
-  res.json({ ok: true, vaultPath, vaultName: vaultName ?? null, sourceDir });
+vaultRouter.post("/config", async (req, res) => {
+  const parsed = await parseVaultConfigBody(req.body);
+  if ("error" in parsed) {
+    res.status(400).json({ ok: false, error: parsed.error });
+    return;
+  }
+  const { vaultPath, vaultName, sourceDir } = parsed;
+  await configureVault(vaultPath, vaultName, sourceDir);
+  res.json({ ok: true, vaultPath, vaultName, sourceDir });
 });
 
 vaultRouter.get("/config", (_req, res) => {
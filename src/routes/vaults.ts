@@ -0,0 +1,138 @@
+import { Router } from "express";
+import { randomUUID } from "crypto";
+import { getAgentState } from "../agent/loop.js";
+import { getQueueLength } from "../agent/queue.js";
+import { getAgentSlots } from "../agent/agentSlots.js";
+import { DEFAULT_VAULT_ID, runInVault } from "../agent/vaultScope.js";
+import {
+  findVault,
+  listVaults,
+  registerVault,
+  setMaxConcurrentAgentsSetting,
+  unregisterVault,
+} from "../agent/vaults.js";
+import { vaultRouter, configureVault, parseVaultConfigBody } from "./vault.js";
+import { uploadRouter } from "./upload.js";
+import { agentRouter } from "./agent.js";
+import { llmRouter } from "./llm.js";
+import { promptsRouter } from "./prompts.js";
+import { pendingRouter } from "./pending.js";
+import { journalRouter } from "./journal.js";
+import { proposalsRouter } from "./proposals.js";
+
+/**
+ * Everything that acts on one vault. Mounted at /api for the default vault and at /api/vaults/:id for each
+ * registered vault, which runs these routes in that vault's scope.
+ */
+export const vaultApiRouter = Router();
+vaultApiRouter.use("/vault", vaultRouter);
+vaultApiRouter.use("/upload", uploadRouter);
+vaultApiRouter.use("/agent/pending", pendingRouter);
+vaultApiRouter.use("/agent/journal", journalRouter);
+vaultApiRouter.use("/agent/proposals", proposalsRouter);
+vaultApiRouter.use("/agent", agentRouter);
+vaultApiRouter.use("/llm", llmRouter);
+vaultApiRouter.use("/prompts", promptsRouter);
+
+/** The vault registry: list, add and remove vaults, and the limit on agents running at once. */
+export const vaultsRouter = Router();
+
+export interface VaultView {
+  id: string;
+  vaultPath: string | null;
+  vaultName: string | null;
+  sourceDir: string | null;
+  status: string;
+  currentStage: string | null;
+  queueLength: number;
+}
+
+vaultsRouter.get("/", async (_req, res) => {
+  const vaults: VaultView[] = (await listVaults()).map((vault) =>
+    runInVault(vault.id, () => {
+      const state = getAgentState();
+      return {
+        ...vault,
+        status: state.status,
+        currentStage: state.currentStage,
+        queueLength: getQueueLength(),
+      };
+    })
+  );
+  const slots = getAgentSlots();
+  res.json({
+    ok: true,
+    vaults,
+    maxConcurrentAgents: slots.max,
+    runningAgents: slots.running,
+    waitingAgents: slots.waiting,
+  });
+});
+
+/** Register a vault: { vaultPath, vaultName?, sourceDir?, id? }. Its source folder is imported and watched. */
+vaultsRouter.post("/", async (req, res) => {
+  const parsed = await parseVaultConfigBody(req.body);
+  if ("error" in parsed) {
+    res.status(400).json({ ok: false, error: parsed.error });
+    return;
+  }
+  const rawId = req.body?.id;
+  if (rawId !== undefined && (typeof rawId !== "string" || !/^[\w-]+$/.test(rawId))) {
+    res.status(400).json({ ok: false, error: "id may only contain letters, digits, - and _" });
+    return;
+  }
+  const id = typeof rawId === "string" ? rawId : randomUUID().slice(0, 8);
+  const vaults = await listVaults();
+  if (vaults.some((v) => v.id === id)) {
+    res.status(409).json({ ok: false, error: `A vault with id ${id} already exists` });
+    return;
+  }
+  if (vaults.some((v) => v.vaultPath === parsed.vaultPath)) {
+    res.status(409).json({ ok: false, error: "That vault is already being served" });
+    return;
+  }
+  await registerVault({ id, ...parsed });
+  await runInVault(id, () => configureVault(parsed.vaultPath, parsed.vaultName, parsed.sourceDir));
+  res.json({ ok: true, vault: { id, ...parsed } });
+});
+
+/** Limit how many vaults' agents run at once: { maxConcurrentAgents } (0 = no limit). Others wait for a slot. */
+vaultsRouter.post("/settings", async (req, res) => {
+  const max = req.body?.maxConcurrentAgents;
+  if (typeof max !== "number" || !Number.isFinite(max) || max < 0) {
+    res.status(400).json({ ok: false, error: "maxConcurrentAgents must be a number ≥ 0" });
+    return;
+  }
+  await setMaxConcurrentAgentsSetting(max);
+  res.json({ ok: true, maxConcurrentAgents: getAgentSlots().max });
+});
+
+/** Stop serving a registered vault. Its files are left alone. */
+vaultsRouter.delete("/:id", async (req, res) => {
+  const id = req.params.id;
+  if (id === DEFAULT_VAULT_ID) {
+    res.status(400).json({ ok: false, error: "The default vault cannot be removed" });
+    return;
+  }
+  if (!(await findVault(id))) {
+    res.status(404).json({ ok: false, error: "No vault with that id" });
+    return;
+  }
+  if (!(await unregisterVault(id))) {
+    res.status(409).json({ ok: false, error: "Stop the vault's agent first" });
+    return;
+  }
+  res.json({ ok: true });
+});
+
+vaultsRouter.use(
+  "/:id",
+  async (req, res, next) => {
+    if (!(await findVault(req.params.id))) {
+      res.status(404).json({ ok: false, error: "No vault with that id" });
+      return;
+    }
+    runInVault(req.params.id, () => next());
+  },
+  vaultApiRouter
+);
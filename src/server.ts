@@ -3,15 +3,10 @@ import express from "express";
 import cors from "cors";
 import path from "path";
 import { fileURLToPath } from "url";
-import { existsSync, accessSync } from "fs";
-import { createOpenAIClient, createOpenAIEmbeddingClient } from "./llm/openai.js";
-import { setEmbeddingClient } from "./retrieval/retrieve.js";
-import { setLLM, setAgentVault, setSourceDir } from "./agent/loop.js";
+import { existsSync } from "fs";
+import { openVault, openRegisteredVaults } from "./agent/vaults.js";
 import { loadVaultConfig } from "./storage/vaultConfig.js";
-import { startSourceWatcher } from "./watcher/sourceWatcher.js";
-import { vaultRouter } from "./routes/vault.js";
-import { uploadRouter } from "./routes/upload.js";
-import { agentRouter } from "./routes/agent.js";
+import { vaultApiRouter, vaultsRouter } from "./routes/vaults.js";
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -41,22 +36,12 @@ dotenv.config({ path: findEnvPath(__dirname) });
 const publicDir = findPublicDir(__dirname);
 const PORT = Number(process.env.PORT) || 3840;
 
-const apiKey = process.env.OPENAI_API_KEY;
-if (apiKey) {
-  setLLM(createOpenAIClient(apiKey));
-  setEmbeddingClient(createOpenAIEmbeddingClient(apiKey));
-} else {
-  console.warn("OPENAI_API_KEY is not set. Add it to the .env file in the app folder to use the agent.");
-  setEmbeddingClient(null);
-}
-
 const app = express();
 app.use(cors());
 app.use(express.json());
 
-app.use("/api/vault", vaultRouter);
-app.use("/api/upload", uploadRouter);
-app.use("/api/agent", agentRouter);
+app.use("/api/vaults", vaultsRouter);
+app.use("/api", vaultApiRouter);
 
 app.use(express.static(publicDir));
 app.get("*", (_req, res) => {
@@ -65,17 +50,11 @@ app.get("*", (_req, res) => {
 
 app.listen(PORT, async () => {
   console.log(`Vault Builder Agent at http://localhost:${PORT}`);
-  const config = await loadVaultConfig();
-  if (config.vaultPath) {
-    await setAgentVault(config.vaultPath, config.vaultName);
-    setSourceDir(config.sourceDir);
-    if (config.sourceDir) {
-      try {
-        accessSync(config.sourceDir);
-        startSourceWatcher(config.sourceDir, config.vaultPath);
-      } catch {
-        // source folder not accessible
-      }
-    }
+  const providers = await openVault(await loadVaultConfig());
+  if (providers.error) {
+    console.warn(`LLM provider not ready: ${providers.error}. Set OPENAI_API_KEY in .env or configure a provider for the vault.`);
+  }
+  for (const [id, error] of Object.entries(await openRegisteredVaults())) {
+    console.warn(`LLM provider not ready for vault ${id}: ${error}`);
   }
 });
@@ -1,15 +1,121 @@
 import { readFile, writeFile, mkdir } from "fs/promises";
 import path from "path";
+import { STAGES, TASK_KINDS, INFERRED_NOTE_TYPES, type InferredNoteType, type Stage, type TaskKind } from "../agent/types.js";
 
 const CONFIG_DIR_NAME = ".vaultmaker";
 const AGENT_CONFIG_FILE = "agentConfig.json";
 
+/**
+ * Model settings for one stage or task kind. Unset fields fall back to the vault's completion provider
+ * (provider, model, baseURL) or to what the stage asks for (maxTokens, temperature).
+ */
+export interface ModelRoute {
+  provider?: string;
+  model?: string;
+  baseURL?: string;
+  maxTokens?: number;
+  temperature?: number;
+}
+
+/** Keyed by Stage or TaskKind; a TaskKind entry wins over its stage's entry. */
+export type ModelRouting = Partial<Record<Stage | TaskKind, ModelRoute>>;
+
+/** Agent settings a pipeline step can override for its own tasks. */
+export type StageOptions = Partial<
+  Pick<
+    AgentConfig,
+    | "concurrency"
+    | "maxTaskAttempts"
+    | "maxTitlesExtract"
+    | "maxTitlesLink"
+    | "maxTitlesOrganize"
+    | "dedupSimilarityThreshold"
+    | "useEmbeddings"
+  >
+>;
+
+/** One step of a pipeline: the stage to run and options for its tasks. */
+export interface PipelineStep {
+  stage: Stage;
+  options?: StageOptions;
+}
+
+export type HumanEditPolicy = "append" | "skip";
+
+export type RemovedSourcePolicy = "mark" | "archive";
+
 export interface AgentConfig {
   maxTitlesExtract?: number;
   maxTitlesLink?: number;
   maxTitlesOrganize?: number;
   dedupSimilarityThreshold?: number;
   useEmbeddings?: boolean;
+  /** Cache completions and embeddings under .vaultmaker/cache/. */
+  cacheEnabled?: boolean;
+  /** Size cap for the response cache; least recently used entries are evicted beyond it. */
+  cacheMaxMB?: number;
+  /** Stop a run once it has used this many tokens (0 = unlimited). */
+  maxTokensPerRun?: number;
+  /** Stop a run once its estimated cost reaches this many USD (0 = unlimited). */
+  maxCostPerRun?: number;
+  /** Stop extracting a single source after this many tokens in one run (0 = unlimited). */
+  maxTokensPerSource?: number;
+  /** Per-attempt timeout for LLM and embedding calls. */
+  llmTimeoutSec?: number;
+  /** Retries for rate limits, timeouts, 5xx and network errors. */
+  llmMaxRetries?: number;
+  /** Consecutive failed attempts after which the agent pauses calls to the provider. */
+  circuitBreakerThreshold?: number;
+  /** How long the agent waits before trying a failing provider again. */
+  circuitBreakerCooldownSec?: number;
+  /** Per-stage or per-task-kind model overrides, e.g. a cheap model for "connect". */
+  modelRouting?: ModelRouting;
+  /** Number of tasks of the current stage run in parallel. */
+  concurrency?: number;
+  /** Attempts a failing task gets before it is moved to the failed-task list. */
+  maxTaskAttempts?: number;
+  /**
+   * Connect, deduce and induce only the notes created or changed in the run (plus retrieval neighbours for
+   * connect) instead of the whole vault. Runs started with a full rebuild ignore this.
+   */
+  incremental?: boolean;
+  /** Retrieval neighbours of each changed note that the connect stage also re-links in incremental runs. */
+  incrementalNeighbors?: number;
+  /** Start the agent automatically when the source watcher queues changed files. */
+  autoRun?: boolean;
+  /** Wait this long after the last watcher event before an automatic run, so a batch of edits becomes one run. */
+  autoRunDebounceSec?: number;
+  /** Local time range with no automatic runs, e.g. "22:00-07:00" ("" = none). */
+  autoRunQuietHours?: string;
+  /** Automatic runs allowed per local day (0 = unlimited). */
+  autoRunMaxPerDay?: number;
+  /**
+   * Named pipelines, each an ordered list of steps; stages may repeat. A step is a stage name or
+   * { stage, options }, e.g. {"deep": ["extract", "organize", "connect", "deduce", "connect"]}.
+   */
+  pipelines?: Record<string, PipelineStep[]>;
+  /** Pipeline that Start runs. "default" is the built-in eight stages unless redefined in `pipelines`. */
+  pipeline?: string;
+  /** Stage vault changes under .vaultmaker/pending for review instead of writing them. */
+  dryRun?: boolean;
+  /** Days of event logs (.vaultmaker/logs) to keep; older files are deleted. */
+  logRetentionDays?: number;
+  /** Most recent journaled runs (.vaultmaker/journal) to keep for undo and rollback; 0 = keep all. */
+  journalRetentionRuns?: number;
+  /** Inferred note types held as proposals for review instead of being written, e.g. ["Conclusion", "Theme"]. */
+  reviewNoteTypes?: InferredNoteType[];
+  /**
+   * Notes edited outside the agent: "append" keeps them as they are and only maintains an agent section at
+   * their end; "skip" leaves them alone.
+   */
+  humanEditPolicy?: HumanEditPolicy;
+  /** The atomize stage splits notes whose body is longer than this (or that have two or more headings). */
+  atomizeMaxChars?: number;
+  /**
+   * Notes extracted from a source file that was deleted: "mark" sets `source_status: removed` on them,
+   * "archive" also moves them under Archive/.
+   */
+  removedSourcePolicy?: RemovedSourcePolicy;
 }
 
 const DEFAULTS: Required<AgentConfig> = {
@@ -18,8 +124,98 @@ const DEFAULTS: Required<AgentConfig> = {
   maxTitlesOrganize: 400,
   dedupSimilarityThreshold: 0.92,
   useEmbeddings: true,
+  cacheEnabled: true,
+  cacheMaxMB: 200,
+  maxTokensPerRun: 0,
+  maxCostPerRun: 0,
+  maxTokensPerSource: 0,
+  llmTimeoutSec: 120,
+  llmMaxRetries: 4,
+  circuitBreakerThreshold: 5,
+  circuitBreakerCooldownSec: 60,
+  modelRouting: {},
+  concurrency: 1,
+  maxTaskAttempts: 3,
+  incremental: true,
+  incrementalNeighbors: 5,
+  autoRun: false,
+  autoRunDebounceSec: 30,
+  autoRunQuietHours: "",
+  autoRunMaxPerDay: 6,
+  pipelines: {},
+  pipeline: "default",
+  dryRun: false,
+  logRetentionDays: 14,
+  journalRetentionRuns: 50,
+  reviewNoteTypes: [],
+  humanEditPolicy: "append",
+  atomizeMaxChars: 1500,
+  removedSourcePolicy: "mark",
 };
 
+const ROUTE_KEYS = new Set<string>([...STAGES, ...TASK_KINDS]);
+
+/** Keep only known stage/task-kind keys and well-typed route fields. */
+function parseModelRouting(value: unknown): ModelRouting {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const routing: ModelRouting = {};
+  for (const [key, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (!ROUTE_KEYS.has(key) || !raw || typeof raw !== "object") continue;
+    const r = raw as Record<string, unknown>;
+    const route: ModelRoute = {};
+    if (typeof r.provider === "string" && r.provider.trim()) route.provider = r.provider.trim();
+    if (typeof r.model === "string" && r.model.trim()) route.model = r.model.trim();
+    if (typeof r.baseURL === "string" && r.baseURL.trim()) route.baseURL = r.baseURL.trim();
+    if (typeof r.maxTokens === "number" && r.maxTokens > 0) route.maxTokens = r.maxTokens;
+    if (typeof r.temperature === "number" && r.temperature >= 0) route.temperature = r.temperature;
+    routing[key as Stage | TaskKind] = route;
+  }
+  return routing;
+}
+
+const NUMERIC_STAGE_OPTIONS = [
+  "concurrency",
+  "maxTaskAttempts",
+  "maxTitlesExtract",
+  "maxTitlesLink",
+  "maxTitlesOrganize",
+  "dedupSimilarityThreshold",
+] as const;
+
+export function parseStageOptions(value: unknown): StageOptions | undefined {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+  const raw = value as Record<string, unknown>;
+  const options: StageOptions = {};
+  for (const key of NUMERIC_STAGE_OPTIONS) {
+    if (typeof raw[key] === "number") options[key] = raw[key] as number;
+  }
+  if (typeof raw.useEmbeddings === "boolean") options.useEmbeddings = raw.useEmbeddings;
+  return Object.keys(options).length > 0 ? options : undefined;
+}
+
+/** Keep pipelines with at least one valid step; a bare stage name is shorthand for { stage }. */
+function parsePipelines(value: unknown): Record<string, PipelineStep[]> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  const pipelines: Record<string, PipelineStep[]> = {};
+  for (const [name, raw] of Object.entries(value as Record<string, unknown>)) {
+    if (!name.trim() || !Array.isArray(raw)) continue;
+    const steps: PipelineStep[] = [];
+    for (const entry of raw) {
+      const stage = typeof entry === "string" ? entry : (entry as { stage?: unknown } | null)?.stage;
+      if (typeof stage !== "string" || !STAGES.includes(stage as Stage)) continue;
+      const options = typeof entry === "string" ? undefined : parseStageOptions((entry as { options?: unknown }).options);
+      steps.push(options ? { stage: stage as Stage, options } : { stage: stage as Stage });
+    }
+    if (steps.length > 0) pipelines[name.trim()] = steps;
+  }
+  return pipelines;
+}
+
+function parseNoteTypes(value: unknown): InferredNoteType[] {
+  if (!Array.isArray(value)) return [];
+  return INFERRED_NOTE_TYPES.filter((type) => value.includes(type));
+}
+
 function getConfigPath(vaultPath: string): string {
   return path.join(vaultPath, CONFIG_DIR_NAME, AGENT_CONFIG_FILE);
 }
@@ -42,6 +238,51 @@ export async function loadAgentConfig(vaultPath: string): Promise<Required<Agent
           ? data.dedupSimilarityThreshold
           : DEFAULTS.dedupSimilarityThreshold,
       useEmbeddings: typeof data.useEmbeddings === "boolean" ? data.useEmbeddings : DEFAULTS.useEmbeddings,
+      cacheEnabled: typeof data.cacheEnabled === "boolean" ? data.cacheEnabled : DEFAULTS.cacheEnabled,
+      cacheMaxMB: typeof data.cacheMaxMB === "number" ? data.cacheMaxMB : DEFAULTS.cacheMaxMB,
+      maxTokensPerRun: typeof data.maxTokensPerRun === "number" ? data.maxTokensPerRun : DEFAULTS.maxTokensPerRun,
+      maxCostPerRun: typeof data.maxCostPerRun === "number" ? data.maxCostPerRun : DEFAULTS.maxCostPerRun,
+      maxTokensPerSource:
+        typeof data.maxTokensPerSource === "number" ? data.maxTokensPerSource : DEFAULTS.maxTokensPerSource,
+      llmTimeoutSec: typeof data.llmTimeoutSec === "number" ? data.llmTimeoutSec : DEFAULTS.llmTimeoutSec,
+      llmMaxRetries: typeof data.llmMaxRetries === "number" ? data.llmMaxRetries : DEFAULTS.llmMaxRetries,
+      circuitBreakerThreshold:
+        typeof data.circuitBreakerThreshold === "number"
+          ? data.circuitBreakerThreshold
+          : DEFAULTS.circuitBreakerThreshold,
+      circuitBreakerCooldownSec:
+        typeof data.circuitBreakerCooldownSec === "number"
+          ? data.circuitBreakerCooldownSec
+          : DEFAULTS.circuitBreakerCooldownSec,
+      modelRouting: parseModelRouting(data.modelRouting),
+      concurrency: typeof data.concurrency === "number" ? data.concurrency : DEFAULTS.concurrency,
+      maxTaskAttempts: typeof data.maxTaskAttempts === "number" ? data.maxTaskAttempts : DEFAULTS.maxTaskAttempts,
+      incremental: typeof data.incremental === "boolean" ? data.incremental : DEFAULTS.incremental,
+      incrementalNeighbors:
+        typeof data.incrementalNeighbors === "number" ? data.incrementalNeighbors : DEFAULTS.incrementalNeighbors,
+      autoRun: typeof data.autoRun === "boolean" ? data.autoRun : DEFAULTS.autoRun,
+      autoRunDebounceSec:
+        typeof data.autoRunDebounceSec === "number" ? data.autoRunDebounceSec : DEFAULTS.autoRunDebounceSec,
+      autoRunQuietHours:
+        typeof data.autoRunQuietHours === "string" ? data.autoRunQuietHours : DEFAULTS.autoRunQuietHours,
+      autoRunMaxPerDay: typeof data.autoRunMaxPerDay === "number" ? data.autoRunMaxPerDay : DEFAULTS.autoRunMaxPerDay,
+      pipelines: parsePipelines(data.pipelines),
+      pipeline: typeof data.pipeline === "string" && data.pipeline.trim() ? data.pipeline.trim() : DEFAULTS.pipeline,
+      dryRun: typeof data.dryRun === "boolean" ? data.dryRun : DEFAULTS.dryRun,
+      logRetentionDays:
+        typeof data.logRetentionDays === "number" ? data.logRetentionDays : DEFAULTS.logRetentionDays,
+      journalRetentionRuns:
+        typeof data.journalRetentionRuns === "number" ? data.journalRetentionRuns : DEFAULTS.journalRetentionRuns,
+      reviewNoteTypes: parseNoteTypes(data.reviewNoteTypes),
+      humanEditPolicy:
+        data.humanEditPolicy === "append" || data.humanEditPolicy === "skip"
+          ? data.humanEditPolicy
+          : DEFAULTS.humanEditPolicy,
+      atomizeMaxChars: typeof data.atomizeMaxChars === "number" ? data.atomizeMaxChars : DEFAULTS.atomizeMaxChars,
+      removedSourcePolicy:
+        data.removedSourcePolicy === "mark" || data.removedSourcePolicy === "archive"
+          ? data.removedSourcePolicy
+          : DEFAULTS.removedSourcePolicy,
     };
   } catch {
     return { ...DEFAULTS };
@@ -64,6 +305,34 @@ export async function saveAgentConfig(
     maxTitlesOrganize: config.maxTitlesOrganize ?? existing.maxTitlesOrganize,
     dedupSimilarityThreshold: config.dedupSimilarityThreshold ?? existing.dedupSimilarityThreshold,
     useEmbeddings: config.useEmbeddings ?? existing.useEmbeddings,
+    cacheEnabled: config.cacheEnabled ?? existing.cacheEnabled,
+    cacheMaxMB: config.cacheMaxMB ?? existing.cacheMaxMB,
+    maxTokensPerRun: config.maxTokensPerRun ?? existing.maxTokensPerRun,
+    maxCostPerRun: config.maxCostPerRun ?? existing.maxCostPerRun,
+    maxTokensPerSource: config.maxTokensPerSource ?? existing.maxTokensPerSource,
+    llmTimeoutSec: config.llmTimeoutSec ?? existing.llmTimeoutSec,
+    llmMaxRetries: config.llmMaxRetries ?? existing.llmMaxRetries,
+    circuitBreakerThreshold: config.circuitBreakerThreshold ?? existing.circuitBreakerThreshold,
+    circuitBreakerCooldownSec: config.circuitBreakerCooldownSec ?? existing.circuitBreakerCooldownSec,
+    modelRouting: config.modelRouting !== undefined ? parseModelRouting(config.modelRouting) : existing.modelRouting,
+    concurrency: config.concurrency ?? existing.concurrency,
+    maxTaskAttempts: config.maxTaskAttempts ?? existing.maxTaskAttempts,
+    incremental: config.incremental ?? existing.incremental,
+    incrementalNeighbors: config.incrementalNeighbors ?? existing.incrementalNeighbors,
+    autoRun: config.autoRun ?? existing.autoRun,
+    autoRunDebounceSec: config.autoRunDebounceSec ?? existing.autoRunDebounceSec,
+    autoRunQuietHours: config.autoRunQuietHours ?? existing.autoRunQuietHours,
+    autoRunMaxPerDay: config.autoRunMaxPerDay ?? existing.autoRunMaxPerDay,
+    pipelines: config.pipelines !== undefined ? parsePipelines(config.pipelines) : existing.pipelines,
+    pipeline: config.pipeline ?? existing.pipeline,
+    dryRun: config.dryRun ?? existing.dryRun,
+    logRetentionDays: config.logRetentionDays ?? existing.logRetentionDays,
+    journalRetentionRuns: config.journalRetentionRuns ?? existing.journalRetentionRuns,
+    reviewNoteTypes:
+      config.reviewNoteTypes !== undefined ? parseNoteTypes(config.reviewNoteTypes) : existing.reviewNoteTypes,
+    humanEditPolicy: config.humanEditPolicy ?? existing.humanEditPolicy,
+    atomizeMaxChars: config.atomizeMaxChars ?? existing.atomizeMaxChars,
+    removedSourcePolicy: config.removedSourcePolicy ?? existing.removedSourcePolicy,
   };
   const filePath = path.join(dir, AGENT_CONFIG_FILE);
   await writeFile(filePath, JSON.stringify(updated, null, 2), "utf-8");
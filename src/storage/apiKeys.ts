@@ -0,0 +1,64 @@
+/**
+ * API keys of the vaults' LLM providers. They live with the server's own config in data/, never in the vault,
+ * so a synced or shared vault does not carry them. Each key is stored with the provider it was given for.
+ */
+import { readFile, writeFile, mkdir } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const CONFIG_DIR = path.resolve(__dirname, "..", "..", "data");
+const KEYS_FILE = "apiKeys.json";
+
+export interface StoredApiKey {
+  provider: string;
+  apiKey: string;
+}
+
+/** A vault's keys by section of its LLM config. */
+export interface VaultApiKeys {
+  completion?: StoredApiKey;
+  embedding?: StoredApiKey;
+}
+
+function getKeysPath(): string {
+  return path.join(CONFIG_DIR, KEYS_FILE);
+}
+
+function parseKey(value: unknown): StoredApiKey | undefined {
+  const data = value as Record<string, unknown> | null;
+  if (!data || typeof data.provider !== "string" || typeof data.apiKey !== "string" || !data.apiKey) return undefined;
+  return { provider: data.provider, apiKey: data.apiKey };
+}
+
+/** Keys of every vault, by resolved vault path. Missing or invalid file gives none. */
+async function loadAll(): Promise<Record<string, VaultApiKeys>> {
+  try {
+    const data = JSON.parse(await readFile(getKeysPath(), "utf-8")) as Record<string, unknown>;
+    if (!data || typeof data !== "object") return {};
+    const all: Record<string, VaultApiKeys> = {};
+    for (const [vaultPath, keys] of Object.entries(data)) {
+      const k = (keys ?? {}) as Record<string, unknown>;
+      all[vaultPath] = { completion: parseKey(k.completion), embedding: parseKey(k.embedding) };
+    }
+    return all;
+  } catch {
+    return {};
+  }
+}
+
+export async function loadApiKeys(vaultPath: string): Promise<VaultApiKeys> {
+  return (await loadAll())[path.resolve(vaultPath)] ?? {};
+}
+
+/** Replace a vault's keys; a vault without any is dropped from the file. */
+export async function saveApiKeys(vaultPath: string, keys: VaultApiKeys): Promise<void> {
+  const all = await loadAll();
+  const key = path.resolve(vaultPath);
+  if (keys.completion || keys.embedding) all[key] = keys;
+  else if (all[key]) delete all[key];
+  else return;
+  await mkdir(CONFIG_DIR, { recursive: true });
+  await writeFile(getKeysPath(), JSON.stringify(all, null, 2), { encoding: "utf-8", mode: 0o600 });
+}
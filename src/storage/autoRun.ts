@@ -0,0 +1,35 @@
+import { readFile, writeFile, mkdir } from "fs/promises";
+import path from "path";
+
+const AUTO_RUN_DIR = ".vaultmaker";
+const AUTO_RUN_FILE = "autoRun.json";
+
+/** Automatic runs started on one (local) day, for the runs-per-day limit. */
+export interface AutoRunCounter {
+  day: string;
+  runs: number;
+}
+
+function getAutoRunPath(vaultPath: string): string {
+  return path.join(vaultPath, AUTO_RUN_DIR, AUTO_RUN_FILE);
+}
+
+/**
+ * Load the auto-run counter for a vault. Missing or invalid file gives no runs.
+ */
+export async function loadAutoRunCounter(vaultPath: string): Promise<AutoRunCounter> {
+  try {
+    const raw = await readFile(getAutoRunPath(vaultPath), "utf-8");
+    const data = JSON.parse(raw) as AutoRunCounter;
+    if (!data || typeof data.day !== "string" || typeof data.runs !== "number") return { day: "", runs: 0 };
+    return { day: data.day, runs: data.runs };
+  } catch {
+    return { day: "", runs: 0 };
+  }
+}
+
+export async function saveAutoRunCounter(vaultPath: string, counter: AutoRunCounter): Promise<void> {
+  const dir = path.join(vaultPath, AUTO_RUN_DIR);
+  await mkdir(dir, { recursive: true });
+  await writeFile(getAutoRunPath(vaultPath), JSON.stringify(counter, null, 0), "utf-8");
+}
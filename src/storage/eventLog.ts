@@ -0,0 +1,154 @@
+import { appendFile, mkdir, readFile, readdir, unlink } from "fs/promises";
+import path from "path";
+
+const LOG_DIR = path.join(".vaultmaker", "logs");
+const FILE_PATTERN = /^events-(\d{4}-\d{2}-\d{2})\.jsonl$/;
+
+export type EventLevel = "info" | "warn" | "error";
+
+const LEVEL_RANK: Record<EventLevel, number> = { info: 0, warn: 1, error: 2 };
+
+export function isEventLevel(value: unknown): value is EventLevel {
+  return value === "info" || value === "warn" || value === "error";
+}
+
+/** One line of the event log. Run, task and target come from the task context when there is one. */
+export interface EventLogEntry {
+  ts: string;
+  level: EventLevel;
+  message: string;
+  runId?: string;
+  taskId?: string;
+  stage?: string;
+  taskKind?: string;
+  /** Source id or note path the task works on. */
+  target?: string;
+  /** How long the task took, on task-finished and task-failed events. */
+  durationMs?: number;
+  error?: { name: string; message: string };
+}
+
+export interface EventLogQuery {
+  /** Minimum level: "warn" also returns errors. */
+  level?: EventLevel;
+  runId?: string;
+  taskId?: string;
+  stage?: string;
+  /** Substring of the target (source id or note path). */
+  target?: string;
+  /** Case-insensitive substring of the message or error. */
+  text?: string;
+  /** ISO timestamps, inclusive. */
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+}
+
+function getLogDir(vaultPath: string): string {
+  return path.join(vaultPath, LOG_DIR);
+}
+
+/** Log files are per UTC day, so rotation is deleting whole files. */
+function fileForDay(day: string): string {
+  return `events-${day}.jsonl`;
+}
+
+export async function appendEvents(vaultPath: string, entries: EventLogEntry[]): Promise<void> {
+  if (entries.length === 0) return;
+  const dir = getLogDir(vaultPath);
+  await mkdir(dir, { recursive: true });
+  const byDay = new Map<string, string[]>();
+  for (const entry of entries) {
+    const day = entry.ts.slice(0, 10);
+    const lines = byDay.get(day) ?? [];
+    lines.push(JSON.stringify(entry));
+    byDay.set(day, lines);
+  }
+  for (const [day, lines] of byDay) {
+    await appendFile(path.join(dir, fileForDay(day)), lines.join("\n") + "\n", "utf-8");
+  }
+}
+
+/** Days with a log file, newest first. */
+async function listLogDays(vaultPath: string): Promise<string[]> {
+  let names: string[];
+  try {
+    names = await readdir(getLogDir(vaultPath));
+  } catch {
+    return [];
+  }
+  return names
+    .map((name) => FILE_PATTERN.exec(name)?.[1])
+    .filter((day): day is string => day != null)
+    .sort()
+    .reverse();
+}
+
+/** Delete log files older than `keepDays` days (0 = keep everything). */
+export async function pruneEventLogs(vaultPath: string, keepDays: number, now: Date = new Date()): Promise<void> {
+  if (!(keepDays > 0)) return;
+  const cutoff = new Date(now.getTime() - keepDays * 86_400_000).toISOString().slice(0, 10);
+  for (const day of await listLogDays(vaultPath)) {
+    if (day >= cutoff) continue;
+    try {
+      await unlink(path.join(getLogDir(vaultPath), fileForDay(day)));
+    } catch {
+      // already gone
+    }
+  }
+}
+
+function matches(entry: EventLogEntry, query: EventLogQuery): boolean {
+  if (query.level && LEVEL_RANK[entry.level] < LEVEL_RANK[query.level]) return false;
+  if (query.runId && entry.runId !== query.runId) return false;
+  if (query.taskId && entry.taskId !== query.taskId) return false;
+  if (query.stage && entry.stage !== query.stage) return false;
+  if (query.target && !(entry.target ?? "").includes(query.target)) return false;
+  if (query.since && entry.ts < query.since) return false;
+  if (query.until && entry.ts > query.until) return false;
+  if (query.text) {
+    const haystack = `${entry.message} ${entry.error?.message ?? ""}`.toLowerCase();
+    if (!haystack.includes(query.text.toLowerCase())) return false;
+  }
+  return true;
+}
+
+/**
+ * Search the event log, newest first. `total` counts every match; `entries` is the requested page
+ * (default 100 entries). Unparseable lines are skipped.
+ */
+export async function readEvents(
+  vaultPath: string,
+  query: EventLogQuery = {}
+): Promise<{ total: number; entries: EventLogEntry[] }> {
+  const limit = Math.max(0, Math.floor(query.limit ?? 100));
+  const offset = Math.max(0, Math.floor(query.offset ?? 0));
+  const sinceDay = query.since?.slice(0, 10);
+  const untilDay = query.until?.slice(0, 10);
+  let total = 0;
+  const entries: EventLogEntry[] = [];
+  for (const day of await listLogDays(vaultPath)) {
+    if ((sinceDay && day < sinceDay) || (untilDay && day > untilDay)) continue;
+    let raw: string;
+    try {
+      raw = await readFile(path.join(getLogDir(vaultPath), fileForDay(day)), "utf-8");
+    } catch {
+      continue;
+    }
+    const lines = raw.split("\n");
+    for (let i = lines.length - 1; i >= 0; i--) {
+      if (!lines[i].trim()) continue;
+      let entry: EventLogEntry;
+      try {
+        entry = JSON.parse(lines[i]) as EventLogEntry;
+      } catch {
+        continue;
+      }
+      if (!entry || typeof entry.ts !== "string" || !matches(entry, query)) continue;
+      if (total >= offset && entries.length < limit) entries.push(entry);
+      total++;
+    }
+  }
+  return { total, entries };
+}
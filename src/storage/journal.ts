@@ -0,0 +1,170 @@
+import { appendFile, mkdir, readFile, readdir, unlink, writeFile } from "fs/promises";
+import path from "path";
+import { createHash } from "crypto";
+
+const JOURNAL_DIR = path.join(".vaultmaker", "journal");
+const BLOB_DIR = "blobs";
+
+/**
+ * One change the agent made. "write" and "delete" are vault files, with content hashes before and after
+ * (null = file absent); the prior content is kept as a blob. "processed" marks a source as analyzed in
+ * progress.json, so undoing it makes the source due again.
+ */
+export interface JournalEntry {
+  ts: string;
+  action: "write" | "delete" | "processed";
+  runId: string;
+  taskId: string | null;
+  stage: string | null;
+  taskKind: string | null;
+  /** Vault-relative path, "/"-separated; for write and delete. */
+  path?: string;
+  beforeHash?: string | null;
+  afterHash?: string | null;
+  /** For processed. */
+  sourceId?: string;
+}
+
+export interface JournalRunSummary {
+  runId: string;
+  startedAt: string;
+  endedAt: string;
+  changes: number;
+  taskIds: string[];
+}
+
+export function contentHash(content: string): string {
+  return createHash("sha256").update(content).digest("hex");
+}
+
+function getJournalDir(vaultPath: string): string {
+  return path.join(vaultPath, JOURNAL_DIR);
+}
+
+function getRunPath(vaultPath: string, runId: string): string {
+  return path.join(getJournalDir(vaultPath), `${runId}.jsonl`);
+}
+
+function getBlobPath(vaultPath: string, hash: string): string {
+  return path.join(getJournalDir(vaultPath), BLOB_DIR, hash);
+}
+
+/** Store content under its hash (once) and return the hash. */
+export async function saveBlob(vaultPath: string, content: string): Promise<string> {
+  const hash = contentHash(content);
+  await mkdir(path.join(getJournalDir(vaultPath), BLOB_DIR), { recursive: true });
+  try {
+    await writeFile(getBlobPath(vaultPath, hash), content, { encoding: "utf-8", flag: "wx" });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "EEXIST") throw err;
+  }
+  return hash;
+}
+
+export async function loadBlob(vaultPath: string, hash: string): Promise<string | null> {
+  if (!/^[0-9a-f]{64}$/.test(hash)) return null;
+  try {
+    return await readFile(getBlobPath(vaultPath, hash), "utf-8");
+  } catch {
+    return null;
+  }
+}
+
+export async function appendJournalEntry(vaultPath: string, entry: JournalEntry): Promise<void> {
+  await mkdir(getJournalDir(vaultPath), { recursive: true });
+  await appendFile(getRunPath(vaultPath, entry.runId), JSON.stringify(entry) + "\n", "utf-8");
+}
+
+/** Entries of one run in the order they were made. Missing run gives an empty list. */
+export async function loadJournal(vaultPath: string, runId: string): Promise<JournalEntry[]> {
+  if (!/^[\w-]+$/.test(runId)) return [];
+  let raw: string;
+  try {
+    raw = await readFile(getRunPath(vaultPath, runId), "utf-8");
+  } catch {
+    return [];
+  }
+  const entries: JournalEntry[] = [];
+  for (const line of raw.split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const entry = JSON.parse(line) as JournalEntry;
+      if (entry && typeof entry.ts === "string" && typeof entry.action === "string") entries.push(entry);
+    } catch {
+      // skip a torn line
+    }
+  }
+  return entries;
+}
+
+/** Replace a run's entries; an empty list removes the run. */
+export async function saveJournal(vaultPath: string, runId: string, entries: JournalEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    try {
+      await unlink(getRunPath(vaultPath, runId));
+    } catch {
+      // already gone
+    }
+    return;
+  }
+  await mkdir(getJournalDir(vaultPath), { recursive: true });
+  await writeFile(getRunPath(vaultPath, runId), entries.map((e) => JSON.stringify(e) + "\n").join(""), "utf-8");
+}
+
+/** Journaled runs, oldest first. */
+export async function listJournalRuns(vaultPath: string): Promise<JournalRunSummary[]> {
+  let names: string[];
+  try {
+    names = await readdir(getJournalDir(vaultPath));
+  } catch {
+    return [];
+  }
+  const runs: JournalRunSummary[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".jsonl")) continue;
+    const runId = name.slice(0, -".jsonl".length);
+    const entries = await loadJournal(vaultPath, runId);
+    if (entries.length === 0) continue;
+    runs.push({
+      runId,
+      startedAt: entries[0].ts,
+      endedAt: entries[entries.length - 1].ts,
+      changes: entries.filter((e) => e.action !== "processed").length,
+      taskIds: [...new Set(entries.map((e) => e.taskId).filter((id): id is string => id != null))],
+    });
+  }
+  return runs.sort((a, b) => (a.startedAt < b.startedAt ? -1 : a.startedAt > b.startedAt ? 1 : 0));
+}
+
+/** Delete all but the `keepRuns` most recent runs (0 = keep all), then the blobs only they referred to. */
+export async function pruneJournalRuns(vaultPath: string, keepRuns: number): Promise<void> {
+  if (!(keepRuns > 0)) return;
+  const runs = await listJournalRuns(vaultPath);
+  if (runs.length <= keepRuns) return;
+  for (const run of runs.slice(0, runs.length - keepRuns)) await saveJournal(vaultPath, run.runId, []);
+  await pruneJournalBlobs(vaultPath);
+}
+
+/** Delete blobs no remaining entry refers to. */
+export async function pruneJournalBlobs(vaultPath: string): Promise<void> {
+  const referenced = new Set<string>();
+  for (const run of await listJournalRuns(vaultPath)) {
+    for (const entry of await loadJournal(vaultPath, run.runId)) {
+      if (entry.beforeHash) referenced.add(entry.beforeHash);
+    }
+  }
+  let names: string[];
+  try {
+    names = await readdir(path.join(getJournalDir(vaultPath), BLOB_DIR));
+  } catch {
+    return;
+  }
+  for (const name of names) {
+    if (referenced.has(name)) continue;
+    try {
+      await unlink(getBlobPath(vaultPath, name));
+    } catch {
+      // already gone
+    }
+  }
+}
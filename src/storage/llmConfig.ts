@@ -0,0 +1,131 @@
+import { readFile, writeFile, mkdir } from "fs/promises";
+import path from "path";
+import type { ProviderSettings } from "../llm/registry.js";
+import type { Pricing } from "../llm/usage.js";
+import { loadApiKeys, saveApiKeys, type StoredApiKey } from "./apiKeys.js";
+
+const CONFIG_DIR_NAME = ".vaultmaker";
+const LLM_CONFIG_FILE = "llmConfig.json";
+
+/**
+ * Per-vault provider selection. `embedding: null` disables embeddings (retrieval uses keyword fallback).
+ * API keys are not written to the vault's llmConfig.json but kept server-side (see apiKeys.ts).
+ */
+export interface LLMConfig {
+  completion: ProviderSettings;
+  embedding: ProviderSettings | null;
+  /** USD per million tokens by model name; wins over the built-in OpenAI list prices. */
+  pricing: Record<string, Pricing>;
+}
+
+function getConfigPath(vaultPath: string): string {
+  return path.join(vaultPath, CONFIG_DIR_NAME, LLM_CONFIG_FILE);
+}
+
+/**
+ * Defaults when a vault has no llmConfig.json: OpenAI, overridable with LLM_PROVIDER, LLM_MODEL,
+ * LLM_BASE_URL and EMBEDDING_MODEL in .env.
+ */
+export function defaultLLMConfig(): LLMConfig {
+  const provider = process.env.LLM_PROVIDER || "openai";
+  const baseURL = process.env.LLM_BASE_URL || undefined;
+  return {
+    completion: { provider, model: process.env.LLM_MODEL || undefined, baseURL },
+    embedding: { provider, model: process.env.EMBEDDING_MODEL || undefined, baseURL },
+    pricing: {},
+  };
+}
+
+function parseSettings(value: unknown): ProviderSettings | null {
+  if (!value || typeof value !== "object") return null;
+  const data = value as Record<string, unknown>;
+  if (typeof data.provider !== "string" || !data.provider.trim()) return null;
+  return {
+    provider: data.provider.trim(),
+    model: typeof data.model === "string" && data.model.trim() ? data.model.trim() : undefined,
+    baseURL: typeof data.baseURL === "string" && data.baseURL.trim() ? data.baseURL.trim() : undefined,
+    apiKey: typeof data.apiKey === "string" && data.apiKey ? data.apiKey : undefined,
+  };
+}
+
+/** Model prices with non-negative numeric `input` and `output`; anything else is dropped. */
+function parsePricing(value: unknown): Record<string, Pricing> {
+  if (!value || typeof value !== "object") return {};
+  const pricing: Record<string, Pricing> = {};
+  for (const [model, price] of Object.entries(value as Record<string, unknown>)) {
+    const p = price as Record<string, unknown> | null;
+    if (!p || typeof p.input !== "number" || typeof p.output !== "number") continue;
+    if (p.input < 0 || p.output < 0) continue;
+    pricing[model] = { input: p.input, output: p.output };
+  }
+  return pricing;
+}
+
+/** Settings with the stored key, when it was given for the same provider. A key still in the file wins. */
+function withStoredKey(settings: ProviderSettings, stored: StoredApiKey | undefined): ProviderSettings {
+  if (settings.apiKey || stored?.provider !== settings.provider) return settings;
+  return { ...settings, apiKey: stored.apiKey };
+}
+
+function storedKeyOf(settings: ProviderSettings | null): StoredApiKey | undefined {
+  return settings?.apiKey ? { provider: settings.provider, apiKey: settings.apiKey } : undefined;
+}
+
+function withoutKey(settings: ProviderSettings | null): ProviderSettings | null {
+  if (!settings) return null;
+  const { apiKey, ...rest } = settings;
+  return rest;
+}
+
+/**
+ * Load per-vault provider config with its stored API keys. Missing file or fields use defaults.
+ */
+export async function loadLLMConfig(vaultPath: string): Promise<LLMConfig> {
+  const defaults = defaultLLMConfig();
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(await readFile(getConfigPath(vaultPath), "utf-8")) as Record<string, unknown>;
+    if (!data || typeof data !== "object") return defaults;
+  } catch {
+    return defaults;
+  }
+  const keys = await loadApiKeys(vaultPath);
+  const completion = parseSettings(data.completion) ?? defaults.completion;
+  const embedding = data.embedding === null ? null : parseSettings(data.embedding) ?? defaults.embedding;
+  return {
+    completion: withStoredKey(completion, keys.completion),
+    embedding: embedding && withStoredKey(embedding, keys.embedding),
+    pricing: parsePricing(data.pricing),
+  };
+}
+
+/**
+ * Save per-vault provider config. Each given section (including `pricing`) replaces the stored one; an omitted
+ * apiKey keeps the stored key when the provider is unchanged so clients never have to echo secrets back.
+ * Keys go to the server-side key store; a key left in the file by an older version moves there too.
+ */
+export async function saveLLMConfig(vaultPath: string, config: Partial<LLMConfig>): Promise<LLMConfig> {
+  const existing = await loadLLMConfig(vaultPath);
+  const keepKey = (next: ProviderSettings, prev: ProviderSettings | null): ProviderSettings =>
+    next.apiKey === undefined && prev?.provider === next.provider && prev.apiKey
+      ? { ...next, apiKey: prev.apiKey }
+      : next;
+  const completion = config.completion ? parseSettings(config.completion) : null;
+  const embedding = config.embedding ? parseSettings(config.embedding) : null;
+  const updated: LLMConfig = {
+    completion: completion ? keepKey(completion, existing.completion) : existing.completion,
+    embedding:
+      config.embedding === null
+        ? null
+        : embedding
+          ? keepKey(embedding, existing.embedding)
+          : existing.embedding,
+    pricing: config.pricing !== undefined ? parsePricing(config.pricing) : existing.pricing,
+  };
+  await saveApiKeys(vaultPath, { completion: storedKeyOf(updated.completion), embedding: storedKeyOf(updated.embedding) });
+  const dir = path.join(vaultPath, CONFIG_DIR_NAME);
+  await mkdir(dir, { recursive: true });
+  const inVault = { ...updated, completion: withoutKey(updated.completion), embedding: withoutKey(updated.embedding) };
+  await writeFile(getConfigPath(vaultPath), JSON.stringify(inVault, null, 2), "utf-8");
+  return updated;
+}
@@ -0,0 +1,35 @@
+import { readFile, writeFile, mkdir } from "fs/promises";
+import path from "path";
+
+const HASHES_FILE = path.join(".vaultmaker", "noteHashes.json");
+
+/** What the agent last wrote to a note, to tell its own writes from edits made outside it. */
+export interface NoteHashRecord {
+  /** sha256 of the content the agent last wrote. */
+  hash: string;
+  /** Set once the note was found edited outside the agent; it stays human-owned from then on. */
+  humanEdited?: boolean;
+}
+
+/** Records keyed by vault-relative "/"-separated path. Missing or invalid file gives none. */
+export async function loadNoteHashes(vaultPath: string): Promise<Record<string, NoteHashRecord>> {
+  try {
+    const data = JSON.parse(await readFile(path.join(vaultPath, HASHES_FILE), "utf-8"));
+    if (!data || typeof data !== "object" || Array.isArray(data)) return {};
+    const records: Record<string, NoteHashRecord> = {};
+    for (const [rel, raw] of Object.entries(data as Record<string, unknown>)) {
+      const r = raw as NoteHashRecord | null;
+      if (!r || typeof r.hash !== "string") continue;
+      records[rel] = r.humanEdited === true ? { hash: r.hash, humanEdited: true } : { hash: r.hash };
+    }
+    return records;
+  } catch {
+    return {};
+  }
+}
+
+export async function saveNoteHashes(vaultPath: string, records: Record<string, NoteHashRecord>): Promise<void> {
+  const filePath = path.join(vaultPath, HASHES_FILE);
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(records, null, 2), "utf-8");
+}
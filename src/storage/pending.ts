@@ -0,0 +1,115 @@
+import { readFile, writeFile, readdir, mkdir, unlink } from "fs/promises";
+import path from "path";
+
+const PENDING_DIR = path.join(".vaultmaker", "pending");
+
+export type ChangeAction = "create" | "modify" | "delete";
+
+/** A vault write staged by a dry run, waiting to be accepted or rejected. One JSON file per change. */
+export interface PendingChange {
+  id: string;
+  action: ChangeAction;
+  /** Vault-relative path, "/"-separated. */
+  path: string;
+  /** Content when the change was staged (null for create), used to detect later edits. */
+  before: string | null;
+  /** Content to write (null for delete). */
+  after: string | null;
+  diff: string;
+  runId: string | null;
+  taskId: string | null;
+  stage: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Staged changes by path, per vault; dropped whenever a change is saved or deleted. */
+const byPathCache = new Map<string, Map<string, PendingChange>>();
+/** Bumped on every save or delete, so a listing that raced with one is not cached. */
+let generation = 0;
+
+function invalidate(vaultPath: string): void {
+  generation++;
+  byPathCache.delete(vaultPath);
+}
+
+function getPendingDir(vaultPath: string): string {
+  return path.join(vaultPath, PENDING_DIR);
+}
+
+function getChangePath(vaultPath: string, id: string): string {
+  return path.join(getPendingDir(vaultPath), `${id}.json`);
+}
+
+function isPendingChange(data: unknown): data is PendingChange {
+  const c = data as PendingChange;
+  return (
+    !!c &&
+    typeof c.id === "string" &&
+    (c.action === "create" || c.action === "modify" || c.action === "delete") &&
+    typeof c.path === "string" &&
+    (c.before === null || typeof c.before === "string") &&
+    (c.after === null || typeof c.after === "string")
+  );
+}
+
+export async function loadPendingChange(vaultPath: string, id: string): Promise<PendingChange | null> {
+  if (!/^[\w-]+$/.test(id)) return null;
+  try {
+    const data = JSON.parse(await readFile(getChangePath(vaultPath, id), "utf-8"));
+    return isPendingChange(data) ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/** All staged changes, oldest first. Invalid files are skipped. */
+export async function listPendingChanges(vaultPath: string): Promise<PendingChange[]> {
+  let names: string[];
+  try {
+    names = await readdir(getPendingDir(vaultPath));
+  } catch {
+    return [];
+  }
+  const changes: PendingChange[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".json")) continue;
+    const change = await loadPendingChange(vaultPath, name.slice(0, -".json".length));
+    if (change) changes.push(change);
+  }
+  return changes.sort((a, b) => (a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : 0));
+}
+
+/** Staged changes keyed by path, read once and kept until the next save or delete. */
+export async function pendingChangesByPath(vaultPath: string): Promise<Map<string, PendingChange>> {
+  const cached = byPathCache.get(vaultPath);
+  if (cached) return cached;
+  const started = generation;
+  const byPath = new Map((await listPendingChanges(vaultPath)).map((c) => [c.path, c]));
+  if (generation === started) byPathCache.set(vaultPath, byPath);
+  return byPath;
+}
+
+/** Number of staged changes, without reading them. */
+export async function countPendingChanges(vaultPath: string): Promise<number> {
+  try {
+    return (await readdir(getPendingDir(vaultPath))).filter((name) => name.endsWith(".json")).length;
+  } catch {
+    return 0;
+  }
+}
+
+export async function savePendingChange(vaultPath: string, change: PendingChange): Promise<void> {
+  await mkdir(getPendingDir(vaultPath), { recursive: true });
+  await writeFile(getChangePath(vaultPath, change.id), JSON.stringify(change, null, 2), "utf-8");
+  invalidate(vaultPath);
+}
+
+export async function deletePendingChange(vaultPath: string, id: string): Promise<void> {
+  try {
+    await unlink(getChangePath(vaultPath, id));
+  } catch {
+    // already gone
+  }
+  invalidate(vaultPath);
+}
@@ -1,16 +1,21 @@
-import { readFile, writeFile, mkdir } from "fs/promises";
+import { readFile, mkdir } from "fs/promises";
 import path from "path";
-import type { QueuedTask } from "../agent/types.js";
+import type { FailedTask, QueuedTask } from "../agent/types.js";
 import type { Stage } from "../agent/types.js";
-import { restoreQueue } from "../agent/queue.js";
+import { restoreQueue, restoreFailedTasks } from "../agent/queue.js";
+import { writeFileAtomic } from "../lib/fs.js";
 
 const PROGRESS_DIR = ".vaultmaker";
 const PROGRESS_FILE = "progress.json";
 
 export interface ProgressData {
   processedSourceIds: string[];
+  /** Version of each processed source that was extracted last (see StagedSource.version). */
+  sourceVersions: Record<string, number>;
   currentStage: Stage | null;
   queue: QueuedTask[];
+  /** Tasks that failed every attempt; see getFailedTasks(). */
+  failedTasks: FailedTask[];
   lastUpdated: string;
 }
 
@@ -33,6 +38,15 @@ export async function loadProgress(vaultPath: string): Promise<ProgressData | nu
       (t) => t && typeof t.kind === "string" && typeof t.stage === "string"
     );
     data.processedSourceIds = data.processedSourceIds.filter((id) => typeof id === "string");
+    const versions = data.sourceVersions && typeof data.sourceVersions === "object" ? data.sourceVersions : {};
+    data.sourceVersions = Object.fromEntries(
+      Object.entries(versions).filter(([, v]) => typeof v === "number")
+    );
+    data.failedTasks = Array.isArray(data.failedTasks)
+      ? data.failedTasks.filter(
+          (t) => t && typeof t.id === "string" && typeof t.kind === "string" && typeof t.stage === "string"
+        )
+      : [];
     return data;
   } catch {
     return null;
@@ -44,18 +58,24 @@ export async function loadProgress(vaultPath: string): Promise<ProgressData | nu
  */
 export async function saveProgress(
   vaultPath: string,
-  data: Omit<ProgressData, "lastUpdated"> & { lastUpdated?: string }
+  data: Omit<ProgressData, "lastUpdated" | "failedTasks" | "sourceVersions"> & {
+    lastUpdated?: string;
+    failedTasks?: FailedTask[];
+    sourceVersions?: Record<string, number>;
+  }
 ): Promise<void> {
   const dir = path.join(vaultPath, PROGRESS_DIR);
   await mkdir(dir, { recursive: true });
   const full: ProgressData = {
     processedSourceIds: data.processedSourceIds ?? [],
+    sourceVersions: data.sourceVersions ?? {},
     currentStage: data.currentStage ?? null,
     queue: data.queue ?? [],
+    failedTasks: data.failedTasks ?? [],
     lastUpdated: data.lastUpdated ?? new Date().toISOString(),
   };
   const filePath = path.join(dir, PROGRESS_FILE);
-  await writeFile(filePath, JSON.stringify(full, null, 0), "utf-8");
+  await writeFileAtomic(filePath, JSON.stringify(full, null, 0));
 }
 
 /**
@@ -74,7 +94,7 @@ export async function getProgressSummary(vaultPath: string): Promise<{
 }
 
 /**
- * Restore agent state from progress: restore queue and return currentStage.
+ * Restore agent state from progress: restore queue and failed tasks, and return currentStage.
  * Caller should set state.currentStage from returned value.
  * If currentQueueLength > 0, the in-memory queue is not overwritten (avoids wiping a live queue when saving config).
  */
@@ -88,6 +108,7 @@ export async function restoreFromProgress(
   queueLength: number;
 }> {
   const data = await loadProgress(vaultPath);
+  restoreFailedTasks(data?.failedTasks ?? []);
   if (!data || data.queue.length === 0) {
     return { restored: false, currentStage: null, processedCount: 0, queueLength: 0 };
   }
@@ -0,0 +1,44 @@
+import { readFile, writeFile, mkdir, readdir, rm } from "fs/promises";
+import path from "path";
+
+const CONFIG_DIR_NAME = ".vaultmaker";
+const PROMPTS_SUBDIR = "prompts";
+const PROMPT_EXT = ".md";
+
+function getPromptsDir(vaultPath: string): string {
+  return path.join(vaultPath, CONFIG_DIR_NAME, PROMPTS_SUBDIR);
+}
+
+/**
+ * Read every prompt override file for a vault, keyed by prompt id (file name without .md).
+ * Missing directory means no overrides.
+ */
+export async function loadPromptFiles(vaultPath: string): Promise<Record<string, string>> {
+  const dir = getPromptsDir(vaultPath);
+  let names: string[];
+  try {
+    names = await readdir(dir);
+  } catch {
+    return {};
+  }
+  const files: Record<string, string> = {};
+  for (const name of names.sort()) {
+    if (!name.endsWith(PROMPT_EXT)) continue;
+    try {
+      files[name.slice(0, -PROMPT_EXT.length)] = await readFile(path.join(dir, name), "utf-8");
+    } catch {
+      // unreadable file: treat as absent
+    }
+  }
+  return files;
+}
+
+export async function savePromptFile(vaultPath: string, id: string, template: string): Promise<void> {
+  const dir = getPromptsDir(vaultPath);
+  await mkdir(dir, { recursive: true });
+  await writeFile(path.join(dir, id + PROMPT_EXT), template, "utf-8");
+}
+
+export async function deletePromptFile(vaultPath: string, id: string): Promise<void> {
+  await rm(path.join(getPromptsDir(vaultPath), id + PROMPT_EXT), { force: true });
+}
@@ -0,0 +1,126 @@
+import { readFile, writeFile, readdir, mkdir, unlink } from "fs/promises";
+import path from "path";
+import { INFERRED_NOTE_TYPES, type InferredNoteType } from "../agent/types.js";
+
+const PROPOSALS_DIR = path.join(".vaultmaker", "proposals");
+const REJECTED_FILE = path.join(".vaultmaker", "rejectedProposals.json");
+
+/** An inferred note held for review instead of being written. One JSON file per proposal. */
+export interface Proposal {
+  id: string;
+  noteType: InferredNoteType;
+  title: string;
+  /** Vault-relative path the note is written to when approved, "/"-separated. */
+  path: string;
+  /** The whole note, properties included. */
+  content: string;
+  /** Titles of the notes it was inferred from. */
+  premises: string[];
+  /** Relationship links in its body. */
+  links: { relationship: string; title: string }[];
+  /** The note (deduce), MOC (induce) or contradiction (validate) it was inferred for. */
+  derivedFrom: string;
+  runId: string | null;
+  taskId: string | null;
+  stage: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** A rejected proposal, remembered so the stages do not propose it again. */
+export interface RejectedProposal {
+  noteType: InferredNoteType;
+  title: string;
+  derivedFrom: string;
+  rejectedAt: string;
+}
+
+function getProposalsDir(vaultPath: string): string {
+  return path.join(vaultPath, PROPOSALS_DIR);
+}
+
+function getProposalPath(vaultPath: string, id: string): string {
+  return path.join(getProposalsDir(vaultPath), `${id}.json`);
+}
+
+function isProposal(data: unknown): data is Proposal {
+  const p = data as Proposal;
+  return (
+    !!p &&
+    typeof p.id === "string" &&
+    INFERRED_NOTE_TYPES.includes(p.noteType) &&
+    typeof p.title === "string" &&
+    typeof p.path === "string" &&
+    typeof p.content === "string" &&
+    Array.isArray(p.premises) &&
+    Array.isArray(p.links)
+  );
+}
+
+export async function loadProposal(vaultPath: string, id: string): Promise<Proposal | null> {
+  if (!/^[\w-]+$/.test(id)) return null;
+  try {
+    const data = JSON.parse(await readFile(getProposalPath(vaultPath, id), "utf-8"));
+    return isProposal(data) ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+/** All open proposals, oldest first. Invalid files are skipped. */
+export async function listProposals(vaultPath: string): Promise<Proposal[]> {
+  let names: string[];
+  try {
+    names = await readdir(getProposalsDir(vaultPath));
+  } catch {
+    return [];
+  }
+  const proposals: Proposal[] = [];
+  for (const name of names) {
+    if (!name.endsWith(".json")) continue;
+    const proposal = await loadProposal(vaultPath, name.slice(0, -".json".length));
+    if (proposal) proposals.push(proposal);
+  }
+  return proposals.sort((a, b) => (a.createdAt < b.createdAt ? -1 : a.createdAt > b.createdAt ? 1 : 0));
+}
+
+/** Number of open proposals, without reading them. */
+export async function countProposals(vaultPath: string): Promise<number> {
+  try {
+    return (await readdir(getProposalsDir(vaultPath))).filter((name) => name.endsWith(".json")).length;
+  } catch {
+    return 0;
+  }
+}
+
+export async function saveProposal(vaultPath: string, proposal: Proposal): Promise<void> {
+  await mkdir(getProposalsDir(vaultPath), { recursive: true });
+  await writeFile(getProposalPath(vaultPath, proposal.id), JSON.stringify(proposal, null, 2), "utf-8");
+}
+
+export async function deleteProposal(vaultPath: string, id: string): Promise<void> {
+  try {
+    await unlink(getProposalPath(vaultPath, id));
+  } catch {
+    // already gone
+  }
+}
+
+/** Rejected proposals, oldest first. Missing or invalid file gives none. */
+export async function loadRejectedProposals(vaultPath: string): Promise<RejectedProposal[]> {
+  try {
+    const data = JSON.parse(await readFile(path.join(vaultPath, REJECTED_FILE), "utf-8"));
+    if (!Array.isArray(data)) return [];
+    return data.filter(
+      (r): r is RejectedProposal => !!r && typeof r.title === "string" && INFERRED_NOTE_TYPES.includes(r.noteType)
+    );
+  } catch {
+    return [];
+  }
+}
+
+export async function saveRejectedProposals(vaultPath: string, rejected: RejectedProposal[]): Promise<void> {
+  const filePath = path.join(vaultPath, REJECTED_FILE);
+  await mkdir(path.dirname(filePath), { recursive: true });
+  await writeFile(filePath, JSON.stringify(rejected, null, 2), "utf-8");
+}
@@ -1,6 +1,7 @@
 import { createHash } from "crypto";
 import { readFile, writeFile, mkdir } from "fs/promises";
 import path from "path";
+import { createKeyedMutex } from "../lib/mutex.js";
 
 const PROGRESS_DIR = ".vaultmaker";
 const SOURCE_INDEX_FILE = "sourceIndex.json";
@@ -16,10 +17,18 @@ export interface SourceIndexData {
   lastUpdated: string;
 }
 
+/** Serializes read-modify-write updates of a vault's source index (folder imports, the source watcher). */
+const sourceIndexLock = createKeyedMutex();
+
 function getSourceIndexPath(vaultPath: string): string {
   return path.join(vaultPath, PROGRESS_DIR, SOURCE_INDEX_FILE);
 }
 
+/** Run `fn`, which loads, changes and saves the vault's source index, while no other update of it runs. */
+export function withSourceIndexLock<T>(vaultPath: string, fn: () => Promise<T>): Promise<T> {
+  return sourceIndexLock.run(path.resolve(vaultPath), fn);
+}
+
 /** Compute SHA-256 hash of content (string or buffer). */
 export function computeContentHash(content: string | Buffer): string {
   const data = typeof content === "string" ? Buffer.from(content, "utf-8") : content;
@@ -62,11 +71,13 @@ export async function saveSourceIndex(vaultPath: string, data: SourceIndexData):
  * Clear the source index for a vault so the next import will treat all files as needing processing.
  */
 export async function clearSourceIndex(vaultPath: string): Promise<void> {
-  await saveSourceIndex(vaultPath, {
-    sourceDir: "",
-    entries: {},
-    lastUpdated: new Date().toISOString(),
-  });
+  await withSourceIndexLock(vaultPath, () =>
+    saveSourceIndex(vaultPath, {
+      sourceDir: "",
+      entries: {},
+      lastUpdated: new Date().toISOString(),
+    })
+  );
 }
 
 /**
@@ -1,4 +1,4 @@
-import { readFile, writeFile, mkdir } from "fs/promises";
+import { readFile, writeFile, mkdir, unlink } from "fs/promises";
 import path from "path";
 import { randomUUID } from "crypto";
 
@@ -10,6 +10,8 @@ export interface StagedSource {
   path: string;
   name: string;
   text: string;
+  /** Bumped each time the file's content changes; the id stays. Absent means 1. */
+  version?: number;
 }
 
 /** Directory where staged source files are stored for a vault (inside the vault folder). */
@@ -46,3 +48,13 @@ export async function loadSource(vaultPath: string, id: string): Promise<StagedS
     return null;
   }
 }
+
+/** Remove a staged source. Returns false if it was not staged. */
+export async function deleteSource(vaultPath: string, id: string): Promise<boolean> {
+  try {
+    await unlink(path.join(getSourcesDir(vaultPath), `${id}.json`));
+    return true;
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,78 @@
+import { readFile, writeFile, mkdir } from "fs/promises";
+import path from "path";
+
+const USAGE_DIR = ".vaultmaker";
+const USAGE_FILE = "usage.json";
+
+export interface UsageTotals {
+  calls: number;
+  cachedCalls: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Cost of the priced calls. */
+  costUsd: number;
+  /** Calls to models without a known price, whose cost is missing from costUsd. Absent in older files. */
+  unpricedCalls?: number;
+}
+
+export interface RunUsage {
+  runId: string;
+  startedAt: string;
+  totals: UsageTotals;
+}
+
+/** Accumulated token usage and cost for a vault, with breakdowns for the status view. */
+export interface UsageData {
+  total: UsageTotals;
+  byStage: Record<string, UsageTotals>;
+  byTaskKind: Record<string, UsageTotals>;
+  byModel: Record<string, UsageTotals>;
+  /** Keyed by source id or note path. */
+  byTarget: Record<string, UsageTotals>;
+  lastRun: RunUsage | null;
+  lastUpdated: string;
+}
+
+export function emptyTotals(): UsageTotals {
+  return { calls: 0, cachedCalls: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, unpricedCalls: 0 };
+}
+
+export function emptyUsage(): UsageData {
+  return {
+    total: emptyTotals(),
+    byStage: {},
+    byTaskKind: {},
+    byModel: {},
+    byTarget: {},
+    lastRun: null,
+    lastUpdated: new Date().toISOString(),
+  };
+}
+
+function getUsagePath(vaultPath: string): string {
+  return path.join(vaultPath, USAGE_DIR, USAGE_FILE);
+}
+
+/**
+ * Load usage totals for a vault. Missing or invalid file gives empty totals.
+ */
+export async function loadUsage(vaultPath: string): Promise<UsageData> {
+  try {
+    const raw = await readFile(getUsagePath(vaultPath), "utf-8");
+    const data = JSON.parse(raw) as UsageData;
+    if (!data || !data.total || typeof data.total.calls !== "number") return emptyUsage();
+    return {
+      ...emptyUsage(),
+      ...data,
+    };
+  } catch {
+    return emptyUsage();
+  }
+}
+
+export async function saveUsage(vaultPath: string, data: UsageData): Promise<void> {
+  const dir = path.join(vaultPath, USAGE_DIR);
+  await mkdir(dir, { recursive: true });
+  const full: UsageData = { ...data, lastUpdated: new Date().toISOString() };
+  await writeFile(getUsagePath(vaultPath), JSON.stringify(full, null, 0), "utf-8");
+}
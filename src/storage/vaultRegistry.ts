@@ -0,0 +1,59 @@
+import { readFile, writeFile, mkdir } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const CONFIG_DIR = path.resolve(__dirname, "..", "..", "data");
+const CONFIG_FILE = "vaults.json";
+
+/** A vault served next to the default one (see vaultConfig.ts), with its own agent, queue and watcher. */
+export interface RegisteredVault {
+  id: string;
+  vaultPath: string;
+  vaultName: string | null;
+  sourceDir: string | null;
+}
+
+export interface VaultRegistry {
+  /** How many vaults' agents may run at once; 0 = no limit. */
+  maxConcurrentAgents: number;
+  vaults: RegisteredVault[];
+}
+
+const DEFAULTS: VaultRegistry = { maxConcurrentAgents: 0, vaults: [] };
+
+function getConfigPath(): string {
+  return path.join(CONFIG_DIR, CONFIG_FILE);
+}
+
+function isRegisteredVault(data: unknown): data is RegisteredVault {
+  const v = data as RegisteredVault;
+  return (
+    !!v &&
+    typeof v.id === "string" &&
+    typeof v.vaultPath === "string" &&
+    (v.vaultName === null || typeof v.vaultName === "string") &&
+    (v.sourceDir === null || typeof v.sourceDir === "string")
+  );
+}
+
+/** Missing or invalid file gives no registered vaults; invalid entries are skipped. */
+export async function loadVaultRegistry(): Promise<VaultRegistry> {
+  try {
+    const raw = await readFile(getConfigPath(), "utf-8");
+    const data = JSON.parse(raw) as Partial<VaultRegistry>;
+    return {
+      maxConcurrentAgents:
+        typeof data.maxConcurrentAgents === "number" ? data.maxConcurrentAgents : DEFAULTS.maxConcurrentAgents,
+      vaults: Array.isArray(data.vaults) ? data.vaults.filter(isRegisteredVault) : [],
+    };
+  } catch {
+    return { ...DEFAULTS, vaults: [] };
+  }
+}
+
+export async function saveVaultRegistry(registry: VaultRegistry): Promise<void> {
+  await mkdir(CONFIG_DIR, { recursive: true });
+  await writeFile(getConfigPath(), JSON.stringify(registry, null, 2), "utf-8");
+}
@@ -1,21 +1,35 @@
 import path from "path";
 import chokidar, { type FSWatcher } from "chokidar";
-import { readFile } from "fs/promises";
+import { access, readFile } from "fs/promises";
 import {
   loadSourceIndex,
   saveSourceIndex,
   computeContentHash,
   needsProcessing,
-  type SourceIndexData,
+  withSourceIndexLock,
 } from "../storage/sourceIndex.js";
-import { saveSource, generateSourceId } from "../storage/sources.js";
-import { enqueueSourceForProcessing } from "../agent/loop.js";
 import { isExtractable, extractText } from "../extract/office.js";
 import { appendLog } from "../agent/queue.js";
+import { eventError } from "../agent/eventLog.js";
+import { scheduleAutoRun, cancelAutoRun } from "../agent/autoRun.js";
+import {
+  findMovedSource,
+  moveSource,
+  removeSource,
+  stageSource,
+  assertSourceDirAvailable,
+} from "../agent/sourceChanges.js";
+import { vaultState, currentVaultId, runInVault } from "../agent/vaultScope.js";
 
 const ALLOWED_EXT = [".md", ".txt", ".pdf", ".docx", ".doc", ".pptx", ".ppt"];
 
-let watcher: FSWatcher | null = null;
+/** How long a deleted file may take to reappear elsewhere (a move seen as unlink + add) before it counts as removed. */
+const MOVE_GRACE_MS = 2000;
+
+const watched = vaultState(() => ({
+  watcher: null as FSWatcher | null,
+  removals: new Set<NodeJS.Timeout>(),
+}));
 
 function normalizeRel(sourceDir: string, fullPath: string): string {
   const rel = path.relative(sourceDir, fullPath);
@@ -45,51 +59,109 @@ async function processFile(
   }
 
   const contentHash = computeContentHash(text);
-  let index = await loadSourceIndex(vaultPath);
-  if (!index || index.sourceDir !== sourceDir) {
-    index = { sourceDir, entries: {}, lastUpdated: new Date().toISOString() };
-  }
+  return withSourceIndexLock(vaultPath, async () => {
+    let index = await loadSourceIndex(vaultPath);
+    if (!index || index.sourceDir !== sourceDir) {
+      index = { sourceDir, entries: {}, lastUpdated: new Date().toISOString() };
+    }
 
-  if (!needsProcessing(index, rel, contentHash, sourceDir)) {
-    return { enqueued: false };
-  }
+    if (!needsProcessing(index, rel, contentHash, sourceDir)) {
+      return { enqueued: false };
+    }
 
-  const id = generateSourceId();
-  const name = path.basename(rel, ext) || rel;
-  await saveSource(vaultPath, id, { path: rel, name, text });
-  enqueueSourceForProcessing(id);
+    const movedFrom = await findMovedSource(index, rel, contentHash);
+    if (movedFrom) {
+      await moveSource(vaultPath, index, movedFrom, rel);
+      index.lastUpdated = new Date().toISOString();
+      await saveSourceIndex(vaultPath, index);
+      return { enqueued: false };
+    }
 
-  index.entries[rel] = { sourceId: id, contentHash };
-  index.lastUpdated = new Date().toISOString();
-  await saveSourceIndex(vaultPath, index);
+    await stageSource(vaultPath, index, rel, text, contentHash);
+    index.lastUpdated = new Date().toISOString();
+    await saveSourceIndex(vaultPath, index);
 
-  appendLog(`Source changed: ${rel} → queued for re-processing`);
-  return { enqueued: true };
+    appendLog(`Source changed: ${rel} → queued for re-processing`);
+    return { enqueued: true };
+  });
+}
+
+/**
+ * A watched file was deleted. Unless it was moved (see processFile) or came back meanwhile, forget it.
+ * Throws, forgetting nothing, when the source folder itself has gone missing or empty.
+ */
+async function processRemoval(rel: string, sourceDir: string, vaultPath: string): Promise<void> {
+  await withSourceIndexLock(vaultPath, async () => {
+    const index = await loadSourceIndex(vaultPath);
+    if (!index || index.sourceDir !== sourceDir || !index.entries[rel]) return;
+    try {
+      await access(path.join(sourceDir, rel));
+      return;
+    } catch {
+      // still gone
+    }
+    await assertSourceDirAvailable(sourceDir, Object.keys(index.entries).length);
+    await removeSource(vaultPath, index, rel);
+    index.lastUpdated = new Date().toISOString();
+    await saveSourceIndex(vaultPath, index);
+  });
 }
 
 export function startSourceWatcher(sourceDir: string, vaultPath: string): void {
   stopSourceWatcher();
-  watcher = chokidar.watch(sourceDir, {
+  const watcher = chokidar.watch(sourceDir, {
     ignored: /(^|[\/\\])\../,
     persistent: true,
     ignoreInitial: true,
   });
 
-  watcher.on("add", (fullPath: string) => {
-    void processFile(fullPath, sourceDir, vaultPath);
-  });
+  // chokidar's callbacks do not carry the vault scope they were registered in
+  const vaultId = currentVaultId();
+  const state = watched();
+  state.watcher = watcher;
+  /** Run a callback in the vault's scope; a failure is logged instead of becoming an unhandled rejection. */
+  const inVault = (what: string, fn: () => Promise<void>): void => {
+    void runInVault(vaultId, () =>
+      fn().catch((err) => {
+        appendLog(`Source watcher: ${what} failed: ${(err as Error).message}`, {
+          level: "error",
+          error: eventError(err),
+        });
+      })
+    );
+  };
+  const onFile = (fullPath: string) =>
+    inVault(`processing ${normalizeRel(sourceDir, fullPath)}`, async () => {
+      const { enqueued } = await processFile(fullPath, sourceDir, vaultPath);
+      if (enqueued) await scheduleAutoRun();
+    });
+
+  watcher.on("add", onFile);
+  watcher.on("change", onFile);
 
-  watcher.on("change", (fullPath: string) => {
-    void processFile(fullPath, sourceDir, vaultPath);
+  // wait before treating a deletion as final, so the add of a moved file can claim its index entry
+  watcher.on("unlink", (fullPath: string) => {
+    const rel = normalizeRel(sourceDir, fullPath);
+    const timer = setTimeout(() => {
+      state.removals.delete(timer);
+      // stopped or switched to another folder meanwhile
+      if (state.watcher !== watcher) return;
+      inVault(`removing ${rel}`, () => processRemoval(rel, sourceDir, vaultPath));
+    }, MOVE_GRACE_MS);
+    state.removals.add(timer);
   });
 
   appendLog(`Watching source folder: ${sourceDir}`);
 }
 
 export function stopSourceWatcher(): void {
-  if (watcher) {
-    watcher.close();
-    watcher = null;
+  cancelAutoRun();
+  const current = watched();
+  for (const timer of current.removals) clearTimeout(timer);
+  current.removals.clear();
+  if (current.watcher) {
+    current.watcher.close();
+    current.watcher = null;
     appendLog("Stopped watching source folder");
   }
 }
@@ -0,0 +1,62 @@
+/**
+ * The atomize stage: long notes are split into atomic notes that carry the original's properties.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "fs/promises";
+import path from "path";
+import matter from "gray-matter";
+import { runLoop } from "../src/agent/loop.js";
+import { clearQueue } from "../src/agent/queue.js";
+import { saveAgentConfig } from "../src/storage/agentConfig.js";
+import type { FakeRule } from "../src/llm/fake.js";
+import { loadIndex } from "../src/retrieval/embeddingIndex.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import { setUpPipeline, withTempVault } from "./fixtures/pipeline/harness.js";
+
+test("the atomize stage splits long notes, carrying their properties onto the new notes", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    const parent = "Insights/Caffeine improves alertness.md";
+    const child = "Insights/Lab caffeine effects may not carry over.md";
+    const splitRules: FakeRule[] = [
+      {
+        stage: "atomize",
+        match: /file: Insights\/Caffeine improves alertness\.md/,
+        respond: JSON.stringify({
+          updatedSource: "Caffeine reliably improves alertness and reaction time for several hours.\n\nSee [[Lab caffeine effects may not carry over]].",
+          newNotes: [
+            {
+              title: "Lab caffeine effects may not carry over",
+              content: "Effect sizes measured in lab studies of caffeine may not carry over to daily use, where tolerance builds up.",
+            },
+          ],
+        }),
+      },
+      { stage: "atomize", respond: '{"updatedSource": null, "newNotes": []}' },
+    ];
+    await saveAgentConfig(vaultPath, {
+      pipelines: { split: [{ stage: "extract" }, { stage: "atomize" }] },
+      pipeline: "split",
+      atomizeMaxChars: 140,
+    });
+    const llm = await setUpPipeline(vaultPath, [...splitRules, ...pipelineRules]);
+    await runLoop();
+
+    assert.deepEqual(
+      llm.calls.filter((c) => c.stage === "atomize").map((c) => c.messages[1].content.match(/file: ([^)]+)/)![1]),
+      [parent]
+    );
+    const split = matter(await readFile(path.join(vaultPath, child), "utf-8"));
+    assert.equal(split.data.type, "Claim");
+    assert.equal(split.data.source, "coffee");
+    assert.deepEqual(split.data.tags, ["caffeine"]);
+    assert.equal(split.data.split_from, "[[Caffeine improves alertness]]");
+    assert.equal(split.data.source_id, "coffee");
+    assert.equal(split.data.stage, "atomize");
+    const updated = matter(await readFile(path.join(vaultPath, parent), "utf-8"));
+    assert.equal(updated.data.confidence, 0.85);
+    assert.match(updated.content, /See \[\[Lab caffeine effects may not carry over\]\]/);
+    assert.ok((await loadIndex(vaultPath)).entries.some((e) => e.path === child));
+  });
+});
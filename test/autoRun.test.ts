@@ -0,0 +1,73 @@
+/**
+ * Automatic runs: quiet-hours arithmetic, and a watcher-style schedule that starts the agent once and then
+ * holds further runs at the daily limit.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { setAgentVault, setLLM, enqueueSourceForProcessing, getAgentState } from "../src/agent/loop.js";
+import { scheduleAutoRun, cancelAutoRun, getAutoRunStatus, quietHoursEnd } from "../src/agent/autoRun.js";
+import { getQueueLength } from "../src/agent/queue.js";
+import { setEmbeddingClient } from "../src/retrieval/retrieve.js";
+import { saveSource } from "../src/storage/sources.js";
+import { saveAgentConfig } from "../src/storage/agentConfig.js";
+import { createFakeLLM, createFakeEmbeddingClient } from "../src/llm/fake.js";
+import { sleep } from "../src/lib/sleep.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+
+const FIXTURE_SOURCES = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures", "pipeline", "sources");
+
+test("quiet hours may span midnight and end at their end time", () => {
+  const at = (h: number, m: number) => new Date(2026, 0, 15, h, m);
+  assert.equal(quietHoursEnd("22:00-07:00", at(12, 0)), null);
+  assert.deepEqual(quietHoursEnd("22:00-07:00", at(23, 30)), new Date(2026, 0, 16, 7, 0));
+  assert.deepEqual(quietHoursEnd("22:00-07:00", at(6, 59)), new Date(2026, 0, 15, 7, 0));
+  assert.deepEqual(quietHoursEnd("09:00-17:00", at(9, 0)), new Date(2026, 0, 15, 17, 0));
+  assert.equal(quietHoursEnd("09:00-17:00", at(17, 0)), null);
+  assert.equal(quietHoursEnd("", at(23, 0)), null);
+  assert.equal(quietHoursEnd("late", at(23, 0)), null);
+});
+
+async function queueSource(vaultPath: string, id: string): Promise<void> {
+  const text = await readFile(path.join(FIXTURE_SOURCES, `${id}.md`), "utf-8");
+  await saveSource(vaultPath, id, { path: `${id}.md`, name: id, text });
+  enqueueSourceForProcessing(id);
+}
+
+async function waitFor(condition: () => boolean | Promise<boolean>, what: string): Promise<void> {
+  for (let i = 0; i < 200; i++) {
+    if (await condition()) return;
+    await sleep(25);
+  }
+  assert.fail(`timed out waiting for ${what}`);
+}
+
+test("auto-run starts the agent after the debounce and stops at the daily limit", async () => {
+  const vaultPath = await mkdtemp(path.join(os.tmpdir(), "vaultmaker-autorun-"));
+  try {
+    await setAgentVault(vaultPath, "autorun-test");
+    await saveAgentConfig(vaultPath, { autoRun: true, autoRunDebounceSec: 0, autoRunMaxPerDay: 1 });
+    setLLM(createFakeLLM(pipelineRules));
+    setEmbeddingClient(createFakeEmbeddingClient());
+
+    await queueSource(vaultPath, "coffee");
+    await scheduleAutoRun();
+    await waitFor(() => getAgentState().log.some((l) => l.startsWith("Auto-run: starting")), "the run to start");
+    await waitFor(() => getAgentState().status === "idle" && getQueueLength() === 0, "the run to finish");
+    assert.equal((await getAutoRunStatus(vaultPath)).runsToday, 1);
+
+    await queueSource(vaultPath, "tea");
+    await scheduleAutoRun();
+    await waitFor(async () => (await getAutoRunStatus(vaultPath)).waitingFor === "daily limit", "the daily limit");
+    assert.equal(getQueueLength(), 1);
+  } finally {
+    cancelAutoRun();
+    setLLM(null);
+    setEmbeddingClient(null);
+    await setAgentVault(null, null);
+    await rm(vaultPath, { recursive: true, force: true });
+  }
+});
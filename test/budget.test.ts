@@ -0,0 +1,52 @@
+/**
+ * Run budgets: a used-up budget pauses the run with the interrupted task at the head of the queue, and
+ * raising the budget and resuming finishes the same vault as an unlimited run.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setLLM, runLoop, getAgentState, canResume, resumeLoop } from "../src/agent/loop.js";
+import { getTaskContext } from "../src/agent/taskContext.js";
+import { getQueueSnapshot } from "../src/agent/queue.js";
+import { withUsageAccounting } from "../src/llm/usage.js";
+import { saveAgentConfig } from "../src/storage/agentConfig.js";
+import { loadProgress } from "../src/storage/progress.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import { snapshotVault, setUpPipeline, assertMatchesGolden, withTempVault } from "./fixtures/pipeline/harness.js";
+
+test("a used-up run budget pauses the run, and raising it lets the run resume", async () => {
+  await withTempVault(async (vaultPath) => {
+    const llm = await setUpPipeline(vaultPath, pipelineRules);
+    const accounted = withUsageAccounting(llm, "fake", null);
+    const callers: string[] = [];
+    setLLM({
+      model: llm.model,
+      complete: (messages, options) => {
+        callers.push(getTaskContext()!.taskId!);
+        return accounted.complete(messages, options);
+      },
+    });
+    // the first call uses the whole budget, so the second is refused
+    await saveAgentConfig(vaultPath, { maxTokensPerRun: 1 });
+    await runLoop();
+
+    assert.equal(getAgentState().status, "paused");
+    assert.equal(getAgentState().currentStage, "extract");
+    assert.ok(canResume());
+    assert.equal(callers.length, 2);
+    const interrupted = callers[1];
+    assert.equal(getQueueSnapshot()[0].id, interrupted);
+    const progress = await loadProgress(vaultPath);
+    assert.equal(progress?.currentStage, "extract");
+    assert.equal(progress?.queue[0].id, interrupted);
+
+    await resumeLoop();
+    assert.equal(getAgentState().status, "paused", "the run is still over its budget");
+    assert.equal(getQueueSnapshot()[0].id, interrupted);
+
+    await saveAgentConfig(vaultPath, { maxTokensPerRun: 0 });
+    await resumeLoop();
+    assert.equal(getAgentState().status, "idle");
+    assert.equal(getAgentState().currentStage, null);
+    await assertMatchesGolden(await snapshotVault(vaultPath));
+  });
+});
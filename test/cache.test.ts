@@ -0,0 +1,48 @@
+/**
+ * Response cache index: parallel writes keep every entry in a readable index.json, and access times
+ * from hits reach the file so eviction stays least-recently-used after a restart.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { createResponseCache, cacheKey } from "../src/llm/cache.js";
+import { sleep } from "../src/lib/sleep.js";
+
+async function readCacheIndex(vaultPath: string): Promise<Record<string, { lastAccess: number }>> {
+  return JSON.parse(await readFile(path.join(vaultPath, ".vaultmaker", "cache", "index.json"), "utf-8"));
+}
+
+test("parallel cache writes keep every entry, and hits are persisted for least-recently-used eviction", async () => {
+  const vaultPath = await mkdtemp(path.join(os.tmpdir(), "vaultmaker-cache-"));
+  try {
+    const cache = createResponseCache(vaultPath, { maxBytes: 1024 * 1024 });
+    const keys = Array.from({ length: 40 }, (_, i) => cacheKey("ns", i));
+    await Promise.all(keys.map((key, i) => cache.set("completion", key, `response ${i}`)));
+    assert.equal(Object.keys(await readCacheIndex(vaultPath)).length, 40);
+
+    // room for about three entries: the one read last must survive the next eviction
+    const small = await mkdtemp(path.join(os.tmpdir(), "vaultmaker-cache-"));
+    try {
+      const lru = createResponseCache(small, { maxBytes: 60 });
+      const value = "x".repeat(14);
+      await lru.set("completion", "a", value);
+      await sleep(5);
+      await lru.set("completion", "b", value);
+      await sleep(5);
+      await lru.set("completion", "c", value);
+      await sleep(5);
+      assert.equal(await lru.get("completion", "a"), value);
+      await sleep(5);
+      await lru.set("completion", "d", value);
+      const index = await readCacheIndex(small);
+      assert.deepEqual(Object.keys(index).sort(), ["a", "c", "d"]);
+      assert.ok(index.a.lastAccess > index.c.lastAccess, "the hit on a was written to index.json");
+    } finally {
+      await rm(small, { recursive: true, force: true });
+    }
+  } finally {
+    await rm(vaultPath, { recursive: true, force: true });
+  }
+});
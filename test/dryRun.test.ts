@@ -0,0 +1,104 @@
+/**
+ * Dry runs: writes are staged as reviewable changes instead of changing the vault, later stages see them,
+ * and accepting or rejecting them applies or drops them.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { runLoop } from "../src/agent/loop.js";
+import { singleStagePipeline } from "../src/agent/pipeline.js";
+import { clearQueue } from "../src/agent/queue.js";
+import { listPendingChanges } from "../src/storage/pending.js";
+import {
+  acceptPendingChange,
+  acceptPendingChanges,
+  rejectPendingChange,
+  rejectPendingChanges,
+} from "../src/agent/pendingChanges.js";
+import { loadIndex } from "../src/retrieval/embeddingIndex.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import { GOLDEN_DIR, listFiles, setUpPipeline, snapshotVault, withTempVault } from "./fixtures/pipeline/harness.js";
+
+test("a dry run stages its writes for review instead of changing the vault", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    await setUpPipeline(vaultPath, pipelineRules);
+    await runLoop({ pipeline: singleStagePipeline("extract"), dryRun: true });
+
+    const notes = (await listFiles(vaultPath)).filter((f) => f.endsWith(".md"));
+    assert.deepEqual(notes, []);
+    assert.deepEqual((await loadIndex(vaultPath)).entries, []);
+    const pending = await listPendingChanges(vaultPath);
+    assert.ok(pending.length > 1);
+    const [first] = pending;
+    assert.equal(first.action, "create");
+    assert.equal(first.stage, "extract");
+    assert.match(first.diff, /^--- \/dev\/null\n\+\+\+ b\/Insights\//);
+
+    assert.deepEqual(await acceptPendingChange(vaultPath, first.id), { id: first.id, ok: true });
+    assert.equal(await readFile(path.join(vaultPath, first.path), "utf-8"), first.after);
+    assert.deepEqual((await loadIndex(vaultPath)).entries.map((e) => e.path), [first.path]);
+
+    const rejected = await rejectPendingChanges(vaultPath);
+    assert.equal(rejected.length, pending.length - 1);
+    assert.deepEqual(await listPendingChanges(vaultPath), []);
+    assert.deepEqual((await listFiles(vaultPath)).filter((f) => f.endsWith(".md")), [first.path]);
+  });
+});
+
+test("discarded dry-run changes never reach the vault, and a change to a file edited since staging is refused", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    await setUpPipeline(vaultPath, pipelineRules);
+    await runLoop({ pipeline: singleStagePipeline("extract"), dryRun: true });
+    const [discarded, edited, accepted] = await listPendingChanges(vaultPath);
+
+    assert.deepEqual(await rejectPendingChange(vaultPath, discarded.id), { id: discarded.id, ok: true });
+    assert.equal((await rejectPendingChange(vaultPath, discarded.id)).ok, false);
+    assert.ok(!(await listFiles(vaultPath)).includes(discarded.path));
+
+    await mkdir(path.dirname(path.join(vaultPath, edited.path)), { recursive: true });
+    await writeFile(path.join(vaultPath, edited.path), "Written by hand.\n", "utf-8");
+    const results = await acceptPendingChanges(vaultPath, [edited.id, accepted.id, discarded.id]);
+    assert.deepEqual(
+      results.map((r) => (r.ok ? [r.id, "ok"] : [r.id, r.reason])),
+      [
+        [edited.id, "conflict"],
+        [accepted.id, "ok"],
+        [discarded.id, "missing"],
+      ]
+    );
+    assert.equal(await readFile(path.join(vaultPath, edited.path), "utf-8"), "Written by hand.\n");
+    assert.ok((await listPendingChanges(vaultPath)).some((c) => c.id === edited.id), "the refused change stays pending");
+    assert.deepEqual((await loadIndex(vaultPath)).entries.map((e) => e.path), [accepted.path]);
+  });
+});
+
+test("later stages of a dry run build on what earlier stages staged", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    const llm = await setUpPipeline(vaultPath, pipelineRules);
+    await runLoop({ dryRun: true });
+
+    assert.deepEqual(
+      [...new Set(llm.calls.map((c) => c.stage))],
+      ["extract", "organize", "connect", "deduce", "induce", "organize-again", "validate"]
+    );
+    assert.deepEqual((await listFiles(vaultPath)).filter((f) => f.endsWith(".md")), []);
+    assert.deepEqual((await loadIndex(vaultPath)).entries, []);
+    const pending = await listPendingChanges(vaultPath);
+    // one change per note, holding the last stage's version of it
+    assert.equal(new Set(pending.map((c) => c.path)).size, pending.length);
+    assert.ok(pending.some((c) => c.path.startsWith("Insights/") && c.stage === "connect"));
+
+    const results = await acceptPendingChanges(vaultPath, pending.map((c) => c.id));
+    assert.deepEqual(results.filter((r) => !r.ok), []);
+    const notes = [...(await snapshotVault(vaultPath))].filter(([rel]) => rel.endsWith(".md"));
+    const golden = (await listFiles(GOLDEN_DIR)).filter((f) => f.endsWith(".md"));
+    assert.deepEqual(notes.map(([rel]) => rel), golden, "accepted notes differ from a real run");
+    for (const [rel, content] of notes) {
+      assert.equal(content, await readFile(path.join(GOLDEN_DIR, rel), "utf-8"), `${rel} differs from a real run`);
+    }
+  });
+});
@@ -0,0 +1,53 @@
+/**
+ * Persistent event log: task timings and errors are written per day, searchable by level, target and
+ * text with paging, and old days rotate out.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, readdir, writeFile } from "fs/promises";
+import path from "path";
+import { runLoop } from "../src/agent/loop.js";
+import { singleStagePipeline } from "../src/agent/pipeline.js";
+import { clearQueue } from "../src/agent/queue.js";
+import type { FakeRule } from "../src/llm/fake.js";
+import { readEvents } from "../src/storage/eventLog.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import { setUpPipeline, withTempVault } from "./fixtures/pipeline/harness.js";
+
+test("the event log keeps task timings and errors, and old days rotate out", async () => {
+  await withTempVault(async (vaultPath) => {
+    const logDir = path.join(vaultPath, ".vaultmaker", "logs");
+    await mkdir(logDir, { recursive: true });
+    await writeFile(path.join(logDir, "events-2000-01-01.jsonl"), "", "utf-8");
+    const failing: FakeRule = {
+      stage: "extract",
+      match: /Tea drinkers report/,
+      respond: () => {
+        throw new Error("provider exploded");
+      },
+    };
+    clearQueue();
+    await setUpPipeline(vaultPath, [failing, ...pipelineRules]);
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+
+    const finished = await readEvents(vaultPath, { text: "finished extracting" });
+    assert.equal(finished.total, 1);
+    const [coffee] = finished.entries;
+    assert.equal(coffee.target, "coffee");
+    assert.equal(coffee.stage, "extract");
+    assert.ok(coffee.runId && coffee.taskId);
+    assert.equal(typeof coffee.durationMs, "number");
+
+    const errors = await readEvents(vaultPath, { level: "warn", target: "tea" });
+    assert.equal(errors.total, 3);
+    assert.deepEqual(errors.entries.map((e) => e.level), ["error", "warn", "warn"]);
+    assert.equal(errors.entries[0].error?.message, "provider exploded");
+    assert.equal(errors.entries[0].runId, coffee.runId);
+
+    const page = await readEvents(vaultPath, { target: "tea", level: "warn", limit: 1, offset: 1 });
+    assert.equal(page.total, 3);
+    assert.deepEqual(page.entries, [errors.entries[1]]);
+
+    assert.ok(!(await readdir(logDir)).includes("events-2000-01-01.jsonl"));
+  });
+});
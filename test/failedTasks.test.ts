@@ -0,0 +1,86 @@
+/**
+ * Failed tasks: a task is retried up to its attempt limit, then kept in the persisted failed list, from
+ * which it can be retried or discarded.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setAgentVault, runLoop, retryFailedTask, discardFailedTask } from "../src/agent/loop.js";
+import { singleStagePipeline } from "../src/agent/pipeline.js";
+import { getFailedTasks, getQueueSnapshot, clearQueue } from "../src/agent/queue.js";
+import type { FakeRule } from "../src/llm/fake.js";
+import { loadProgress } from "../src/storage/progress.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import { setUpPipeline, withTempVault } from "./fixtures/pipeline/harness.js";
+
+test("a task that keeps failing is retried, then kept in the failed list", async () => {
+  await withTempVault(async (vaultPath) => {
+    const failing: FakeRule = {
+      stage: "extract",
+      match: /Tea drinkers report/,
+      respond: () => {
+        throw new Error("provider exploded");
+      },
+    };
+    await setUpPipeline(vaultPath, [failing, ...pipelineRules]);
+    await runLoop();
+
+    const failed = getFailedTasks();
+    assert.equal(failed.length, 1);
+    assert.equal(failed[0].kind, "extract-insights");
+    assert.equal(failed[0].payload?.sourceId, "tea");
+    assert.equal(failed[0].attempts, 3);
+    assert.match(failed[0].lastError ?? "", /provider exploded/);
+
+    const progress = await loadProgress(vaultPath);
+    assert.deepEqual(progress?.processedSourceIds, ["coffee"]);
+    assert.deepEqual(progress?.failedTasks.map((t) => t.id), [failed[0].id]);
+
+    assert.equal(await retryFailedTask(failed[0].id), true);
+    assert.deepEqual(getFailedTasks(), []);
+    assert.deepEqual(
+      getQueueSnapshot().map((t) => [t.kind, t.payload?.sourceId, t.attempts]),
+      [["extract-insights", "tea", 0]]
+    );
+  });
+});
+
+test("a task that recovers within its attempts is not kept as failed, and a kept one survives a restart until discarded", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    let teaFailures = 0;
+    const failing: FakeRule[] = [
+      {
+        stage: "extract",
+        match: /Tea drinkers report/,
+        times: 2,
+        respond: () => {
+          teaFailures++;
+          throw new Error("provider hiccup");
+        },
+      },
+      {
+        stage: "extract",
+        match: /Source: coffee/,
+        respond: () => {
+          throw new Error("provider exploded");
+        },
+      },
+    ];
+    await setUpPipeline(vaultPath, [...failing, ...pipelineRules]);
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+    assert.equal(teaFailures, 2);
+    assert.deepEqual((await loadProgress(vaultPath))?.processedSourceIds, ["tea"]);
+    const [failed] = getFailedTasks();
+    assert.deepEqual([getFailedTasks().length, failed.payload?.sourceId, failed.attempts], [1, "coffee", 3]);
+
+    await setAgentVault(null, null);
+    await setAgentVault(vaultPath, "pipeline-test");
+    assert.deepEqual(getFailedTasks().map((t) => t.id), [failed.id]);
+    assert.equal(await retryFailedTask("no-such-task"), false);
+    assert.equal(await discardFailedTask("no-such-task"), false);
+    assert.equal(await discardFailedTask(failed.id), true);
+    assert.deepEqual(getFailedTasks(), []);
+    assert.deepEqual(getQueueSnapshot(), []);
+    assert.deepEqual((await loadProgress(vaultPath))?.failedTasks, []);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Shared harness for the pipeline tests: a temporary vault with the scripted fake LLM and the fixture
+ * sources queued, plus snapshots of the resulting vault for comparison with test/golden/pipeline.
+ */
+import assert from "node:assert/strict";
+import { mkdtemp, readdir, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { setAgentVault, setLLM, enqueueSourceForProcessing } from "../../../src/agent/loop.js";
+import { setEmbeddingClient } from "../../../src/retrieval/retrieve.js";
+import { createFakeLLM, createFakeEmbeddingClient, type FakeLLMClient, type FakeRule } from "../../../src/llm/fake.js";
+import { saveSource } from "../../../src/storage/sources.js";
+
+const here = path.dirname(fileURLToPath(import.meta.url));
+export const FIXTURE_SOURCES = path.join(here, "sources");
+export const GOLDEN_DIR = path.join(here, "..", "..", "golden", "pipeline");
+const STATE_FILES = [".vaultmaker/progress.json", ".vaultmaker/embeddingIndex.json", ".vaultmaker/validation.json"];
+const ISO_TIMESTAMP = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(?:\.\d+)?Z/g;
+const RUN_ID = /^run_id: .+$/gm;
+
+export async function listFiles(root: string, dir: string = ""): Promise<string[]> {
+  let entries;
+  try {
+    entries = await readdir(path.join(root, dir), { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const out: string[] = [];
+  for (const e of entries) {
+    const rel = dir ? `${dir}/${e.name}` : e.name;
+    if (e.isDirectory()) out.push(...(await listFiles(root, rel)));
+    else out.push(rel);
+  }
+  return out.sort();
+}
+
+/**
+ * Pretty-print JSON state files (sorting index entries by path and processed sources and versions by id,
+ * since parallel tasks finish in any order) and blank out timestamps and run ids.
+ */
+function normalize(rel: string, content: string): string {
+  if (rel.endsWith(".json")) {
+    const data = JSON.parse(content) as Record<string, unknown>;
+    if (Array.isArray(data.entries)) {
+      (data.entries as Array<{ path: string }>).sort((a, b) => (a.path < b.path ? -1 : a.path > b.path ? 1 : 0));
+    }
+    if (Array.isArray(data.processedSourceIds)) (data.processedSourceIds as string[]).sort();
+    if (data.sourceVersions && typeof data.sourceVersions === "object") {
+      data.sourceVersions = Object.fromEntries(Object.entries(data.sourceVersions).sort(([a], [b]) => (a < b ? -1 : 1)));
+    }
+    content = JSON.stringify(data, null, 2) + "\n";
+  }
+  return content.replace(ISO_TIMESTAMP, "<timestamp>").replace(RUN_ID, "run_id: <run-id>");
+}
+
+/** Markdown notes plus the agent state files, keyed by vault-relative path. */
+export async function snapshotVault(vaultPath: string): Promise<Map<string, string>> {
+  const files = (await listFiles(vaultPath)).filter((f) => f.endsWith(".md") || STATE_FILES.includes(f));
+  const snapshot = new Map<string, string>();
+  for (const rel of files) {
+    snapshot.set(rel, normalize(rel, await readFile(path.join(vaultPath, rel), "utf-8")));
+  }
+  return snapshot;
+}
+
+/** Point the agent at the vault, script the fake LLM and queue every fixture source. */
+export async function setUpPipeline(vaultPath: string, rules: FakeRule[]): Promise<FakeLLMClient> {
+  await setAgentVault(vaultPath, "pipeline-test");
+  const llm = createFakeLLM(rules);
+  setLLM(llm);
+  setEmbeddingClient(createFakeEmbeddingClient());
+
+  for (const file of await listFiles(FIXTURE_SOURCES)) {
+    const id = path.basename(file, ".md");
+    const text = await readFile(path.join(FIXTURE_SOURCES, file), "utf-8");
+    await saveSource(vaultPath, id, { path: file, name: id, text });
+    enqueueSourceForProcessing(id);
+  }
+  return llm;
+}
+
+export async function assertMatchesGolden(actual: Map<string, string>): Promise<void> {
+  const goldenFiles = await listFiles(GOLDEN_DIR);
+  assert.deepEqual([...actual.keys()], goldenFiles, "vault file list differs from golden");
+  for (const rel of goldenFiles) {
+    const expected = await readFile(path.join(GOLDEN_DIR, rel), "utf-8");
+    assert.equal(actual.get(rel), expected, `${rel} differs from golden`);
+  }
+}
+
+export async function withTempVault(fn: (vaultPath: string) => Promise<void>): Promise<void> {
+  const vaultPath = await mkdtemp(path.join(os.tmpdir(), "vaultmaker-pipeline-"));
+  try {
+    await fn(vaultPath);
+  } finally {
+    setLLM(null);
+    setEmbeddingClient(null);
+    await setAgentVault(null, null);
+    await rm(vaultPath, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * Scripted LLM responses for the end-to-end pipeline test. Two sources produce four insights with a
+ * Supports and a Contradicts link, so every stage (including deduce and validate) has work to do.
+ */
+import path from "path";
+import type { FakeRule } from "../../../src/llm/fake.js";
+
+const insightsBySource: Record<string, unknown[]> = {
+  coffee: [
+    {
+      title: "Caffeine improves alertness",
+      content: "Caffeine reliably improves alertness and reaction time for several hours.\n\n**Assumptions:** effect sizes from lab studies carry over to daily use.",
+      type: "Claim",
+      confidence: 0.85,
+      tags: ["caffeine"],
+    },
+    {
+      title: "Sleep debt reduces focus",
+      content: "Sleep debt reduces focus; caffeine masks the deficit rather than removing it.",
+      type: "Observation",
+    },
+  ],
+  tea: [
+    {
+      title: "Tea contains caffeine",
+      content: "Black and green tea contain caffeine, usually less than coffee.\n\nRelationship:: Supports [[Caffeine improves alertness]]",
+      type: "Evidence",
+      confidence: 0.9,
+    },
+    {
+      title: "Caffeine impairs sleep quality",
+      content: "Caffeine taken late in the day impairs sleep quality.\n\nRelationship:: Contradicts [[Caffeine improves alertness]]",
+      type: "Claim",
+      confidence: 0.7,
+      tags: ["caffeine", "sleep"],
+    },
+  ],
+};
+
+/** Titles listed as "- Title" or "- Title (type: X)" in an organize prompt. */
+function listedTitles(text: string): string[] {
+  const block = text.split("Vault note titles (use these exact strings in noteTitles):\n")[1] ?? "";
+  const titles: string[] = [];
+  for (const line of block.split("\n")) {
+    const m = line.match(/^- (.+?)(?: \(type: [^)]+\))?$/);
+    if (!m) break;
+    titles.push(m[1]);
+  }
+  return titles;
+}
+
+export const pipelineRules: FakeRule[] = [
+  {
+    stage: "extract",
+    match: /Source: (\w+)/,
+    respond: (_messages, match) => JSON.stringify({ insights: insightsBySource[match![1]] ?? [] }),
+  },
+  {
+    match: /concise executive summaries[\s\S]*MOC title: ([^.]+)\./,
+    respond: (_messages, match) => `${match![1]} groups what the sources say about caffeine and sleep.`,
+  },
+  {
+    match: /suggest Map of Content/,
+    respond: (messages) =>
+      JSON.stringify({ mocs: [{ title: "Stimulants", noteTitles: listedTitles(messages[messages.length - 1].content) }] }),
+  },
+  {
+    stage: "connect",
+    match: /Note to update \(file: ([^)]+)\):\n\n```markdown\n([\s\S]*?)\n```/,
+    respond: (_messages, match) =>
+      path.basename(match![1]) === "Sleep debt reduces focus.md"
+        ? `${match![2].trimEnd()}\n\nRelationship:: Evidence for [[Caffeine impairs sleep quality]]`
+        : match![2],
+  },
+  {
+    stage: "deduce",
+    match: /Current note \("Caffeine improves alertness"\)/,
+    respond: JSON.stringify({
+      conclusion: {
+        title: "Tea improves alertness",
+        content: "Tea drinkers get a milder version of the alertness effect.\n\nRelationship:: Conclusion of [[Tea contains caffeine]]",
+      },
+    }),
+  },
+  { stage: "deduce", respond: '{"conclusion": null}' },
+  {
+    stage: "induce",
+    respond: JSON.stringify({
+      themes: [
+        {
+          title: "Caffeine trades sleep for alertness",
+          content: "Short-term alertness gains are paid back in sleep quality.\n\nRelationship:: Evidence for [[Caffeine improves alertness]]\nRelationship:: Evidence for [[Caffeine impairs sleep quality]]",
+          noteTitles: ["Caffeine improves alertness", "Caffeine impairs sleep quality"],
+        },
+      ],
+    }),
+  },
+  {
+    stage: "validate",
+    match: /Two notes contradict each other: "([^"]+)" and "([^"]+)"/,
+    respond: (_messages, match) =>
+      `"${match![1]}" and "${match![2]}" disagree on whether caffeine helps.\n\nRelationship:: Contradicts [[${match![1]}]]\nRelationship:: Contradicts [[${match![2]}]]`,
+  },
+];
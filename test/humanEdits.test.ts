@@ -0,0 +1,80 @@
+/**
+ * Protection of human edits: notes edited outside the agent keep their edits and only get an agent
+ * section with what the agent added, and locked notes are left alone.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFile, writeFile } from "fs/promises";
+import path from "path";
+import { runLoop, getAgentState } from "../src/agent/loop.js";
+import { singleStagePipeline } from "../src/agent/pipeline.js";
+import { clearLog, clearQueue } from "../src/agent/queue.js";
+import type { FakeRule } from "../src/llm/fake.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import { listFiles, setUpPipeline, withTempVault } from "./fixtures/pipeline/harness.js";
+
+test("notes edited outside the agent keep their edits, and locked notes are left alone", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    clearLog();
+    await setUpPipeline(vaultPath, pipelineRules);
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+    const rel = (await listFiles(vaultPath)).find((f) => f.endsWith("Sleep debt reduces focus.md"))!;
+    const full = path.join(vaultPath, rel);
+    const edited = (await readFile(full, "utf-8")).trimEnd() + "\n\nA line added in Obsidian.\n";
+    await writeFile(full, edited, "utf-8");
+
+    await runLoop({ pipeline: singleStagePipeline("connect"), full: true });
+    assert.equal(
+      await readFile(full, "utf-8"),
+      edited +
+        "\n<!-- vaultmaker:agent -->\nRelationship:: Evidence for [[Caffeine impairs sleep quality]]\n<!-- /vaultmaker:agent -->\n"
+    );
+
+    const locked = edited.replace(/^---\n/, "---\nvaultmaker: locked\n");
+    await writeFile(full, locked, "utf-8");
+    await runLoop({ pipeline: singleStagePipeline("connect"), full: true });
+    assert.equal(await readFile(full, "utf-8"), locked);
+    assert.ok(getAgentState().log.includes(`Skipped ${rel}: locked`));
+  });
+});
+
+test("a protected note that receives a link gets only the link appended, not the paragraphs the agent reworded", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    clearLog();
+    const rewording: FakeRule = {
+      stage: "connect",
+      match: /Note to update \(file: [^)]*Sleep debt reduces focus\.md\):\n\n```markdown\n([\s\S]*?)\n```/,
+      respond: (_messages, match) =>
+        match![1]
+          .replace(
+            "caffeine masks the deficit rather than removing it.",
+            "caffeine only masks it (Relationship:: Evidence for [[Caffeine impairs sleep quality]])."
+          )
+          .replace("A line added in Obsidian.", "A line added in Obsidian, now about [[Tea contains caffeine]].")
+          .replace("A second human line.", "A reworded second line.")
+          .trimEnd() + "\n\n- Relationship:: Supports [[Caffeine improves alertness]]",
+    };
+    await setUpPipeline(vaultPath, [rewording, ...pipelineRules]);
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+    const rel = (await listFiles(vaultPath)).find((f) => f.endsWith("Sleep debt reduces focus.md"))!;
+    const full = path.join(vaultPath, rel);
+    const edited = (await readFile(full, "utf-8")).trimEnd() + "\n\nA line added in Obsidian.\n\nA second human line.\n";
+    await writeFile(full, edited, "utf-8");
+
+    await runLoop({ pipeline: singleStagePipeline("connect"), full: true });
+    const expected =
+      edited +
+      "\n<!-- vaultmaker:agent -->\n" +
+      "Relationship:: Evidence for [[Caffeine impairs sleep quality]]\n" +
+      "[[Tea contains caffeine]]\n" +
+      "- Relationship:: Supports [[Caffeine improves alertness]]\n" +
+      "<!-- /vaultmaker:agent -->\n";
+    assert.equal(await readFile(full, "utf-8"), expected);
+
+    // the next pass sees its own section and adds nothing
+    await runLoop({ pipeline: singleStagePipeline("connect"), full: true });
+    assert.equal(await readFile(full, "utf-8"), expected);
+  });
+});
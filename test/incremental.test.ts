@@ -0,0 +1,65 @@
+/**
+ * Incremental runs: downstream stages only revisit the notes a run changed and their nearest
+ * neighbours, unless a full run is asked for.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import { runLoop, enqueueSourceForProcessing } from "../src/agent/loop.js";
+import { clearQueue } from "../src/agent/queue.js";
+import { saveAgentConfig } from "../src/storage/agentConfig.js";
+import type { FakeRule } from "../src/llm/fake.js";
+import { saveSource } from "../src/storage/sources.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import { listFiles, setUpPipeline, withTempVault } from "./fixtures/pipeline/harness.js";
+
+test("an incremental run only revisits notes changed in that run", async () => {
+  await withTempVault(async (vaultPath) => {
+    await saveAgentConfig(vaultPath, { incrementalNeighbors: 0 });
+    const llm = await setUpPipeline(vaultPath, pipelineRules);
+    await runLoop();
+
+    // no new sources: only the MOCs that organize rewrites are dirty, and deduce skips MOCs
+    let before = llm.calls.length;
+    await runLoop();
+    const mocs = (await listFiles(vaultPath)).filter((f) => f.startsWith("MOCs/"));
+    const rerun = llm.calls.slice(before);
+    assert.equal(rerun.filter((c) => c.stage === "connect").length, mocs.length);
+    assert.equal(rerun.filter((c) => c.stage === "deduce").length, 0);
+
+    before = llm.calls.length;
+    await runLoop({ full: true });
+    assert.ok(llm.calls.slice(before).some((c) => c.stage === "deduce"));
+  });
+});
+
+test("an incremental run connects only the new source's notes and their nearest neighbours", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    await saveAgentConfig(vaultPath, {
+      pipelines: { extractAndLink: [{ stage: "extract" }, { stage: "connect" }] },
+      pipeline: "extractAndLink",
+      incrementalNeighbors: 1,
+    });
+    const herbal: FakeRule = {
+      stage: "extract",
+      match: /Source: herbal/,
+      respond: JSON.stringify({
+        insights: [{ title: "Herbal tea contains no caffeine", content: "Herbal tea contains no caffeine at all.", type: "Claim" }],
+      }),
+    };
+    const llm = await setUpPipeline(vaultPath, [herbal, ...pipelineRules]);
+    await runLoop();
+    assert.equal(llm.calls.filter((c) => c.stage === "connect").length, 4);
+
+    await saveSource(vaultPath, "herbal", { path: "herbal.md", name: "herbal", text: "Rooibos and chamomile." });
+    enqueueSourceForProcessing("herbal");
+    const before = llm.calls.length;
+    await runLoop();
+    const linked = llm.calls
+      .slice(before)
+      .filter((c) => c.stage === "connect")
+      .map((c) => path.basename(c.messages[1].content.match(/Note to update \(file: ([^)]+)\)/)![1]));
+    assert.deepEqual(linked.sort(), ["Herbal tea contains no caffeine.md", "Tea contains caffeine.md"]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * Change journal: every vault write of a run is journaled, so one task can be undone and the vault
+ * rolled back to before a run.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readdir, readFile } from "fs/promises";
+import path from "path";
+import { runLoop, undoTask, rollbackRun } from "../src/agent/loop.js";
+import { singleStagePipeline } from "../src/agent/pipeline.js";
+import { clearQueue, getQueueSnapshot } from "../src/agent/queue.js";
+import { loadProgress } from "../src/storage/progress.js";
+import { saveAgentConfig } from "../src/storage/agentConfig.js";
+import { listPendingChanges } from "../src/storage/pending.js";
+import { acceptPendingChange, acceptPendingChanges } from "../src/agent/pendingChanges.js";
+import { loadIndex } from "../src/retrieval/embeddingIndex.js";
+import { listJournalRuns, loadJournal } from "../src/storage/journal.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import { listFiles, setUpPipeline, withTempVault } from "./fixtures/pipeline/harness.js";
+
+test("the journal undoes one task, and rolls the vault back to before a run with its sources due again", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    await setUpPipeline(vaultPath, pipelineRules);
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+    const extracted = new Map<string, string>();
+    for (const rel of (await listFiles(vaultPath)).filter((f) => f.endsWith(".md"))) {
+      extracted.set(rel, await readFile(path.join(vaultPath, rel), "utf-8"));
+    }
+    await runLoop({ pipeline: singleStagePipeline("connect"), full: true });
+
+    const [extractRun, connectRun] = await listJournalRuns(vaultPath);
+    const linked = (await loadJournal(vaultPath, connectRun.runId)).find((e) => e.action === "write")!;
+    assert.notEqual(await readFile(path.join(vaultPath, linked.path!), "utf-8"), extracted.get(linked.path!));
+    const undone = await undoTask(connectRun.runId, linked.taskId!);
+    assert.deepEqual(undone?.reverted, [linked.path]);
+    assert.equal(await readFile(path.join(vaultPath, linked.path!), "utf-8"), extracted.get(linked.path!));
+
+    const rolledBack = await rollbackRun(extractRun.runId);
+    assert.deepEqual(rolledBack?.conflicts, []);
+    assert.deepEqual(rolledBack?.sourceIds.sort(), ["coffee", "tea"]);
+    assert.deepEqual((await listFiles(vaultPath)).filter((f) => f.endsWith(".md")), []);
+    assert.deepEqual((await loadIndex(vaultPath)).entries, []);
+    assert.deepEqual((await loadProgress(vaultPath))?.processedSourceIds, []);
+    assert.deepEqual(await listJournalRuns(vaultPath), []);
+
+    // the rolled-back sources are due again
+    const queued = (await loadProgress(vaultPath))?.queue.map((t) => t.payload?.sourceId).sort();
+    assert.deepEqual(queued, ["coffee", "tea"]);
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+    assert.equal(getQueueSnapshot().length, 0);
+    assert.deepEqual([...extracted.keys()], (await listFiles(vaultPath)).filter((f) => f.endsWith(".md")));
+  });
+});
+
+test("only the most recent journaled runs are kept, with the prior content they refer to", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    await setUpPipeline(vaultPath, pipelineRules);
+    await saveAgentConfig(vaultPath, { journalRetentionRuns: 1 });
+    const blobs = async () => (await readdir(path.join(vaultPath, ".vaultmaker/journal/blobs")).catch(() => [])).sort();
+    const referenced = async () => {
+      const hashes = new Set<string>();
+      for (const run of await listJournalRuns(vaultPath)) {
+        for (const entry of await loadJournal(vaultPath, run.runId)) if (entry.beforeHash) hashes.add(entry.beforeHash);
+      }
+      return [...hashes].sort();
+    };
+
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+    await runLoop({ pipeline: singleStagePipeline("connect"), full: true });
+    const [extractRun, connectRun] = await listJournalRuns(vaultPath);
+    assert.ok((await blobs()).length > 0);
+
+    await runLoop({ pipeline: singleStagePipeline("organize") });
+    const runs = (await listJournalRuns(vaultPath)).map((r) => r.runId);
+    assert.ok(!runs.includes(extractRun.runId));
+    assert.equal(runs[0], connectRun.runId);
+    await runLoop({ pipeline: singleStagePipeline("deduce"), full: true });
+    assert.ok(!(await listJournalRuns(vaultPath)).some((r) => r.runId === connectRun.runId));
+    assert.deepEqual(await blobs(), await referenced(), "blobs of dropped runs are deleted");
+  });
+});
+
+test("each change made outside a run is journaled as an action of its own", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    await setUpPipeline(vaultPath, pipelineRules);
+    await runLoop({ pipeline: singleStagePipeline("extract"), dryRun: true });
+    const [first, second, ...rest] = await listPendingChanges(vaultPath);
+    assert.ok(rest.length > 1);
+
+    await acceptPendingChange(vaultPath, first.id);
+    await acceptPendingChange(vaultPath, second.id);
+    await acceptPendingChanges(vaultPath, rest.map((c) => c.id));
+    // the dry run itself only journaled its sources as processed
+    const [dryRun, ...runs] = await listJournalRuns(vaultPath);
+    assert.equal(dryRun.changes, 0);
+    assert.ok(runs.every((r) => r.runId.startsWith("manual-")));
+    assert.deepEqual(runs.map((r) => r.changes), [1, 1, rest.length]);
+
+    const rolledBack = await rollbackRun(runs[1].runId);
+    assert.deepEqual(rolledBack?.conflicts, []);
+    assert.deepEqual((await listFiles(vaultPath)).filter((f) => f.endsWith(".md")), [first.path]);
+    assert.deepEqual((await listJournalRuns(vaultPath)).map((r) => r.runId), [dryRun.runId, runs[0].runId]);
+  });
+});
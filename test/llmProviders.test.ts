@@ -0,0 +1,80 @@
+/**
+ * LLM providers: the registry builds clients by provider name, a saved config swaps the agent's client
+ * without a restart, and API keys are kept out of the vault.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import { fileURLToPath } from "url";
+import { runLoop } from "../src/agent/loop.js";
+import { singleStagePipeline } from "../src/agent/pipeline.js";
+import { clearQueue } from "../src/agent/queue.js";
+import { setEmbeddingClient } from "../src/retrieval/retrieve.js";
+import { loadLLMConfig, saveLLMConfig } from "../src/storage/llmConfig.js";
+import { listProviders, registerLLMProvider, createLLMClient, type ProviderSettings } from "../src/llm/registry.js";
+import { applyLLMConfig } from "../src/llm/runtime.js";
+import { createFakeLLM, createFakeEmbeddingClient, type FakeLLMClient } from "../src/llm/fake.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import { setUpPipeline, withTempVault } from "./fixtures/pipeline/harness.js";
+
+const API_KEYS_FILE = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "data", "apiKeys.json");
+
+test("the registry builds clients by provider name and rejects unknown or incomplete settings", () => {
+  registerLLMProvider("registry-test", (settings) => createFakeLLM([], { model: settings.model }));
+  assert.deepEqual(
+    listProviders().llm.filter((p) => p !== "registry-test"),
+    ["openai", "openai-compatible", "ollama"]
+  );
+  assert.equal(createLLMClient({ provider: "registry-test", model: "m" }).model, "m");
+  assert.throws(() => createLLMClient({ provider: "missing" }), /Unknown LLM provider: missing/);
+  assert.throws(() => createLLMClient({ provider: "openai" }), /requires an API key/);
+  assert.throws(() => createLLMClient({ provider: "openai-compatible", model: "m" }), /requires a base URL/);
+  assert.throws(() => createLLMClient({ provider: "ollama" }), /requires a model name/);
+  assert.ok(createLLMClient({ provider: "ollama", model: "llama3" }));
+});
+
+test("a saved config swaps the agent's client at runtime, and its API key stays out of the vault", async () => {
+  const keysBefore = await readFile(API_KEYS_FILE, "utf-8").catch(() => null);
+  try {
+    await withTempVault(async (vaultPath) => {
+      clearQueue();
+      const built: ProviderSettings[] = [];
+      const clients = new Map<string, FakeLLMClient>();
+      for (const provider of ["swap-a", "swap-b"]) {
+        registerLLMProvider(provider, (settings) => {
+          built.push(settings);
+          const client = createFakeLLM(pipelineRules);
+          clients.set(provider, client);
+          return client;
+        });
+      }
+      await setUpPipeline(vaultPath, pipelineRules);
+
+      await saveLLMConfig(vaultPath, { completion: { provider: "swap-a", apiKey: "secret-a" }, embedding: null });
+      const inVault = await readFile(path.join(vaultPath, ".vaultmaker", "llmConfig.json"), "utf-8");
+      assert.ok(!inVault.includes("secret-a"), "the key is not written into the vault");
+      assert.equal((await loadLLMConfig(vaultPath)).completion.apiKey, "secret-a");
+      const active = await applyLLMConfig(vaultPath);
+      setEmbeddingClient(createFakeEmbeddingClient());
+      assert.equal(active.completion?.provider, "swap-a");
+      assert.equal(active.completion?.apiKeySet, true);
+      assert.equal(built.at(-1)?.apiKey, "secret-a");
+      await runLoop({ pipeline: singleStagePipeline("extract") });
+      const callsOfA = clients.get("swap-a")!.calls.length;
+      assert.ok(callsOfA > 0);
+
+      await saveLLMConfig(vaultPath, { completion: { provider: "swap-b" } });
+      const swapped = await applyLLMConfig(vaultPath);
+      setEmbeddingClient(createFakeEmbeddingClient());
+      assert.equal(swapped.completion?.provider, "swap-b");
+      assert.equal(swapped.completion?.apiKeySet, false, "a key is never handed to another provider");
+      await runLoop({ pipeline: singleStagePipeline("organize") });
+      assert.ok(clients.get("swap-b")!.calls.length > 0);
+      assert.equal(clients.get("swap-a")!.calls.length, callsOfA);
+    });
+  } finally {
+    if (keysBefore == null) await rm(API_KEYS_FILE, { force: true });
+    else await writeFile(API_KEYS_FILE, keysBefore, "utf-8");
+  }
+});
@@ -0,0 +1,45 @@
+/**
+ * Per-stage model routing: routed stages call their own model, and a route that cannot be built is
+ * reported while its stage falls back to the vault's default model.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { runLoop } from "../src/agent/loop.js";
+import { singleStagePipeline } from "../src/agent/pipeline.js";
+import { clearQueue } from "../src/agent/queue.js";
+import { setEmbeddingClient } from "../src/retrieval/retrieve.js";
+import { saveAgentConfig } from "../src/storage/agentConfig.js";
+import { saveLLMConfig } from "../src/storage/llmConfig.js";
+import { registerLLMProvider } from "../src/llm/registry.js";
+import { applyLLMConfig } from "../src/llm/runtime.js";
+import { createFakeLLM, createFakeEmbeddingClient, type FakeLLMClient } from "../src/llm/fake.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import { setUpPipeline, withTempVault } from "./fixtures/pipeline/harness.js";
+
+test("routed stages call their own model, and a broken route is reported and falls back to the default", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    const clients = new Map<string, FakeLLMClient>();
+    registerLLMProvider("scripted", (settings) => {
+      const client = createFakeLLM(pipelineRules, { model: settings.model });
+      clients.set(settings.model!, client);
+      return client;
+    });
+    await setUpPipeline(vaultPath, pipelineRules);
+    await saveLLMConfig(vaultPath, { completion: { provider: "scripted", model: "default" }, embedding: null });
+    await saveAgentConfig(vaultPath, {
+      modelRouting: { extract: { model: "extractor" }, connect: { provider: "missing", model: "linker" } },
+    });
+    const active = await applyLLMConfig(vaultPath);
+    setEmbeddingClient(createFakeEmbeddingClient());
+    assert.equal(active.routes.extract?.model, "extractor");
+    assert.equal(active.routes.connect, undefined);
+    assert.equal(active.error, "Route connect: Unknown LLM provider: missing");
+
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+    await runLoop({ pipeline: singleStagePipeline("connect"), full: true });
+    assert.deepEqual([...new Set(clients.get("extractor")!.calls.map((c) => c.stage))], ["extract"]);
+    assert.deepEqual([...new Set(clients.get("default")!.calls.map((c) => c.stage))], ["connect"]);
+    assert.equal(clients.has("linker"), false);
+  });
+});
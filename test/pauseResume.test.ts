@@ -0,0 +1,82 @@
+/**
+ * Pause and resume: a paused run keeps its stage and queue position, with one worker or several, and
+ * resuming finishes the same vault as an uninterrupted run.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { setLLM, runLoop, getAgentState, requestPause, resumeLoop } from "../src/agent/loop.js";
+import { getTaskContext } from "../src/agent/taskContext.js";
+import { LLMAbortedError } from "../src/llm/errors.js";
+import { singleStagePipeline } from "../src/agent/pipeline.js";
+import { getQueueSnapshot, clearQueue } from "../src/agent/queue.js";
+import { saveAgentConfig } from "../src/storage/agentConfig.js";
+import { loadProgress } from "../src/storage/progress.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import {
+  listFiles,
+  snapshotVault,
+  setUpPipeline,
+  assertMatchesGolden,
+  withTempVault,
+} from "./fixtures/pipeline/harness.js";
+
+test("a paused run resumes at its stage and produces the same vault", async () => {
+  await withTempVault(async (vaultPath) => {
+    const llm = await setUpPipeline(vaultPath, pipelineRules);
+    let paused = false;
+    setLLM({
+      model: llm.model,
+      complete: async (messages, options) => {
+        if (!paused && getTaskContext()?.stage === "connect") {
+          paused = true;
+          requestPause();
+        }
+        return llm.complete(messages, options);
+      },
+    });
+    await runLoop();
+    assert.equal(getAgentState().status, "paused");
+    assert.equal(getAgentState().currentStage, "connect");
+
+    await resumeLoop();
+    assert.equal(getAgentState().status, "idle");
+    assert.deepEqual(getAgentState().log.filter((line) => /Error/.test(line)), []);
+    await assertMatchesGolden(await snapshotVault(vaultPath));
+  });
+});
+
+test("pausing parallel workers puts their tasks back in queue order, and resuming finishes each task once", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    const llm = await setUpPipeline(vaultPath, pipelineRules);
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+    const notes = (await listFiles(vaultPath)).filter((f) => f.endsWith(".md"));
+    await saveAgentConfig(vaultPath, { concurrency: 3 });
+
+    // every connect call hangs until the pause cancels it; the third one to start requests the pause
+    let started = 0;
+    setLLM({
+      model: llm.model,
+      complete: async (messages, options) => {
+        if (getTaskContext()?.stage !== "connect" || started >= 3) return llm.complete(messages, options);
+        if (++started === 3) requestPause();
+        const signal = getTaskContext()!.signal!;
+        await new Promise<void>((resolve) => {
+          if (signal.aborted) resolve();
+          signal.addEventListener("abort", () => resolve(), { once: true });
+        });
+        throw new LLMAbortedError();
+      },
+    });
+    await runLoop({ pipeline: singleStagePipeline("connect"), full: true });
+    assert.equal(getAgentState().status, "paused");
+    assert.deepEqual(getQueueSnapshot().map((t) => t.path), notes);
+    assert.deepEqual((await loadProgress(vaultPath))?.queue.map((t) => t.path), notes);
+
+    const before = llm.calls.length;
+    await resumeLoop();
+    assert.equal(getAgentState().status, "idle");
+    const linked = llm.calls.slice(before).map((c) => c.messages[1].content.match(/Note to update \(file: ([^)]+)\)/)![1]);
+    assert.deepEqual(linked.sort(), notes);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * End-to-end pipeline test: runs every stage against a temporary vault with the scripted fake LLM and
+ * compares the resulting vault with the snapshots in test/golden/pipeline.
+ *
+ * After an intended change to pipeline output, regenerate the snapshots with
+ *   UPDATE_GOLDEN=1 npm test
+ * and review the diff like any other change.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, rm, writeFile } from "fs/promises";
+import path from "path";
+import { runLoop, getAgentState } from "../src/agent/loop.js";
+import { singleStagePipeline } from "../src/agent/pipeline.js";
+import { clearLog } from "../src/agent/queue.js";
+import { saveAgentConfig } from "../src/storage/agentConfig.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import {
+  GOLDEN_DIR,
+  snapshotVault,
+  setUpPipeline,
+  assertMatchesGolden,
+  withTempVault,
+} from "./fixtures/pipeline/harness.js";
+
+/** Run the whole pipeline over the fixture sources and return the resulting vault snapshot. */
+async function runPipeline(vaultPath: string, concurrency: number): Promise<Map<string, string>> {
+  await saveAgentConfig(vaultPath, { concurrency });
+  const llm = await setUpPipeline(vaultPath, pipelineRules);
+  await runLoop();
+
+  const log = getAgentState().log;
+  assert.deepEqual(log.filter((line) => /Error|Cannot start/.test(line)), []);
+  assert.deepEqual(
+    [...new Set(llm.calls.map((c) => c.stage))],
+    ["extract", "organize", "connect", "deduce", "induce", "organize-again", "validate"]
+  );
+  return snapshotVault(vaultPath);
+}
+
+test("pipeline runs all stages and matches golden vault", async () => {
+  await withTempVault(async (vaultPath) => {
+    const actual = await runPipeline(vaultPath, 1);
+    if (process.env.UPDATE_GOLDEN) {
+      await rm(GOLDEN_DIR, { recursive: true, force: true });
+      for (const [rel, content] of actual) {
+        await mkdir(path.dirname(path.join(GOLDEN_DIR, rel)), { recursive: true });
+        await writeFile(path.join(GOLDEN_DIR, rel), content, "utf-8");
+      }
+      return;
+    }
+    await assertMatchesGolden(actual);
+  });
+});
+
+test("pipeline with parallel workers produces the same vault", async () => {
+  await withTempVault(async (vaultPath) => {
+    await assertMatchesGolden(await runPipeline(vaultPath, 4));
+  });
+});
+
+test("a configured pipeline can repeat stages, and a single stage can run on its own", async () => {
+  await withTempVault(async (vaultPath) => {
+    await saveAgentConfig(vaultPath, {
+      pipelines: { quick: [{ stage: "extract" }, { stage: "connect", options: { concurrency: 2 } }, { stage: "connect" }] },
+      pipeline: "quick",
+    });
+    const llm = await setUpPipeline(vaultPath, pipelineRules);
+    clearLog();
+    await runLoop();
+
+    const log = getAgentState().log;
+    assert.deepEqual(log.filter((line) => /Error/.test(line)), []);
+    assert.deepEqual(
+      log.filter((line) => line.startsWith("Stage complete")),
+      ["Stage complete: extract → connect", "Stage complete: connect → connect"]
+    );
+    assert.deepEqual([...new Set(llm.calls.map((c) => c.stage))], ["extract", "connect"]);
+
+    const before = llm.calls.length;
+    await runLoop({ pipeline: singleStagePipeline("validate") });
+    assert.deepEqual([...new Set(llm.calls.slice(before).map((c) => c.stage))], ["validate"]);
+    assert.equal(getAgentState().status, "idle");
+  });
+});
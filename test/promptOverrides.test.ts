@@ -0,0 +1,37 @@
+/**
+ * Per-vault prompt overrides: a valid override file replaces the built-in prompt, and one with an
+ * unknown placeholder is ignored with a note in the activity log.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { runLoop, getAgentState } from "../src/agent/loop.js";
+import { singleStagePipeline } from "../src/agent/pipeline.js";
+import { clearLog, clearQueue } from "../src/agent/queue.js";
+import { savePromptFile } from "../src/storage/prompts.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import { setUpPipeline, withTempVault } from "./fixtures/pipeline/harness.js";
+
+test("a vault's prompt override is used, and an override with an unknown placeholder is ignored", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    clearLog();
+    await savePromptFile(vaultPath, "insights.user", "Case file review.\nSource: {{sourceName}}\n\n{{chunk}}");
+    await savePromptFile(vaultPath, "link.user", "Link this note: {{content}}\nCandidates: {{noteTitles}}");
+    const llm = await setUpPipeline(vaultPath, pipelineRules);
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+    await runLoop({ pipeline: singleStagePipeline("connect"), full: true });
+
+    const extract = llm.calls.filter((c) => c.stage === "extract");
+    assert.equal(extract.length, 2);
+    for (const call of extract) assert.match(call.messages[1].content, /^Case file review\.\nSource: (coffee|tea)\n\n/);
+    const connect = llm.calls.filter((c) => c.stage === "connect");
+    assert.ok(connect.length > 0);
+    for (const call of connect) assert.match(call.messages[1].content, /^Note to update \(file: /);
+    assert.ok(
+      getAgentState().log.includes(
+        "Prompt override link.user ignored, using built-in: unknown variable {{noteTitles}} " +
+          "(allowed: notePath, content, otherTitles, principles, relationshipTypes)"
+      )
+    );
+  });
+});
@@ -0,0 +1,51 @@
+/**
+ * Review of inferred notes: notes of the configured types are held as proposals, written on approval,
+ * and not proposed again once rejected.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { readFile } from "fs/promises";
+import path from "path";
+import { runLoop } from "../src/agent/loop.js";
+import { singleStagePipeline } from "../src/agent/pipeline.js";
+import { clearQueue } from "../src/agent/queue.js";
+import { saveAgentConfig } from "../src/storage/agentConfig.js";
+import { loadIndex } from "../src/retrieval/embeddingIndex.js";
+import { listProposals, loadRejectedProposals } from "../src/storage/proposals.js";
+import { approveProposal, rejectProposal } from "../src/agent/proposals.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import { listFiles, setUpPipeline, withTempVault } from "./fixtures/pipeline/harness.js";
+
+test("inferred notes held for review are written on approval, and rejected ones are not proposed again", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    await saveAgentConfig(vaultPath, { reviewNoteTypes: ["Conclusion", "Theme"] });
+    await setUpPipeline(vaultPath, pipelineRules);
+    await runLoop();
+
+    const proposals = await listProposals(vaultPath);
+    assert.deepEqual(proposals.map((p) => [p.noteType, p.title]).sort(), [
+      ["Conclusion", "Tea improves alertness"],
+      ["Theme", "Caffeine trades sleep for alertness"],
+    ]);
+    const notes = (await listFiles(vaultPath)).filter((f) => f.endsWith(".md"));
+    for (const p of proposals) assert.ok(!notes.includes(p.path), `${p.path} written before review`);
+    const conclusion = proposals.find((p) => p.noteType === "Conclusion")!;
+    const theme = proposals.find((p) => p.noteType === "Theme")!;
+    assert.ok(conclusion.premises.length > 0);
+    assert.equal(conclusion.stage, "deduce");
+
+    const approved = await approveProposal(vaultPath, conclusion.id, { content: "Edited by hand." });
+    assert.deepEqual(approved, { id: conclusion.id, ok: true, path: conclusion.path });
+    const written = await readFile(path.join(vaultPath, conclusion.path), "utf-8");
+    assert.match(written, /^---\n[\s\S]*type: Conclusion[\s\S]*---\nEdited by hand.\n$/);
+    assert.ok((await loadIndex(vaultPath)).entries.some((e) => e.path === conclusion.path));
+    assert.equal((await rejectProposal(vaultPath, theme.id)).ok, true);
+    assert.deepEqual((await loadRejectedProposals(vaultPath)).map((r) => r.title), [theme.title]);
+
+    await runLoop({ pipeline: singleStagePipeline("deduce"), full: true });
+    await runLoop({ pipeline: singleStagePipeline("induce"), full: true });
+    assert.deepEqual(await listProposals(vaultPath), []);
+    assert.ok(!(await listFiles(vaultPath)).includes(theme.path));
+  });
+});
@@ -0,0 +1,35 @@
+/**
+ * Queue management: queued tasks can be prioritized, removed and added by hand, and the run follows
+ * the resulting order.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { runLoop, enqueueAdHocTask, removeQueuedTask, setQueuedTaskPriority } from "../src/agent/loop.js";
+import { singleStagePipeline } from "../src/agent/pipeline.js";
+import { getQueueSnapshot, clearQueue } from "../src/agent/queue.js";
+import { loadProgress } from "../src/storage/progress.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import { setUpPipeline, withTempVault } from "./fixtures/pipeline/harness.js";
+
+test("queued tasks can be prioritized, removed and added by hand", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    const llm = await setUpPipeline(vaultPath, pipelineRules);
+    const [coffee, tea] = getQueueSnapshot();
+    assert.equal(tea.payload?.sourceId, "tea");
+
+    assert.equal(await setQueuedTaskPriority(tea.id!, 5), true);
+    assert.equal(await removeQueuedTask(coffee.id!), true);
+    assert.equal(await removeQueuedTask(coffee.id!), false);
+    const again = await enqueueAdHocTask({ kind: "extract-insights", sourceId: "coffee" }, { front: true });
+    const progress = await loadProgress(vaultPath);
+    assert.deepEqual(progress?.queue.map((t) => t.id), [again.id, tea.id]);
+
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+    const sources = llm.calls
+      .filter((c) => c.stage === "extract")
+      .map((c) => (/Tea drinkers report/.test(c.messages[1].content) ? "tea" : "coffee"));
+    assert.equal(sources[0], "tea");
+    assert.equal(sources[sources.length - 1], "coffee");
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Re-extraction of changed sources: a changed source keeps its id and is re-extracted against the
+ * insights taken from its previous version, paired with the chunk that now covers them.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { access, readFile } from "fs/promises";
+import path from "path";
+import matter from "gray-matter";
+import { setAgentVault, setLLM, runLoop, enqueueSourceForProcessing } from "../src/agent/loop.js";
+import { singleStagePipeline } from "../src/agent/pipeline.js";
+import { getQueueSnapshot, clearQueue } from "../src/agent/queue.js";
+import { setEmbeddingClient } from "../src/retrieval/retrieve.js";
+import { createFakeLLM, createFakeEmbeddingClient, type FakeRule } from "../src/llm/fake.js";
+import { readEvents } from "../src/storage/eventLog.js";
+import { loadProgress } from "../src/storage/progress.js";
+import { loadSource, saveSource } from "../src/storage/sources.js";
+import { computeContentHash, type SourceIndexData } from "../src/storage/sourceIndex.js";
+import { stageSource } from "../src/agent/sourceChanges.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import { FIXTURE_SOURCES, setUpPipeline, withTempVault } from "./fixtures/pipeline/harness.js";
+
+test("a changed source keeps its id and is re-extracted against its previous insights", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    const reextract: FakeRule = {
+      stage: "extract",
+      match: /Source: coffee has changed/,
+      respond: JSON.stringify({
+        unchanged: [],
+        updated: [
+          {
+            title: "Caffeine improves alertness",
+            content: "Caffeine improves alertness for a few hours, less so in habitual drinkers.",
+            type: "Claim",
+            confidence: 0.7,
+          },
+        ],
+        obsolete: [{ title: "Sleep debt reduces focus", replacedBy: "Naps restore focus" }],
+        insights: [{ title: "Naps restore focus", content: "A short nap restores focus after poor sleep.", type: "Observation" }],
+      }),
+    };
+    const llm = await setUpPipeline(vaultPath, [reextract, ...pipelineRules]);
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+    const readData = async (rel: string) => matter(await readFile(path.join(vaultPath, rel), "utf-8"));
+    const createdBefore = (await readData("Insights/Caffeine improves alertness.md")).data.created;
+
+    const coffeeText = (await readFile(path.join(FIXTURE_SOURCES, "coffee.md"), "utf-8")) + "\nHabitual drinkers adapt.\n";
+    const index: SourceIndexData = {
+      sourceDir: path.join(vaultPath, "sources"),
+      entries: { "coffee.md": { sourceId: "coffee", contentHash: "old" } },
+      lastUpdated: new Date().toISOString(),
+    };
+    await stageSource(vaultPath, index, "coffee.md", coffeeText, computeContentHash(coffeeText));
+    await stageSource(vaultPath, index, "coffee.md", coffeeText, computeContentHash(coffeeText));
+    assert.equal(index.entries["coffee.md"].sourceId, "coffee");
+    assert.equal((await loadSource(vaultPath, "coffee"))?.version, 3);
+    assert.equal(getQueueSnapshot().filter((t) => t.payload?.sourceId === "coffee").length, 1);
+
+    llm.calls.length = 0;
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+    assert.equal(llm.calls.length, 1);
+    assert.match(llm.calls[0].messages[1].content, /### Caffeine improves alertness\n/);
+
+    const progress = await loadProgress(vaultPath);
+    assert.deepEqual(progress?.processedSourceIds.filter((id) => id === "coffee"), ["coffee"]);
+    assert.equal(progress?.sourceVersions.coffee, 3);
+    const updated = await readData("Insights/Caffeine improves alertness.md");
+    assert.match(updated.content, /less so in habitual drinkers/);
+    assert.equal(updated.data.confidence, 0.7);
+    assert.deepEqual(updated.data.created, createdBefore);
+    const superseded = await readData("Insights/Sleep debt reduces focus.md");
+    assert.equal(superseded.data.source_status, "superseded");
+    assert.equal(superseded.data.superseded_by, "[[Naps restore focus]]");
+    assert.equal((await readData("Insights/Naps restore focus.md")).data.source_id, "coffee");
+  });
+});
+
+test("re-extraction pairs previous insights with the chunk that covers them after an edit shifts chunk boundaries", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    const birds = ["kestrel", "falcon", "osprey", "heron", "wren", "robin"];
+    // about 5000 characters each, so three chunks hold two birds apiece
+    const paragraph = (word: string) => `About the ${word}: ` + `${word} `.repeat(Math.ceil(5000 / (word.length + 1)));
+    const original = birds.map(paragraph).join("\n\n");
+    const chunkOf = (prompt: string) => prompt.match(/```\n([\s\S]*?)\n```/)![1];
+    const title = (bird: string) => `The ${bird} insight`;
+    const rules: FakeRule[] = [
+      {
+        stage: "extract",
+        match: /Source: birds has changed/,
+        // previous insights whose bird is missing from the chunk they were paired with count as obsolete
+        respond: (messages) => {
+          const prompt = messages[1].content;
+          const listed = [...prompt.matchAll(/^### (.+)$/gm)].map((m) => m[1]);
+          const chunk = chunkOf(prompt);
+          return JSON.stringify({
+            unchanged: listed.filter((t) => chunk.includes(t.split(" ")[1])),
+            obsolete: listed.filter((t) => !chunk.includes(t.split(" ")[1])).map((t) => ({ title: t, replacedBy: null })),
+            insights: [],
+          });
+        },
+      },
+      {
+        stage: "extract",
+        match: /Source: birds/,
+        respond: (messages) => {
+          const chunk = chunkOf(messages[1].content);
+          const found = birds.filter((b) => chunk.includes(`About the ${b}`));
+          return JSON.stringify({
+            insights: found.map((b) => ({ title: title(b), content: `The ${b}: ${`${b} `.repeat(5).trim()}.`, type: "Observation" })),
+          });
+        },
+      },
+    ];
+    await setAgentVault(vaultPath, "pipeline-test");
+    const llm = createFakeLLM(rules);
+    setLLM(llm);
+    setEmbeddingClient(createFakeEmbeddingClient());
+    await saveSource(vaultPath, "birds", { path: "birds.md", name: "birds", text: original });
+    enqueueSourceForProcessing("birds");
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+    const chunks = async () =>
+      Object.fromEntries(
+        await Promise.all(
+          birds.map(async (b) => {
+            const data = matter(await readFile(path.join(vaultPath, "Insights", `${title(b)}.md`), "utf-8")).data;
+            return [b, data.source_status ?? data.chunk] as const;
+          })
+        )
+      );
+    assert.deepEqual(await chunks(), { kestrel: 0, falcon: 0, osprey: 1, heron: 1, wren: 2, robin: 2 });
+
+    // a new first paragraph moves every later chunk boundary by one bird
+    const edited = paragraph("preface") + "\n\n" + original;
+    await saveSource(vaultPath, "birds", { path: "birds.md", name: "birds", text: edited, version: 2 });
+    enqueueSourceForProcessing("birds");
+    llm.calls.length = 0;
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+    assert.deepEqual(
+      llm.calls.map((c) => [...c.messages[1].content.matchAll(/^### The (\w+) insight$/gm)].map((m) => m[1])),
+      [["kestrel"], ["falcon", "osprey"], ["heron", "wren"], ["robin"]]
+    );
+    assert.deepEqual(await chunks(), { kestrel: 0, falcon: 0, osprey: 1, heron: 1, wren: 2, robin: 2 }, "none superseded");
+  });
+});
+
+test("re-extraction keeps unchanged insights, rewrites updated ones, supersedes obsolete ones and ignores unknown titles", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    const insight = (title: string, content: string) => ({ title, content, type: "Observation" });
+    const rules: FakeRule[] = [
+      {
+        stage: "extract",
+        match: /Source: garden has changed/,
+        respond: JSON.stringify({
+          unchanged: ["Mulch keeps soil moist"],
+          updated: [
+            insight("Compost feeds the soil", "Compost feeds the soil slowly over a whole season."),
+            // renamed instead of updated: no previous insight has this title
+            insight("Basil deters pests", "Basil deters aphids."),
+          ],
+          obsolete: [
+            { title: "Tomatoes need full sun", replacedBy: "Tomatoes need six hours of sun" },
+            { title: "Weeds are harmless", replacedBy: null },
+          ],
+          insights: [insight("Tomatoes need six hours of sun", "Six hours of direct sun are enough for tomatoes.")],
+        }),
+      },
+      {
+        stage: "extract",
+        match: /Source: garden/,
+        respond: JSON.stringify({
+          insights: [
+            insight("Mulch keeps soil moist", "A layer of mulch keeps the soil moist."),
+            insight("Compost feeds the soil", "Compost feeds the soil."),
+            insight("Tomatoes need full sun", "Tomatoes need full sun all day."),
+            insight("Basil repels pests", "Basil repels aphids."),
+          ],
+        }),
+      },
+    ];
+    await setAgentVault(vaultPath, "pipeline-test");
+    setLLM(createFakeLLM(rules));
+    setEmbeddingClient(createFakeEmbeddingClient());
+    const text = "Mulch, compost, tomatoes in full sun and basil against aphids.";
+    await saveSource(vaultPath, "garden", { path: "garden.md", name: "garden", text });
+    enqueueSourceForProcessing("garden");
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+    const note = (title: string) => path.join(vaultPath, "Insights", `${title}.md`);
+    const read = (title: string) => readFile(note(title), "utf-8");
+    const mulchBefore = await read("Mulch keeps soil moist");
+    const basilBefore = await read("Basil repels pests");
+    const createdBefore = matter(await read("Compost feeds the soil")).data.created;
+
+    const edited = text + " Tomatoes cope with six hours.";
+    await saveSource(vaultPath, "garden", { path: "garden.md", name: "garden", text: edited, version: 2 });
+    enqueueSourceForProcessing("garden");
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+
+    assert.equal(await read("Mulch keeps soil moist"), mulchBefore, "unchanged");
+    const compost = matter(await read("Compost feeds the soil"));
+    assert.match(compost.content, /over a whole season/);
+    assert.deepEqual(compost.data.created, createdBefore);
+    const tomatoes = matter(await read("Tomatoes need full sun")).data;
+    assert.equal(tomatoes.source_status, "superseded");
+    assert.equal(tomatoes.superseded_by, "[[Tomatoes need six hours of sun]]");
+    assert.equal(matter(await read("Tomatoes need six hours of sun")).data.source_id, "garden");
+
+    assert.equal(await read("Basil repels pests"), basilBefore, "a renamed title does not touch the previous insight");
+    await assert.rejects(access(note("Basil deters pests")), "nor is it written as a new insight");
+    const warnings = await readEvents(vaultPath, { level: "warn", target: "garden" });
+    assert.deepEqual(
+      warnings.entries.map((e) => e.message).sort(),
+      [
+        'Insights: garden re-extraction marked unknown insight "Weeds are harmless" obsolete; ignored',
+        'Insights: garden re-extraction updated unknown insight "Basil deters pests"; ignored',
+      ]
+    );
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Resilient provider calls against a fake client that injects failures: backoff and Retry-After, per-call
+ * timeouts, cancellation, and the circuit breaker opening, half-opening and closing again. Sleep, clock and
+ * randomness are injected, so nothing here waits for real backoff.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
+import { createFakeLLM, FakeProviderError, type FakeRule } from "../src/llm/fake.js";
+import {
+  withResilience,
+  createCircuitBreaker,
+  DEFAULT_RESILIENCE,
+  type ResilienceOptions,
+} from "../src/llm/resilient.js";
+import { LLMTimeoutError, LLMAbortedError, CircuitOpenError } from "../src/llm/errors.js";
+import { registerLLMProvider } from "../src/llm/registry.js";
+import { applyLLMConfig, getProviderHealth } from "../src/llm/runtime.js";
+import { setAgentVault, runLoop, enqueueSourceForProcessing } from "../src/agent/loop.js";
+import { singleStagePipeline } from "../src/agent/pipeline.js";
+import { getFailedTasks } from "../src/agent/queue.js";
+import { saveAgentConfig } from "../src/storage/agentConfig.js";
+import { saveLLMConfig } from "../src/storage/llmConfig.js";
+import { saveSource } from "../src/storage/sources.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+
+const PROMPT = [{ role: "user" as const, content: "Say ok" }];
+const OK: FakeRule = { respond: "ok" };
+
+/** Options whose sleeps are recorded instead of waited for. */
+function recording(overrides: Partial<ResilienceOptions> = {}): { options: ResilienceOptions; sleeps: number[] } {
+  const sleeps: number[] = [];
+  const options: ResilienceOptions = {
+    ...DEFAULT_RESILIENCE,
+    baseDelayMs: 100,
+    sleep: async (ms) => {
+      sleeps.push(ms);
+    },
+    random: () => 0.5,
+    now: () => Date.UTC(2026, 0, 1),
+    ...overrides,
+  };
+  return { options, sleeps };
+}
+
+const closedBreaker = () => createCircuitBreaker({ threshold: 100, cooldownMs: 1000 });
+
+test("rate limits are retried after the server's Retry-After, other failures with jittered backoff", async () => {
+  const limited = createFakeLLM([
+    { fail: { status: 429, headers: { "retry-after": "2" } }, times: 1 },
+    { fail: { status: 429, headers: { "retry-after": "Thu, 01 Jan 2026 00:00:05 GMT" } }, times: 1 },
+    OK,
+  ]);
+  const a = recording();
+  assert.equal(await withResilience(limited, a.options, closedBreaker()).complete(PROMPT), "ok");
+  assert.deepEqual(a.sleeps, [2000, 5000]);
+  assert.equal(limited.calls.length, 3);
+
+  const down = createFakeLLM([{ fail: { status: 503 } }]);
+  const b = recording({ maxRetries: 3 });
+  await assert.rejects(withResilience(down, b.options, closedBreaker()).complete(PROMPT), FakeProviderError);
+  // full jitter at random() = 0.5 over 100, 200, 400 ms
+  assert.deepEqual(b.sleeps, [50, 100, 200]);
+  assert.equal(down.calls.length, 4);
+
+  const reset = createFakeLLM([{ fail: { code: "ECONNRESET" }, times: 2 }, OK]);
+  assert.equal(await withResilience(reset, recording().options, closedBreaker()).complete(PROMPT), "ok");
+
+  const invalid = createFakeLLM([{ fail: { status: 400 } }]);
+  const c = recording();
+  await assert.rejects(withResilience(invalid, c.options, closedBreaker()).complete(PROMPT), FakeProviderError);
+  assert.deepEqual(c.sleeps, [], "a 400 is not retried");
+  assert.equal(invalid.calls.length, 1);
+});
+
+test("a hanging call times out per attempt, and stopping aborts it without retrying", async () => {
+  const hanging = createFakeLLM([{ delayMs: "hang", respond: "never" }]);
+  const a = recording({ timeoutMs: 20, maxRetries: 1 });
+  await assert.rejects(withResilience(hanging, a.options, closedBreaker()).complete(PROMPT), LLMTimeoutError);
+  assert.equal(a.sleeps.length, 1, "the timeout was retried once");
+
+  const slowThenFast = createFakeLLM([{ delayMs: "hang", respond: "never", times: 1 }, OK]);
+  const b = recording({ timeoutMs: 20 });
+  assert.equal(await withResilience(slowThenFast, b.options, closedBreaker()).complete(PROMPT), "ok");
+
+  const stop = new AbortController();
+  const c = recording({ timeoutMs: 60_000 });
+  const call = withResilience(hanging, c.options, closedBreaker()).complete(PROMPT, { signal: stop.signal });
+  setTimeout(() => stop.abort(), 10);
+  await assert.rejects(call, LLMAbortedError);
+  assert.deepEqual(c.sleeps, []);
+  await assert.rejects(
+    withResilience(hanging, c.options, closedBreaker()).complete(PROMPT, { signal: stop.signal }),
+    LLMAbortedError,
+    "an already stopped agent makes no call"
+  );
+});
+
+test("the circuit opens after repeated failures, lets one trial through after the cooldown, and closes on success", async () => {
+  let now = 0;
+  const breaker = createCircuitBreaker({ threshold: 2, cooldownMs: 1000, now: () => now });
+  const llm = createFakeLLM([{ fail: { status: 503 }, times: 3 }, OK]);
+  const client = withResilience(llm, recording({ maxRetries: 1 }).options, breaker);
+
+  await assert.rejects(client.complete(PROMPT), FakeProviderError);
+  assert.equal(breaker.snapshot().state, "open");
+  assert.equal(llm.calls.length, 2);
+
+  await assert.rejects(client.complete(PROMPT), (err: unknown) => err instanceof CircuitOpenError && err.retryAt === 1000);
+  assert.equal(llm.calls.length, 2, "no call while open");
+
+  now = 1000;
+  // the half-open trial fails, which reopens the circuit at once
+  await assert.rejects(client.complete(PROMPT), CircuitOpenError);
+  assert.equal(llm.calls.length, 3);
+  assert.deepEqual(breaker.snapshot(), { state: "open", consecutiveFailures: 3, retryAt: 2000 });
+
+  now = 2000;
+  assert.equal(await client.complete(PROMPT), "ok");
+  assert.deepEqual(breaker.snapshot(), { state: "closed", consecutiveFailures: 0, retryAt: null });
+});
+
+test("a half-open circuit lets only one of several concurrent calls through as its trial", async () => {
+  let now = 0;
+  const breaker = createCircuitBreaker({ threshold: 1, cooldownMs: 1000, now: () => now });
+  const llm = createFakeLLM([{ respond: "ok", delayMs: 20 }]);
+  const client = withResilience(llm, recording({ maxRetries: 0 }).options, breaker);
+  breaker.recordFailure();
+
+  now = 1000;
+  const results = await Promise.allSettled([client.complete(PROMPT), client.complete(PROMPT), client.complete(PROMPT)]);
+  assert.deepEqual(
+    results.map((r) => (r.status === "fulfilled" ? r.value : r.reason instanceof CircuitOpenError)),
+    ["ok", true, true]
+  );
+  assert.equal(llm.calls.length, 1);
+  assert.equal(breaker.snapshot().state, "closed");
+
+  // a trial that ends without an outcome frees the way for the next one
+  breaker.recordFailure();
+  now = 2000;
+  breaker.check();
+  assert.throws(() => breaker.check(), CircuitOpenError);
+  breaker.releaseTrial();
+  breaker.check();
+  assert.equal(breaker.snapshot().state, "half-open");
+});
+
+test("each provider and model has its own breaker, so a routed outage leaves the default provider closed", async () => {
+  const vaultPath = await mkdtemp(path.join(os.tmpdir(), "vaultmaker-breakers-"));
+  try {
+    registerLLMProvider("fake", (settings) =>
+      createFakeLLM(settings.model === "down" ? [{ fail: { status: 503 } }] : pipelineRules, { model: settings.model })
+    );
+    await setAgentVault(vaultPath, "breaker-test");
+    await saveLLMConfig(vaultPath, { completion: { provider: "fake", model: "up" }, embedding: null });
+    await saveAgentConfig(vaultPath, {
+      llmMaxRetries: 0,
+      circuitBreakerThreshold: 1,
+      maxTaskAttempts: 1,
+      modelRouting: { extract: { model: "down" } },
+    });
+    await applyLLMConfig(vaultPath);
+    const fixture = path.join(path.dirname(fileURLToPath(import.meta.url)), "fixtures/pipeline/sources/coffee.md");
+    await saveSource(vaultPath, "coffee", { path: "coffee.md", name: "coffee", text: await readFile(fixture, "utf-8") });
+    enqueueSourceForProcessing("coffee");
+
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+    assert.equal(getFailedTasks().length, 1);
+    const health = getProviderHealth();
+    assert.equal(health.routes.extract?.state, "open");
+    assert.equal(health.completion?.state, "closed");
+  } finally {
+    await rm(vaultPath, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,86 @@
+/**
+ * Moved and deleted sources: a moved source keeps its notes, a deleted one marks or archives them,
+ * and a missing or empty source folder is never taken as every source deleted.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import path from "path";
+import matter from "gray-matter";
+import { runLoop } from "../src/agent/loop.js";
+import { singleStagePipeline } from "../src/agent/pipeline.js";
+import { clearQueue } from "../src/agent/queue.js";
+import { saveAgentConfig } from "../src/storage/agentConfig.js";
+import { loadProgress } from "../src/storage/progress.js";
+import { loadIndex } from "../src/retrieval/embeddingIndex.js";
+import { loadSource } from "../src/storage/sources.js";
+import { computeContentHash, type SourceIndexData } from "../src/storage/sourceIndex.js";
+import { findMovedSource, moveSource, removeVanishedSources, removeSource } from "../src/agent/sourceChanges.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import { FIXTURE_SOURCES, listFiles, setUpPipeline, withTempVault } from "./fixtures/pipeline/harness.js";
+
+test("a moved source keeps its notes, and a deleted one marks or archives them", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    await setUpPipeline(vaultPath, pipelineRules);
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+    const sourceDir = path.join(vaultPath, "sources");
+    const teaText = await readFile(path.join(FIXTURE_SOURCES, "tea.md"), "utf-8");
+    const coffeeText = await readFile(path.join(FIXTURE_SOURCES, "coffee.md"), "utf-8");
+    await mkdir(path.join(sourceDir, "drinks"), { recursive: true });
+    await writeFile(path.join(sourceDir, "drinks", "green tea.md"), teaText, "utf-8");
+    const index: SourceIndexData = {
+      sourceDir,
+      entries: {
+        "coffee.md": { sourceId: "coffee", contentHash: computeContentHash(coffeeText) },
+        "tea.md": { sourceId: "tea", contentHash: computeContentHash(teaText) },
+      },
+      lastUpdated: new Date().toISOString(),
+    };
+    const notesFrom = async (sourceId: string) => {
+      const notes = new Map<string, Record<string, unknown>>();
+      for (const rel of (await listFiles(vaultPath)).filter((f) => f.endsWith(".md"))) {
+        const data = matter(await readFile(path.join(vaultPath, rel), "utf-8")).data;
+        if (data.source_id === sourceId) notes.set(rel, data);
+      }
+      return notes;
+    };
+    const coffeeNotes = [...(await notesFrom("coffee")).keys()];
+
+    // a missing or empty (unmounted) source folder is not read as every source deleted
+    const unmounted: SourceIndexData = { ...index, sourceDir: path.join(vaultPath, "unmounted") };
+    await assert.rejects(removeVanishedSources(vaultPath, unmounted), /not available/);
+    await mkdir(unmounted.sourceDir);
+    await assert.rejects(removeVanishedSources(vaultPath, unmounted), /is empty/);
+    assert.deepEqual(Object.keys(index.entries), ["coffee.md", "tea.md"]);
+    for (const data of (await notesFrom("coffee")).values()) assert.equal(data.source_status, undefined);
+
+    const movedFrom = await findMovedSource(index, "drinks/green tea.md", computeContentHash(teaText));
+    assert.equal(movedFrom, "tea.md");
+    await moveSource(vaultPath, index, movedFrom!, "drinks/green tea.md");
+    assert.equal(await removeVanishedSources(vaultPath, index), 1);
+
+    assert.deepEqual(Object.keys(index.entries), ["drinks/green tea.md"]);
+    assert.equal((await loadSource(vaultPath, "tea"))?.path, "drinks/green tea.md");
+    assert.equal(await loadSource(vaultPath, "coffee"), null);
+    assert.deepEqual((await loadProgress(vaultPath))?.processedSourceIds, ["tea"]);
+    const coffee = await notesFrom("coffee");
+    assert.deepEqual([...coffee.keys()], coffeeNotes);
+    for (const data of coffee.values()) assert.equal(data.source_status, "removed");
+    const tea = await notesFrom("tea");
+    for (const data of tea.values()) {
+      assert.equal(data.source, "green tea");
+      assert.equal(data.source_status, undefined);
+    }
+
+    await saveAgentConfig(vaultPath, { removedSourcePolicy: "archive" });
+    await rm(path.join(sourceDir, "drinks", "green tea.md"));
+    await removeSource(vaultPath, index, "drinks/green tea.md");
+    assert.deepEqual(
+      [...(await notesFrom("tea")).keys()],
+      [...tea.keys()].map((rel) => `Archive/${rel}`)
+    );
+    const indexed = (await loadIndex(vaultPath)).entries.map((e) => e.path);
+    for (const rel of tea.keys()) assert.ok(indexed.includes(`Archive/${rel}`));
+  });
+});
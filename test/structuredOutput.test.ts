@@ -0,0 +1,44 @@
+/**
+ * Structured model output: invalid responses are repaired by sending the validation errors back,
+ * and a response still invalid after the repairs is reported as a typed error.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import path from "path";
+import { runLoop, getAgentState } from "../src/agent/loop.js";
+import { singleStagePipeline } from "../src/agent/pipeline.js";
+import { getFailedTasks, clearLog, clearQueue } from "../src/agent/queue.js";
+import { saveAgentConfig } from "../src/storage/agentConfig.js";
+import type { FakeRule } from "../src/llm/fake.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import { listFiles, setUpPipeline, withTempVault } from "./fixtures/pipeline/harness.js";
+
+test("invalid model output is repaired by sending the errors back, and reported once repairs run out", async () => {
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    clearLog();
+    await saveAgentConfig(vaultPath, { maxTaskAttempts: 1 });
+    const invalid: FakeRule[] = [
+      { stage: "extract", match: /Source: tea/, times: 1, respond: '{"insights": [{"title": "Tea contains caffeine",}]}' },
+      { stage: "extract", match: /Source: coffee/, respond: "Sorry, I cannot summarize this source." },
+    ];
+    const llm = await setUpPipeline(vaultPath, [...invalid, ...pipelineRules]);
+    await runLoop({ pipeline: singleStagePipeline("extract") });
+
+    const teaCalls = llm.calls.filter((c) => /Source: tea/.test(c.messages[1].content));
+    assert.equal(teaCalls.length, 2);
+    const repair = teaCalls[1].messages[teaCalls[1].messages.length - 1].content;
+    assert.match(repair, /^Your previous response could not be used:\n- insights\[0\]\.content/);
+    const notes = (await listFiles(vaultPath)).filter((f) => f.endsWith(".md")).map((f) => path.basename(f));
+    assert.deepEqual(notes.sort(), ["Caffeine impairs sleep quality.md", "Tea contains caffeine.md"]);
+
+    assert.equal(llm.calls.filter((c) => /Source: coffee/.test(c.messages[1].content)).length, 3);
+    const [failed] = getFailedTasks();
+    assert.equal(failed.payload?.sourceId, "coffee");
+    assert.match(
+      failed.lastError ?? "",
+      /^insights for coffee \(part 1\/1\): invalid model output after 3 attempt\(s\): response contains no JSON object/
+    );
+    assert.ok(getAgentState().log.some((line) => line.startsWith("Insights: insights for coffee (part 1/1)")));
+  });
+});
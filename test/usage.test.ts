@@ -0,0 +1,37 @@
+/**
+ * Usage accounting prices: the configured table prices any model, and calls to a model without a price
+ * warn once and report their cost as unknown instead of free.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { createFakeLLM } from "../src/llm/fake.js";
+import { priceFor, withUsageAccounting, getUsageSummary, setUsageVault } from "../src/llm/usage.js";
+import { runInVault } from "../src/agent/vaultScope.js";
+import { getLog } from "../src/agent/queue.js";
+
+const PROMPT = [{ role: "user" as const, content: "Say ok" }];
+
+test("configured prices apply to any model, and unpriced models report an unknown cost with one warning", async () => {
+  const pricing = { llama3: { input: 1, output: 2 } };
+  assert.deepEqual(priceFor({ provider: "ollama", model: "llama3" }, "", pricing), { input: 1, output: 2 });
+  assert.equal(priceFor({ provider: "ollama", model: "mistral" }, "", pricing), null);
+  assert.ok(priceFor({ provider: "openai", model: "gpt-4o-mini" }, ""), "OpenAI list prices still apply");
+
+  await runInVault("usage-test", async () => {
+    await setUsageVault(null);
+    const llm = createFakeLLM([{ respond: "ok" }]);
+    const priced = withUsageAccounting(llm, "llama3", pricing.llama3);
+    await priced.complete(PROMPT);
+    assert.ok((getUsageSummary().total.costUsd ?? 0) > 0);
+
+    const unpriced = withUsageAccounting(llm, "mistral", null);
+    await unpriced.complete(PROMPT);
+    await unpriced.complete(PROMPT);
+    const summary = getUsageSummary();
+    assert.equal(summary.total.costUsd, null);
+    assert.equal(summary.total.unpricedCalls, 2);
+    assert.equal(summary.byModel.mistral.costUsd, null);
+    assert.ok((summary.byModel.llama3.costUsd ?? 0) > 0, "priced models keep their cost");
+    assert.equal(getLog().filter((line) => line.includes("no price for model mistral")).length, 1);
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * Several vaults in one server: each vault has its own agent state, and the agent limit makes one
+ * vault's run wait for another's.
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "fs/promises";
+import os from "os";
+import path from "path";
+import { setAgentVault, runLoop, getAgentState } from "../src/agent/loop.js";
+import { runInVault, forgetVaultState } from "../src/agent/vaultScope.js";
+import { setMaxConcurrentAgents } from "../src/agent/agentSlots.js";
+import { singleStagePipeline } from "../src/agent/pipeline.js";
+import { getQueueSnapshot, clearLog, clearQueue } from "../src/agent/queue.js";
+import { loadProgress } from "../src/storage/progress.js";
+import { pipelineRules } from "./fixtures/pipeline/script.js";
+import { listFiles, setUpPipeline, withTempVault } from "./fixtures/pipeline/harness.js";
+
+test("each vault has its own agent, and the agent limit makes one vault wait for another", async () => {
+  const otherVault = await mkdtemp(path.join(os.tmpdir(), "vaultmaker-pipeline-"));
+  await withTempVault(async (vaultPath) => {
+    clearQueue();
+    clearLog();
+    setMaxConcurrentAgents(1);
+    try {
+      await setUpPipeline(vaultPath, pipelineRules);
+      await runInVault("other", () => setUpPipeline(otherVault, pipelineRules));
+      assert.equal(getQueueSnapshot().length, 2);
+      assert.equal(runInVault("other", () => getAgentState().vaultPath), otherVault);
+
+      const extractOnly = () => runLoop({ pipeline: singleStagePipeline("extract") });
+      await Promise.all([extractOnly(), runInVault("other", extractOnly)]);
+
+      const waited = (log: string[]) => log.some((line) => line.startsWith("Waiting for a free agent slot"));
+      const logs = [getAgentState().log, runInVault("other", () => getAgentState().log)];
+      assert.deepEqual(logs.map(waited).sort(), [false, true]);
+      for (const root of [vaultPath, otherVault]) {
+        assert.ok((await listFiles(root)).some((f) => f.startsWith("Insights/")));
+        assert.deepEqual((await loadProgress(root))?.processedSourceIds.sort(), ["coffee", "tea"]);
+      }
+    } finally {
+      setMaxConcurrentAgents(0);
+      await runInVault("other", () => setAgentVault(null, null));
+      forgetVaultState("other");
+      await rm(otherVault, { recursive: true, force: true });
+    }
+  });
+});